@@ -0,0 +1,238 @@
+// apps/api/scripts/fake-sheets-server.js
+//
+// In-memory stand-in for the parts of the Sheets v4 API the integration
+// uses, for trying reconciliation locally without a Google account:
+//
+//   PORT=4010 FAKE_SHEETS_FILE=./sheets.json node scripts/fake-sheets-server.js
+//   GOOGLE_SHEETS_API_URL=http://localhost:4010 GOOGLE_SHEETS_SPREADSHEET_ID=local
+//
+// Edit the JSON file (or PUT a range) to simulate coordinators editing the
+// sheet. Requests are not authenticated. Specs start one in-process with
+// createFakeSheetsServer({ file }).
+const http = require("http");
+const fs = require("fs");
+
+class ApiError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// "'Meetings'!A5:J5" -> { sheet: "Meetings", column: 0, row: 5 }
+function parseRange(range) {
+  const match = /^(?:'((?:[^']|'')+)'|([^!]+))!?([A-Z]*)(\d*)/.exec(range);
+  if (!match) throw new ApiError(400, `Unsupported range ${range}`);
+
+  const sheet = (match[1] || match[2]).replace(/''/g, "'");
+  const column = [...(match[3] || "A")].reduce(
+    (total, letter) => total * 26 + letter.charCodeAt(0) - 64,
+    0
+  );
+  return { sheet, column: column - 1, row: Number(match[4]) || 1 };
+}
+
+function columnName(index) {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+// null cells are skipped, as in the real API
+function write(rows, start, values) {
+  values.forEach((cells, offset) => {
+    const index = start.row - 1 + offset;
+    while (rows.length <= index) rows.push([]);
+    const row = rows[index];
+    cells.forEach((value, column) => {
+      if (value !== null) row[start.column + column] = String(value);
+    });
+    for (let i = 0; i < row.length; i++) if (row[i] == null) row[i] = "";
+  });
+}
+
+// Trailing empty rows and cells are left out, like the real API
+function read(rows) {
+  const trimmed = rows.map((row) => {
+    let end = row.length;
+    while (end > 0 && row[end - 1] === "") end--;
+    return row.slice(0, end);
+  });
+  while (trimmed.length && !trimmed[trimmed.length - 1].length) trimmed.pop();
+  return trimmed;
+}
+
+function readBody(request) {
+  return new Promise((resolve, reject) => {
+    let data = "";
+    request.on("data", (chunk) => (data += chunk));
+    request.on("end", () => {
+      try {
+        resolve(data ? JSON.parse(data) : {});
+      } catch (error) {
+        reject(new ApiError(400, error.message));
+      }
+    });
+  });
+}
+
+/**
+ * An http.Server not yet listening. With `file`, the spreadsheets are read
+ * from it before every request and written back after every change.
+ */
+function createFakeSheetsServer({ file, log = false } = {}) {
+  // { [spreadsheetId]: { [worksheet]: string[][] } }
+  let spreadsheets = {};
+
+  function load() {
+    if (file && fs.existsSync(file)) {
+      spreadsheets = JSON.parse(fs.readFileSync(file, "utf8"));
+    }
+  }
+
+  function save() {
+    if (file) fs.writeFileSync(file, JSON.stringify(spreadsheets, null, 2));
+  }
+
+  function spreadsheet(spreadsheetId) {
+    spreadsheets[spreadsheetId] = spreadsheets[spreadsheetId] || {};
+    return spreadsheets[spreadsheetId];
+  }
+
+  // Like the real API, ranges in tabs that don't exist are rejected
+  function worksheet(spreadsheetId, name) {
+    const rows = spreadsheet(spreadsheetId)[name];
+    if (!rows) throw new ApiError(400, `Unable to parse range: ${name}`);
+    return rows;
+  }
+
+  async function handle(request) {
+    const url = new URL(request.url, "http://localhost");
+    const match = /^\/v4\/spreadsheets\/([^/:]+)(:batchUpdate)?(\/.*)?$/.exec(
+      url.pathname
+    );
+    if (!match) throw new ApiError(404, "Not found");
+
+    load();
+    const spreadsheetId = decodeURIComponent(match[1]);
+    const path = match[3] || "";
+    const method = request.method;
+
+    // Spreadsheet metadata: the list of tabs
+    if (method === "GET" && !match[2] && !path) {
+      return {
+        spreadsheetId,
+        sheets: Object.keys(spreadsheet(spreadsheetId)).map((title, index) => ({
+          properties: { sheetId: index, title, index },
+        })),
+      };
+    }
+
+    if (method === "POST" && match[2]) {
+      const body = await readBody(request);
+      const tabs = spreadsheet(spreadsheetId);
+      for (const { addSheet } of body.requests || []) {
+        const title = addSheet && addSheet.properties.title;
+        if (!title) throw new ApiError(400, "Only addSheet is supported");
+        if (tabs[title]) throw new ApiError(400, `${title} already exists`);
+        tabs[title] = [];
+      }
+      save();
+      return { spreadsheetId, replies: [] };
+    }
+
+    if (method === "GET" && path === "/values:batchGet") {
+      return {
+        spreadsheetId,
+        valueRanges: url.searchParams.getAll("ranges").map((range) => ({
+          range,
+          majorDimension: "ROWS",
+          values: read(worksheet(spreadsheetId, parseRange(range).sheet)),
+        })),
+      };
+    }
+
+    if (method === "POST" && path === "/values:batchUpdate") {
+      const body = await readBody(request);
+      for (const { range, values } of body.data || []) {
+        const start = parseRange(range);
+        write(worksheet(spreadsheetId, start.sheet), start, values || []);
+      }
+      save();
+      return { spreadsheetId, totalUpdatedRows: (body.data || []).length };
+    }
+
+    const values = /^\/values\/([^:]+)(:append|:clear)?$/.exec(path);
+    if (!values) throw new ApiError(404, `Unsupported ${method} ${path}`);
+
+    const range = decodeURIComponent(values[1]);
+    const start = parseRange(range);
+    const rows = worksheet(spreadsheetId, start.sheet);
+
+    if (method === "GET") {
+      return { range, majorDimension: "ROWS", values: read(rows) };
+    }
+
+    const body = await readBody(request);
+    if (method === "POST" && values[2] === ":clear") {
+      rows.length = 0;
+      save();
+      return { spreadsheetId, clearedRange: range };
+    }
+
+    if (method === "POST" && values[2] === ":append") {
+      const first = read(rows).length + 1;
+      const appended = body.values || [];
+      rows.length = first - 1;
+      write(rows, { column: 0, row: first }, appended);
+      save();
+
+      const width = Math.max(1, ...appended.map((cells) => cells.length));
+      return {
+        spreadsheetId,
+        updates: {
+          updatedRange: `${start.sheet}!A${first}:${columnName(width - 1)}${
+            first + appended.length - 1
+          }`,
+          updatedRows: appended.length,
+        },
+      };
+    }
+
+    if (method === "PUT" && !values[2]) {
+      write(rows, start, body.values || []);
+      save();
+      return { spreadsheetId, updatedRange: range };
+    }
+
+    throw new ApiError(405, `${method} ${path} is not supported`);
+  }
+
+  return http.createServer(async (request, response) => {
+    let status = 200;
+    let body;
+    try {
+      body = await handle(request);
+    } catch (error) {
+      status = error instanceof ApiError ? error.status : 500;
+      body = { error: { code: status, message: error.message } };
+    }
+    if (log) console.log(`${request.method} ${request.url} -> ${status}`);
+    response.writeHead(status, { "Content-Type": "application/json" });
+    response.end(JSON.stringify(body));
+  });
+}
+
+module.exports = { createFakeSheetsServer };
+
+if (require.main === module) {
+  const port = Number(process.env.PORT || 4010);
+  createFakeSheetsServer({
+    file: process.env.FAKE_SHEETS_FILE,
+    log: true,
+  }).listen(port, () =>
+    console.log(`Fake Google Sheets API on http://localhost:${port}`)
+  );
+}
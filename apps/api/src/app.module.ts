@@ -9,6 +9,9 @@ import { TranscriptionModule } from './modules/transcription/transcription.modul
 import { IntegrationsModule } from './modules/integrations/integrations.module';
 import { AnalyticsModule } from './modules/analytics/analytics.module';
 import { GroupsModule } from './modules/groups/groups.module';
+import { StorageModule } from './modules/storage/storage.module';
+import { AudioModule } from './modules/audio/audio.module';
+import { UploadsModule } from './modules/uploads/uploads.module';
 import configuration from './config/configuration';
 
 @Module({
@@ -41,6 +44,9 @@ import configuration from './config/configuration';
     IntegrationsModule,
     AnalyticsModule,
     GroupsModule,
+    StorageModule,
+    AudioModule,
+    UploadsModule,
   ],
   controllers: [AppController],
   providers: [AppService],
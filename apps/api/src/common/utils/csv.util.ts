@@ -0,0 +1,15 @@
+// apps/api/src/common/utils/csv.util.ts
+
+/** One RFC 4180 line, including the trailing CRLF */
+export function toCsvLine(
+  values: Array<string | number | null | undefined>
+): string {
+  return `${values.map(toCsvValue).join(",")}\r\n`;
+}
+
+function toCsvValue(value: string | number | null | undefined): string {
+  const text = value === null || value === undefined ? "" : String(value);
+  // Leading =, +, - or @ would run as a formula in Excel or Sheets
+  const safe = /^[=+\-@]/.test(text) ? `'${text}` : text;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
@@ -0,0 +1,65 @@
+// apps/api/src/common/utils/process.util.ts
+import { execFile } from "child_process";
+
+export interface CommandResult {
+  stdout: string;
+  stderr: string;
+}
+
+export class CommandError extends Error {
+  constructor(
+    message: string,
+    public readonly command: string,
+    public readonly exitCode: number | string | null,
+    public readonly stderr: string
+  ) {
+    super(message);
+    this.name = "CommandError";
+  }
+
+  /** The binary itself could not be found/executed */
+  get isMissingBinary(): boolean {
+    return this.exitCode === "ENOENT" || this.exitCode === "EACCES";
+  }
+}
+
+/**
+ * Runs a binary without a shell (arguments are never interpolated) and
+ * resolves with its output, or rejects with a CommandError.
+ */
+export function runCommand(
+  command: string,
+  args: string[],
+  options: { signal?: AbortSignal; timeoutMs?: number; cwd?: string } = {}
+): Promise<CommandResult> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      command,
+      args,
+      {
+        cwd: options.cwd,
+        signal: options.signal,
+        timeout: options.timeoutMs,
+        maxBuffer: 32 * 1024 * 1024,
+        windowsHide: true,
+      },
+      (error, stdout, stderr) => {
+        if (!error) {
+          resolve({ stdout, stderr });
+          return;
+        }
+
+        // Exit status for non-zero exits, errno string ("ENOENT") otherwise
+        const { code } = error as { code?: number | string };
+        reject(
+          new CommandError(
+            `${command} failed: ${stderr.trim().split("\n").pop() || error.message}`,
+            command,
+            code ?? null,
+            stderr
+          )
+        );
+      }
+    );
+  });
+}
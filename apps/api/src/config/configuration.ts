@@ -0,0 +1,141 @@
+// apps/api/src/config/configuration.ts
+import { TranscriptionProvider } from "@packages/shared/types";
+
+const toInt = (value: string | undefined, fallback: number): number => {
+  const parsed = parseInt(value ?? "", 10);
+  return isNaN(parsed) ? fallback : parsed;
+};
+
+export default () => ({
+  port: toInt(process.env.PORT, 3001),
+
+  uploads: {
+    dir: process.env.UPLOADS_DIR || "./uploads",
+    // Resumable upload sessions
+    sessionTtlMs: toInt(process.env.UPLOAD_SESSION_TTL_MS, 24 * 60 * 60 * 1000),
+    maxChunkBytes: toInt(process.env.UPLOAD_MAX_CHUNK_BYTES, 5 * 1024 * 1024),
+    cleanupIntervalMs: toInt(
+      process.env.UPLOAD_CLEANUP_INTERVAL_MS,
+      15 * 60 * 1000
+    ),
+  },
+
+  validation: {
+    // Checked against the format sniffed from the upload's magic bytes
+    allowedAudioFormats: (
+      process.env.AUDIO_ALLOWED_FORMATS ||
+      "audio/webm,audio/ogg,audio/wav,audio/mpeg,audio/mp4,audio/flac"
+    )
+      .split(",")
+      .map((format) => format.trim())
+      .filter(Boolean),
+    maxAudioSizeBytes: toInt(
+      process.env.AUDIO_MAX_SIZE_BYTES,
+      10 * 1024 * 1024
+    ),
+  },
+
+  audio: {
+    // Canonical archival copy produced for every upload by the job worker
+    normalizeEnabled: process.env.AUDIO_NORMALIZE_ENABLED !== "false",
+    ffmpegPath: process.env.FFMPEG_PATH || "ffmpeg",
+    sampleRate: toInt(process.env.AUDIO_CANONICAL_SAMPLE_RATE, 16000),
+    channels: toInt(process.env.AUDIO_CANONICAL_CHANNELS, 1),
+    loudnessTarget: toInt(process.env.AUDIO_LOUDNESS_TARGET_LUFS, -16),
+    silenceThresholdDb: toInt(process.env.AUDIO_SILENCE_THRESHOLD_DB, -50),
+    timeoutMs: toInt(process.env.AUDIO_NORMALIZE_TIMEOUT_MS, 120000),
+  },
+
+  storage: {
+    driver: process.env.STORAGE_DRIVER || "local", // 'local' | 's3'
+    publicBaseUrl: process.env.API_PUBLIC_URL || "http://localhost:3001/api/v1",
+    signingSecret:
+      process.env.STORAGE_SIGNING_SECRET ||
+      process.env.JWT_SECRET ||
+      "change-me",
+    signedUrlTtlSeconds: toInt(process.env.STORAGE_SIGNED_URL_TTL, 300),
+    s3: {
+      bucket: process.env.S3_BUCKET || "voice-recordings",
+      region: process.env.S3_REGION || "us-east-1",
+      endpoint: process.env.S3_ENDPOINT, // e.g. http://localhost:9000 for MinIO
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+      accessKeyId: process.env.S3_ACCESS_KEY_ID,
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+    },
+  },
+
+  googleSheets: {
+    spreadsheetId: process.env.GOOGLE_SHEETS_SPREADSHEET_ID,
+    // Tab of the default layout; see PUT /integrations/sheets/layout
+    worksheetName: process.env.GOOGLE_SHEETS_WORKSHEET || "Meetings",
+    recordLinkBaseUrl: process.env.FRONTEND_URL || "http://localhost:3000",
+    // Point at scripts/fake-sheets-server.js to test without Google
+    apiUrl:
+      process.env.GOOGLE_SHEETS_API_URL || "https://sheets.googleapis.com",
+    serviceAccountEmail: process.env.GOOGLE_SERVICE_ACCOUNT_EMAIL,
+    privateKey: process.env.GOOGLE_PRIVATE_KEY?.replace(/\\n/g, "\n"),
+    timeoutMs: toInt(process.env.GOOGLE_SHEETS_TIMEOUT_MS, 30000),
+  },
+
+  // Export sinks are managed at /integrations/sinks; this tunes the worker
+  exports: {
+    // Instances share the sinks; each sink runs on one instance at a time
+    workerEnabled: process.env.EXPORT_WORKER_ENABLED !== "false",
+    pollIntervalMs: toInt(process.env.EXPORT_POLL_INTERVAL_MS, 60000),
+    batchSize: toInt(process.env.EXPORT_BATCH_SIZE, 100),
+    maxAttempts: toInt(process.env.EXPORT_MAX_ATTEMPTS, 5),
+    backoffBaseMs: toInt(process.env.EXPORT_BACKOFF_BASE_MS, 30000),
+    backoffMaxMs: toInt(process.env.EXPORT_BACKOFF_MAX_MS, 3600000),
+    // Records committed this long after later ones are still exported
+    cursorOverlapMs: toInt(process.env.EXPORT_CURSOR_OVERLAP_MS, 300000),
+    // A sink's lease expires this long after its instance stops renewing it
+    lockTimeoutMs: toInt(process.env.EXPORT_LOCK_TIMEOUT_MS, 300000),
+  },
+
+  transcription: {
+    provider: (process.env.TRANSCRIPTION_PROVIDER ||
+      TranscriptionProvider.OPENAI) as TranscriptionProvider,
+    language: process.env.TRANSCRIPTION_LANGUAGE || "en",
+    timeout: toInt(process.env.TRANSCRIPTION_TIMEOUT_MS, 60000),
+
+    openai: {
+      apiKey: process.env.OPENAI_API_KEY,
+      model: process.env.OPENAI_MODEL || "whisper-1",
+    },
+    google: {
+      apiKey: process.env.GOOGLE_SPEECH_API_KEY,
+      projectId: process.env.GOOGLE_PROJECT_ID,
+    },
+    azure: {
+      apiKey: process.env.AZURE_SPEECH_API_KEY,
+      region: process.env.AZURE_SPEECH_REGION,
+    },
+    aws: {
+      region: process.env.AWS_REGION || "us-east-1",
+      accessKeyId: process.env.AWS_ACCESS_KEY_ID,
+      secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY,
+      bucket: process.env.AWS_TRANSCRIBE_BUCKET,
+      pollIntervalMs: toInt(process.env.AWS_TRANSCRIBE_POLL_MS, 2000),
+    },
+    local: {
+      binaryPath: process.env.LOCAL_STT_BINARY || "whisper-cli",
+      modelPath: process.env.LOCAL_STT_MODEL_PATH,
+      ffmpegPath: process.env.FFMPEG_PATH || "ffmpeg",
+      threads: toInt(process.env.LOCAL_STT_THREADS, 4),
+    },
+    jobs: {
+      // Disable on API replicas that should only enqueue
+      workerEnabled: process.env.TRANSCRIPTION_WORKER_ENABLED !== "false",
+      concurrency: toInt(process.env.TRANSCRIPTION_WORKER_CONCURRENCY, 2),
+      pollIntervalMs: toInt(process.env.TRANSCRIPTION_POLL_INTERVAL_MS, 2000),
+      maxRetries: toInt(process.env.TRANSCRIPTION_MAX_RETRIES, 3),
+      backoffBaseMs: toInt(process.env.TRANSCRIPTION_BACKOFF_BASE_MS, 5000),
+      backoffMaxMs: toInt(process.env.TRANSCRIPTION_BACKOFF_MAX_MS, 600000),
+      lockTimeoutMs: toInt(process.env.TRANSCRIPTION_LOCK_TIMEOUT_MS, 300000),
+    },
+    fixture: {
+      // Optional JSON file mapping audio sha256 (or file name) to transcript text
+      transcriptsPath: process.env.TRANSCRIPTION_FIXTURE_PATH,
+    },
+  },
+});
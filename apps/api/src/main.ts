@@ -60,6 +60,7 @@ async function bootstrap() {
       .addBearerAuth()
       .addTag('meetings', 'Meeting records management')
       .addTag('transcription', 'Audio transcription services')
+      .addTag('uploads', 'Resumable chunked audio uploads')
       .addTag('analytics', 'Meeting analytics and statistics')
       .addTag('groups', 'Group management')
       .build();
@@ -0,0 +1,419 @@
+// apps/api/src/modules/audio/audio-format.util.ts
+//
+// Dependency-free container sniffing and duration extraction. Only headers
+// and index structures are read; audio is never decoded.
+
+export interface SniffedAudio {
+  mimeType: string; // Detected from magic bytes, not from the client
+  durationMs: number | null; // null when the container does not say
+}
+
+export function sniffAudio(buffer: Buffer): SniffedAudio | null {
+  if (buffer.length < 12) return null;
+
+  if (ascii(buffer, 0, 4) === "RIFF" && ascii(buffer, 8, 4) === "WAVE") {
+    return { mimeType: "audio/wav", durationMs: wavDuration(buffer) };
+  }
+  if (buffer.readUInt32BE(0) === 0x1a45dfa3) {
+    return {
+      mimeType: buffer.subarray(0, 64).includes("webm", 0, "latin1")
+        ? "audio/webm"
+        : "audio/x-matroska",
+      durationMs: matroskaDuration(buffer),
+    };
+  }
+  if (ascii(buffer, 0, 4) === "OggS") {
+    return { mimeType: "audio/ogg", durationMs: oggDuration(buffer) };
+  }
+  if (ascii(buffer, 0, 4) === "fLaC") {
+    return { mimeType: "audio/flac", durationMs: flacDuration(buffer) };
+  }
+  if (ascii(buffer, 4, 4) === "ftyp") {
+    return { mimeType: "audio/mp4", durationMs: mp4Duration(buffer) };
+  }
+
+  const mp3Start = findMp3FrameStart(buffer);
+  if (mp3Start !== null) {
+    return {
+      mimeType: "audio/mpeg",
+      durationMs: mp3Duration(buffer, mp3Start),
+    };
+  }
+
+  return null;
+}
+
+function ascii(buffer: Buffer, offset: number, length: number): string {
+  return buffer.toString("latin1", offset, offset + length);
+}
+
+// ===== WAV =====
+
+function wavDuration(buffer: Buffer): number | null {
+  let offset = 12;
+  let byteRate = 0;
+
+  while (offset + 8 <= buffer.length) {
+    const id = ascii(buffer, offset, 4);
+    const size = buffer.readUInt32LE(offset + 4);
+    const body = offset + 8;
+
+    if (id === "fmt " && body + 12 <= buffer.length) {
+      byteRate = buffer.readUInt32LE(body + 8);
+    } else if (id === "data") {
+      // Streamed WAVs leave the size as 0 or 0xFFFFFFFF; use what we have
+      const available = buffer.length - body;
+      const dataSize = size === 0 || size > available ? available : size;
+      return byteRate ? (dataSize / byteRate) * 1000 : null;
+    }
+
+    offset = body + size + (size % 2); // Chunks are word aligned
+  }
+
+  return null;
+}
+
+/**
+ * Recorders that stream WAV write placeholder sizes into the header because
+ * the final length is unknown. Once the whole file has arrived the real
+ * sizes can be filled in, so the stored copy is a well-formed WAV.
+ */
+export function finalizeStreamedWav(buffer: Buffer): Buffer {
+  let offset = 12;
+
+  while (offset + 8 <= buffer.length) {
+    const id = ascii(buffer, offset, 4);
+    const size = buffer.readUInt32LE(offset + 4);
+    const body = offset + 8;
+
+    if (id === "data") {
+      const available = buffer.length - body;
+      if (size === 0 || size > available) {
+        const fixed = Buffer.from(buffer);
+        fixed.writeUInt32LE(available, offset + 4);
+        fixed.writeUInt32LE(buffer.length - 8, 4);
+        return fixed;
+      }
+      break;
+    }
+
+    offset = body + size + (size % 2);
+  }
+
+  return buffer;
+}
+
+// ===== OGG (Opus / Vorbis) =====
+
+function oggDuration(buffer: Buffer): number | null {
+  // The first packet identifies the codec and its sample clock
+  let sampleRate = 0;
+  let preSkip = 0;
+
+  const opusHead = buffer.indexOf("OpusHead", 0, "latin1");
+  const vorbisHead = buffer.indexOf("\x01vorbis", 0, "latin1");
+
+  if (opusHead !== -1 && opusHead + 12 <= buffer.length) {
+    sampleRate = 48000; // Opus granule positions are always 48 kHz
+    preSkip = buffer.readUInt16LE(opusHead + 10);
+  } else if (vorbisHead !== -1 && vorbisHead + 16 <= buffer.length) {
+    sampleRate = buffer.readUInt32LE(vorbisHead + 12);
+  }
+  if (!sampleRate) return null;
+
+  // The granule position of the last page is the total sample count
+  let page = buffer.lastIndexOf("OggS", buffer.length - 4, "latin1");
+  while (page !== -1) {
+    if (page + 14 <= buffer.length) {
+      const granule = buffer.readBigInt64LE(page + 6);
+      if (granule > BigInt(0)) {
+        return ((Number(granule) - preSkip) / sampleRate) * 1000;
+      }
+    }
+    page = buffer.lastIndexOf("OggS", page - 1, "latin1");
+  }
+
+  return null;
+}
+
+// ===== FLAC =====
+
+function flacDuration(buffer: Buffer): number | null {
+  // STREAMINFO is always the first metadata block, right after "fLaC"
+  if (buffer.length < 26 || (buffer[4] & 0x7f) !== 0) return null;
+
+  const info = 8;
+  const sampleRate =
+    (buffer[info + 10] << 12) |
+    (buffer[info + 11] << 4) |
+    (buffer[info + 12] >> 4);
+  const totalSamples =
+    (buffer[info + 13] & 0x0f) * 2 ** 32 + buffer.readUInt32BE(info + 14);
+
+  return sampleRate && totalSamples ? (totalSamples / sampleRate) * 1000 : null;
+}
+
+// ===== MP4 / M4A =====
+
+function mp4Duration(buffer: Buffer): number | null {
+  const moov = findBox(buffer, "moov", 0, buffer.length);
+  if (!moov) return null;
+
+  const mvhd = findBox(buffer, "mvhd", moov.start, moov.end);
+  if (!mvhd || mvhd.start + 32 > buffer.length) return null;
+
+  const version = buffer[mvhd.start];
+  const timescale =
+    version === 1
+      ? buffer.readUInt32BE(mvhd.start + 20)
+      : buffer.readUInt32BE(mvhd.start + 12);
+  const duration =
+    version === 1
+      ? Number(buffer.readBigUInt64BE(mvhd.start + 24))
+      : buffer.readUInt32BE(mvhd.start + 16);
+
+  return timescale ? (duration / timescale) * 1000 : null;
+}
+
+/** Finds a box among the children in [from, to); returns its payload span */
+function findBox(
+  buffer: Buffer,
+  type: string,
+  from: number,
+  to: number
+): { start: number; end: number } | null {
+  let offset = from;
+
+  while (offset + 8 <= to) {
+    let size = buffer.readUInt32BE(offset);
+    let header = 8;
+
+    if (size === 1 && offset + 16 <= to) {
+      size = Number(buffer.readBigUInt64BE(offset + 8));
+      header = 16;
+    } else if (size === 0) {
+      size = to - offset; // Box extends to the end of its parent
+    }
+    if (size < header) return null;
+
+    if (ascii(buffer, offset + 4, 4) === type) {
+      return { start: offset + header, end: Math.min(offset + size, to) };
+    }
+    offset += size;
+  }
+
+  return null;
+}
+
+// ===== WEBM / MATROSKA =====
+
+const EBML_SEGMENT = 0x18538067;
+const EBML_INFO = 0x1549a966;
+const EBML_TIMECODE_SCALE = 0x2ad7b1;
+const EBML_DURATION = 0x4489;
+const EBML_CLUSTER = 0x1f43b675;
+const EBML_CLUSTER_TIMECODE = 0xe7;
+const EBML_BLOCK_GROUP = 0xa0;
+const EBML_BLOCK = 0xa1;
+const EBML_SIMPLE_BLOCK = 0xa3;
+
+// Master elements we step into instead of skipping over
+const EBML_CONTAINERS = new Set([
+  EBML_SEGMENT,
+  EBML_INFO,
+  EBML_CLUSTER,
+  EBML_BLOCK_GROUP,
+]);
+
+/**
+ * MediaRecorder writes live WebM without a Duration element (and with
+ * unknown-size Segment/Cluster elements), so when Info has no Duration the
+ * latest block timestamp across all clusters is used instead. The walk is
+ * flat: containers are entered in place rather than recursed into, which
+ * copes with unknown sizes.
+ */
+function matroskaDuration(buffer: Buffer): number | null {
+  let offset = 0;
+  let timecodeScale = 1000000; // Nanoseconds per tick (default 1 ms)
+  let declaredDuration: number | null = null;
+  let clusterTimecode = 0;
+  let maxTimecode = -1;
+
+  while (offset < buffer.length) {
+    const id = readVint(buffer, offset, true);
+    if (!id) break;
+    const size = readVint(buffer, offset + id.length, false);
+    if (!size) break;
+
+    const dataStart = offset + id.length + size.length;
+    const dataEnd = size.unknown
+      ? buffer.length
+      : Math.min(dataStart + size.value, buffer.length);
+
+    if (EBML_CONTAINERS.has(id.value)) {
+      offset = dataStart;
+      continue;
+    }
+    if (size.unknown) break;
+
+    switch (id.value) {
+      case EBML_TIMECODE_SCALE:
+        timecodeScale = readUInt(buffer, dataStart, dataEnd);
+        break;
+      case EBML_DURATION:
+        declaredDuration =
+          size.value === 4
+            ? buffer.readFloatBE(dataStart)
+            : buffer.readDoubleBE(dataStart);
+        break;
+      case EBML_CLUSTER_TIMECODE:
+        clusterTimecode = readUInt(buffer, dataStart, dataEnd);
+        break;
+      case EBML_SIMPLE_BLOCK:
+      case EBML_BLOCK: {
+        const track = readVint(buffer, dataStart, false);
+        if (track && dataStart + track.length + 2 <= buffer.length) {
+          const relative = buffer.readInt16BE(dataStart + track.length);
+          maxTimecode = Math.max(maxTimecode, clusterTimecode + relative);
+        }
+        break;
+      }
+    }
+
+    offset = dataEnd;
+  }
+
+  const ticks = declaredDuration ?? (maxTimecode >= 0 ? maxTimecode : null);
+  return ticks === null ? null : (ticks * timecodeScale) / 1e6;
+}
+
+function readVint(
+  buffer: Buffer,
+  offset: number,
+  keepMarker: boolean
+): { value: number; length: number; unknown: boolean } | null {
+  if (offset >= buffer.length) return null;
+
+  const first = buffer[offset];
+  let length = 1;
+  while (length <= 8 && !(first & (0x80 >> (length - 1)))) length++;
+  if (length > 8 || offset + length > buffer.length) return null;
+
+  let value = keepMarker ? first : first & (0xff >> length);
+  let allOnes = value === 0xff >> length;
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + buffer[offset + i];
+    allOnes = allOnes && buffer[offset + i] === 0xff;
+  }
+
+  return { value, length, unknown: !keepMarker && allOnes };
+}
+
+function readUInt(buffer: Buffer, start: number, end: number): number {
+  let value = 0;
+  for (let i = start; i < end; i++) value = value * 256 + buffer[i];
+  return value;
+}
+
+// ===== MP3 =====
+
+// kbps, indexed [mpeg1 ? 0 : 1][bitrate index] for Layer III
+const MP3_BITRATES = [
+  [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+];
+const MP3_SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000], // MPEG 1
+  2: [22050, 24000, 16000], // MPEG 2
+  0: [11025, 12000, 8000], // MPEG 2.5
+};
+
+interface Mp3Header {
+  version: number;
+  bitrate: number; // kbps
+  sampleRate: number;
+  samplesPerFrame: number;
+  channelMode: number;
+}
+
+function parseMp3Header(buffer: Buffer, offset: number): Mp3Header | null {
+  if (offset + 4 > buffer.length) return null;
+  if (buffer[offset] !== 0xff || (buffer[offset + 1] & 0xe0) !== 0xe0) {
+    return null;
+  }
+
+  const version = (buffer[offset + 1] >> 3) & 0x03;
+  const layer = (buffer[offset + 1] >> 1) & 0x03;
+  const bitrateIndex = buffer[offset + 2] >> 4;
+  const sampleRateIndex = (buffer[offset + 2] >> 2) & 0x03;
+
+  // Layer III only; reject reserved values
+  if (
+    version === 1 ||
+    layer !== 1 ||
+    bitrateIndex === 0 ||
+    bitrateIndex === 15
+  ) {
+    return null;
+  }
+  if (sampleRateIndex === 3) return null;
+
+  return {
+    version,
+    bitrate: MP3_BITRATES[version === 3 ? 0 : 1][bitrateIndex],
+    sampleRate: MP3_SAMPLE_RATES[version][sampleRateIndex],
+    samplesPerFrame: version === 3 ? 1152 : 576,
+    channelMode: buffer[offset + 3] >> 6,
+  };
+}
+
+function findMp3FrameStart(buffer: Buffer): number | null {
+  let offset = 0;
+
+  // Skip an ID3v2 tag (its size is a 28-bit syncsafe integer)
+  if (ascii(buffer, 0, 3) === "ID3" && buffer.length >= 10) {
+    offset =
+      10 +
+      ((buffer[6] & 0x7f) << 21) +
+      ((buffer[7] & 0x7f) << 14) +
+      ((buffer[8] & 0x7f) << 7) +
+      (buffer[9] & 0x7f);
+  } else if (!parseMp3Header(buffer, 0)) {
+    return null; // Without an ID3 tag the file must start on a frame
+  }
+
+  // Tolerate padding between the tag and the first frame
+  const limit = Math.min(buffer.length - 4, offset + 4096);
+  for (let i = offset; i <= limit; i++) {
+    if (parseMp3Header(buffer, i)) return i;
+  }
+  return null;
+}
+
+function mp3Duration(buffer: Buffer, start: number): number | null {
+  const header = parseMp3Header(buffer, start);
+  if (!header) return null;
+
+  // A Xing/Info (VBR) header in the first frame carries the frame count
+  const sideInfo =
+    header.version === 3
+      ? header.channelMode === 3
+        ? 17
+        : 32
+      : header.channelMode === 3
+        ? 9
+        : 17;
+  const xing = start + 4 + sideInfo;
+  const tag = ascii(buffer, xing, 4);
+
+  if ((tag === "Xing" || tag === "Info") && xing + 12 <= buffer.length) {
+    const flags = buffer.readUInt32BE(xing + 4);
+    if (flags & 0x1) {
+      const frames = buffer.readUInt32BE(xing + 8);
+      return ((frames * header.samplesPerFrame) / header.sampleRate) * 1000;
+    }
+  }
+
+  // Otherwise assume constant bitrate
+  return (((buffer.length - start) * 8) / (header.bitrate * 1000)) * 1000;
+}
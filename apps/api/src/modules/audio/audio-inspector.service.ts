@@ -0,0 +1,74 @@
+// apps/api/src/modules/audio/audio-inspector.service.ts
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  PayloadTooLargeException,
+} from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { ErrorCodes } from "@packages/shared/types";
+import { sniffAudio } from "./audio-format.util";
+
+export interface VerifiedAudio {
+  mimeType: string; // Sniffed from the bytes; the client's label is ignored
+  sizeBytes: number;
+  durationMs: number | null;
+}
+
+@Injectable()
+export class AudioInspectorService {
+  private readonly logger = new Logger(AudioInspectorService.name);
+
+  constructor(private readonly configService: ConfigService) {}
+
+  /**
+   * Checks an upload against the configured size limit and allowed formats,
+   * identifying the format from its magic bytes and reading the real
+   * duration from the container.
+   */
+  verifyUpload(buffer: Buffer, declaredMimeType?: string): VerifiedAudio {
+    const maxSize = this.configService.get<number>(
+      "validation.maxAudioSizeBytes",
+      10 * 1024 * 1024
+    );
+
+    if (buffer.length > maxSize) {
+      throw new PayloadTooLargeException({
+        code: ErrorCodes.AUDIO_TOO_LARGE,
+        message: `Audio file is too large. Maximum size is ${Math.floor(
+          maxSize / (1024 * 1024)
+        )}MB.`,
+        details: { sizeBytes: buffer.length, maxSizeBytes: maxSize },
+      });
+    }
+
+    const sniffed = sniffAudio(buffer);
+    const allowed = this.configService.get<string[]>(
+      "validation.allowedAudioFormats",
+      []
+    );
+
+    if (!sniffed || !allowed.includes(sniffed.mimeType)) {
+      throw new BadRequestException({
+        code: ErrorCodes.INVALID_AUDIO_FORMAT,
+        message: sniffed
+          ? `Unsupported audio format ${sniffed.mimeType}`
+          : "File is not a recognised audio format",
+        details: { declaredMimeType, detectedMimeType: sniffed?.mimeType },
+      });
+    }
+
+    if (declaredMimeType && !declaredMimeType.startsWith(sniffed.mimeType)) {
+      this.logger.warn(
+        `Upload labelled ${declaredMimeType} is actually ${sniffed.mimeType}`
+      );
+    }
+
+    return {
+      mimeType: sniffed.mimeType,
+      sizeBytes: buffer.length,
+      durationMs:
+        sniffed.durationMs === null ? null : Math.round(sniffed.durationMs),
+    };
+  }
+}
@@ -0,0 +1,112 @@
+// apps/api/src/modules/audio/audio-processing.service.ts
+import { Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { runCommand } from "@/common/utils/process.util";
+import { sniffAudio } from "./audio-format.util";
+
+export const CANONICAL_AUDIO_MIME_TYPE = "audio/wav";
+
+export interface NormalizedAudio {
+  buffer: Buffer;
+  mimeType: string;
+  durationMs: number | null;
+}
+
+/**
+ * Converts uploads to the canonical archival format: 16-bit PCM WAV at the
+ * configured sample rate and channel count, loudness-normalized (EBU R128)
+ * with leading and trailing silence trimmed.
+ */
+@Injectable()
+export class AudioProcessingService {
+  private readonly logger = new Logger(AudioProcessingService.name);
+
+  constructor(private readonly configService: ConfigService) {}
+
+  get isEnabled(): boolean {
+    return this.config("normalizeEnabled", true);
+  }
+
+  async normalize(
+    buffer: Buffer,
+    options: { signal?: AbortSignal } = {}
+  ): Promise<NormalizedAudio> {
+    const workDir = await mkdtemp(join(tmpdir(), "audio-normalize-"));
+
+    try {
+      const inputPath = join(workDir, "input");
+      const outputPath = join(workDir, "normalized.wav");
+      await writeFile(inputPath, buffer);
+
+      const startedAt = Date.now();
+      await runCommand(
+        this.config("ffmpegPath", "ffmpeg"),
+        [
+          "-nostdin",
+          "-y",
+          "-i",
+          inputPath,
+          "-af",
+          this.buildFilterChain(),
+          "-ar",
+          String(this.config("sampleRate", 16000)),
+          "-ac",
+          String(this.config("channels", 1)),
+          "-c:a",
+          "pcm_s16le",
+          "-map_metadata",
+          "-1",
+          "-bitexact", // Identical input gives identical bytes, so storage dedupes
+          "-f",
+          "wav",
+          outputPath,
+        ],
+        { signal: options.signal, timeoutMs: this.config("timeoutMs", 120000) }
+      );
+
+      const output = await readFile(outputPath);
+      const durationMs = sniffAudio(output)?.durationMs ?? null;
+
+      this.logger.log(
+        `Normalized ${buffer.length} bytes to ${output.length} bytes in ${
+          Date.now() - startedAt
+        }ms`
+      );
+
+      return {
+        buffer: output,
+        mimeType: CANONICAL_AUDIO_MIME_TYPE,
+        durationMs: durationMs === null ? null : Math.round(durationMs),
+      };
+    } finally {
+      await rm(workDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * silenceremove only trims from the start, so trailing silence is removed
+   * by reversing, trimming again and reversing back. Trimming runs before
+   * loudnorm so the silence does not skew the loudness measurement.
+   */
+  private buildFilterChain(): string {
+    const trim = `silenceremove=start_periods=1:start_threshold=${this.config(
+      "silenceThresholdDb",
+      -50
+    )}dB:start_silence=0.2`;
+
+    return [
+      trim,
+      "areverse",
+      trim,
+      "areverse",
+      `loudnorm=I=${this.config("loudnessTarget", -16)}:TP=-1.5:LRA=11`,
+    ].join(",");
+  }
+
+  private config<T>(key: string, fallback: T): T {
+    return this.configService.get<T>(`audio.${key}`, fallback);
+  }
+}
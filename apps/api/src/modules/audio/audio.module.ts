@@ -0,0 +1,10 @@
+// apps/api/src/modules/audio/audio.module.ts
+import { Module } from "@nestjs/common";
+import { AudioInspectorService } from "./audio-inspector.service";
+import { AudioProcessingService } from "./audio-processing.service";
+
+@Module({
+  providers: [AudioInspectorService, AudioProcessingService],
+  exports: [AudioInspectorService, AudioProcessingService],
+})
+export class AudioModule {}
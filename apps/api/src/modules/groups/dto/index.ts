@@ -0,0 +1,3 @@
+export * from "./update-group-template.dto";
+export * from "./preview-group-template.dto";
+export * from "./update-group-language.dto";
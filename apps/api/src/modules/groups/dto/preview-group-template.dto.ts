@@ -0,0 +1,33 @@
+// apps/api/src/modules/groups/dto/preview-group-template.dto.ts
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsObject,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from "class-validator";
+import { SentenceTemplate } from "@packages/shared/types";
+
+export class PreviewGroupTemplateDto {
+  @ApiPropertyOptional({
+    description: "Unsaved template to try; defaults to the group's current one",
+  })
+  @IsOptional()
+  @IsObject()
+  template?: SentenceTemplate;
+
+  @ApiProperty({
+    example: [
+      "My name is John and I belong to group 7 and today I met Sarah at the cafe and we talked about budgets",
+    ],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  @MaxLength(1000, { each: true })
+  sentences: string[];
+}
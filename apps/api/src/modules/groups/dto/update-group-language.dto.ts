@@ -0,0 +1,17 @@
+// apps/api/src/modules/groups/dto/update-group-language.dto.ts
+import { ApiProperty } from "@nestjs/swagger";
+import { IsIn, ValidateIf } from "class-validator";
+import { SUPPORTED_LOCALES } from "@packages/shared/validation";
+import { Locale } from "@packages/shared/types";
+
+export class UpdateGroupLanguageDto {
+  @ApiProperty({
+    enum: SUPPORTED_LOCALES,
+    nullable: true,
+    description: "Language the group reports in; null accepts any",
+    example: "es",
+  })
+  @ValidateIf((_, value) => value !== null)
+  @IsIn(SUPPORTED_LOCALES)
+  language: Locale | null;
+}
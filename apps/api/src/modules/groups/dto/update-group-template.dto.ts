@@ -0,0 +1,38 @@
+// apps/api/src/modules/groups/dto/update-group-template.dto.ts
+import { ApiProperty } from "@nestjs/swagger";
+import { IsObject } from "class-validator";
+import { SentenceTemplate } from "@packages/shared/types";
+
+export class UpdateGroupTemplateDto {
+  @ApiProperty({
+    description:
+      "Sentence template; checked with checkTemplate from @packages/shared/validation",
+    example: {
+      locale: "en",
+      slots: [
+        { name: "speakerName", phrases: ["my name is"], validator: "name" },
+        {
+          name: "groupNumber",
+          joiner: "and",
+          phrases: ["i belong to group"],
+          validator: "groupNumber",
+        },
+        {
+          name: "personMet",
+          joiner: "and",
+          phrases: ["today i met"],
+          validator: "name",
+        },
+        { name: "location", phrases: ["at"], validator: "location" },
+        {
+          name: "topic",
+          joiner: "and",
+          phrases: ["we talked about", "we discussed"],
+          validator: "text",
+        },
+      ],
+    },
+  })
+  @IsObject()
+  template: SentenceTemplate;
+}
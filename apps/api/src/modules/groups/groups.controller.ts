@@ -0,0 +1,100 @@
+// apps/api/src/modules/groups/groups.controller.ts
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Put,
+} from "@nestjs/common";
+import { ApiOperation, ApiTags } from "@nestjs/swagger";
+import { GroupTemplateDetails, GroupsService } from "./groups.service";
+import {
+  PreviewGroupTemplateDto,
+  UpdateGroupLanguageDto,
+  UpdateGroupTemplateDto,
+} from "./dto";
+import { ApiResponseDto } from "@/common/dto/api-response.dto";
+import { GroupTemplate, TemplatePreview } from "@packages/shared/types";
+
+@ApiTags("groups")
+@Controller("groups")
+export class GroupsController {
+  constructor(private readonly groupsService: GroupsService) {}
+
+  @Get("templates")
+  @ApiOperation({ summary: "List the custom sentence templates of all groups" })
+  async getTemplates(): Promise<ApiResponseDto<GroupTemplate[]>> {
+    return this.wrap(await this.groupsService.getTemplates());
+  }
+
+  @Get(":number/template")
+  @ApiOperation({ summary: "Get the sentence template a group validates with" })
+  async getTemplate(
+    @Param("number") groupNumber: string
+  ): Promise<ApiResponseDto<GroupTemplateDetails>> {
+    return this.wrap(await this.groupsService.getTemplate(groupNumber));
+  }
+
+  @Put(":number/template")
+  @ApiOperation({ summary: "Set a group's sentence template" })
+  async setTemplate(
+    @Param("number") groupNumber: string,
+    @Body() dto: UpdateGroupTemplateDto
+  ): Promise<ApiResponseDto<GroupTemplateDetails>> {
+    return this.wrap(
+      await this.groupsService.setTemplate(groupNumber, dto.template)
+    );
+  }
+
+  @Delete(":number/template")
+  @ApiOperation({ summary: "Restore the default template for a group" })
+  async resetTemplate(
+    @Param("number") groupNumber: string
+  ): Promise<ApiResponseDto<GroupTemplateDetails>> {
+    return this.wrap(await this.groupsService.setTemplate(groupNumber, null));
+  }
+
+  @Put(":number/language")
+  @ApiOperation({ summary: "Choose the language a group reports in" })
+  async setLanguage(
+    @Param("number") groupNumber: string,
+    @Body() dto: UpdateGroupLanguageDto
+  ): Promise<ApiResponseDto<GroupTemplateDetails>> {
+    return this.wrap(
+      await this.groupsService.setLanguage(groupNumber, dto.language)
+    );
+  }
+
+  @Post(":number/template/preview")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: "Test a saved or unsaved template against sample sentences",
+  })
+  async previewTemplate(
+    @Param("number") groupNumber: string,
+    @Body() dto: PreviewGroupTemplateDto
+  ): Promise<ApiResponseDto<TemplatePreview>> {
+    return this.wrap(
+      await this.groupsService.previewTemplate(
+        groupNumber,
+        dto.sentences,
+        dto.template
+      )
+    );
+  }
+
+  private wrap<T>(data: T): ApiResponseDto<T> {
+    return {
+      success: true,
+      data,
+      meta: {
+        timestamp: new Date().toISOString(),
+        requestId: `req_${Date.now()}`,
+      },
+    };
+  }
+}
@@ -0,0 +1,13 @@
+// apps/api/src/modules/groups/groups.module.ts
+import { Module } from "@nestjs/common";
+import { DatabaseModule } from "@/modules/database/database.module";
+import { GroupsController } from "./groups.controller";
+import { GroupsService } from "./groups.service";
+
+@Module({
+  imports: [DatabaseModule],
+  controllers: [GroupsController],
+  providers: [GroupsService],
+  exports: [GroupsService],
+})
+export class GroupsModule {}
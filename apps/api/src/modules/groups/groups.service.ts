@@ -0,0 +1,207 @@
+// apps/api/src/modules/groups/groups.service.ts
+import { BadRequestException, Injectable, Logger } from "@nestjs/common";
+import { Prisma } from "@prisma/client";
+import { PrismaService } from "@/modules/database/prisma.service";
+import {
+  DEFAULT_TEMPLATES,
+  checkTemplate,
+  describeTemplate,
+  validateWithTemplate,
+} from "@packages/shared/validation";
+import {
+  ErrorCodes,
+  GroupTemplate,
+  Locale,
+  SentenceTemplate,
+  TemplatePreview,
+} from "@packages/shared/types";
+
+export interface GroupTemplateDetails {
+  groupNumber: string;
+  template: SentenceTemplate;
+  isDefault: boolean; // The group has no template of its own
+  language: Locale | null; // Chosen for the group; null accepts any language
+  format: string;
+}
+
+type GroupSettings = {
+  requiredFields: Prisma.JsonValue;
+  language: string | null;
+};
+
+/**
+ * Per-group sentence templates, stored in Group.requiredFields. A group
+ * without one uses the default sentence of its language, or of whichever
+ * supported language the message is spoken in if it has not chosen one.
+ */
+@Injectable()
+export class GroupsService {
+  private readonly logger = new Logger(GroupsService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /** Templates of active groups, as passed to validateTranscription */
+  async getTemplates(): Promise<GroupTemplate[]> {
+    const groups = await this.prisma.group.findMany({
+      where: {
+        isActive: true,
+        OR: [
+          { requiredFields: { not: Prisma.AnyNull } },
+          { language: { not: null } },
+        ],
+      },
+      select: { number: true, requiredFields: true, language: true },
+    });
+
+    return groups.flatMap((group) => {
+      const problems =
+        group.requiredFields === null
+          ? []
+          : checkTemplate(group.requiredFields);
+      if (problems.length) {
+        // Saved before a rule change; the group falls back to the default
+        this.logger.warn(
+          `Ignoring invalid template of group ${group.number}: ${problems.join(
+            "; "
+          )}`
+        );
+      }
+
+      const template = this.effectiveTemplate(group);
+      return template ? [{ groupNumber: group.number, template }] : [];
+    });
+  }
+
+  async getTemplate(groupNumber: string): Promise<GroupTemplateDetails> {
+    const group = await this.findGroup(groupNumber);
+    return this.formatTemplate(groupNumber, group);
+  }
+
+  /** Saves a template, creating the group if needed; null restores the default */
+  async setTemplate(
+    groupNumber: string,
+    template: SentenceTemplate | null
+  ): Promise<GroupTemplateDetails> {
+    if (template) this.assertValidTemplate(template);
+
+    const requiredFields = template
+      ? (template as unknown as Prisma.InputJsonObject)
+      : Prisma.DbNull;
+
+    const group = await this.prisma.group.upsert({
+      where: { number: groupNumber },
+      create: { number: groupNumber, requiredFields },
+      update: { requiredFields },
+      select: { requiredFields: true, language: true },
+    });
+
+    this.logger.log(
+      template
+        ? `Updated sentence template of group ${groupNumber}`
+        : `Restored the default template for group ${groupNumber}`
+    );
+    return this.formatTemplate(groupNumber, group);
+  }
+
+  /**
+   * Chooses the language a group reports in, creating the group if needed.
+   * null lets its members use any supported language.
+   */
+  async setLanguage(
+    groupNumber: string,
+    language: Locale | null
+  ): Promise<GroupTemplateDetails> {
+    const group = await this.prisma.group.upsert({
+      where: { number: groupNumber },
+      create: { number: groupNumber, language },
+      update: { language },
+      select: { requiredFields: true, language: true },
+    });
+
+    this.logger.log(
+      `Group ${groupNumber} now reports in ${language ?? "any language"}`
+    );
+    return this.formatTemplate(groupNumber, group);
+  }
+
+  /**
+   * Runs sample sentences through a template without saving anything. Uses
+   * the group's current template when none is given.
+   */
+  async previewTemplate(
+    groupNumber: string,
+    sentences: string[],
+    template?: SentenceTemplate
+  ): Promise<TemplatePreview> {
+    if (template) this.assertValidTemplate(template);
+    const effective =
+      template ??
+      this.effectiveTemplate(await this.findGroup(groupNumber)) ??
+      DEFAULT_TEMPLATES.en;
+
+    return {
+      format: describeTemplate(effective),
+      results: sentences.map((sentence) => ({
+        sentence,
+        ...validateWithTemplate(sentence, effective),
+      })),
+    };
+  }
+
+  private async findGroup(groupNumber: string): Promise<GroupSettings | null> {
+    return this.prisma.group.findUnique({
+      where: { number: groupNumber },
+      select: { requiredFields: true, language: true },
+    });
+  }
+
+  /** The group's own valid template, if any */
+  private storedTemplate(group: GroupSettings | null): SentenceTemplate | null {
+    const stored = group?.requiredFields;
+    return stored && checkTemplate(stored).length === 0
+      ? (stored as unknown as SentenceTemplate)
+      : null;
+  }
+
+  /**
+   * The template a group validates with, or null if it accepts the default
+   * sentence in any language. A template without a locale of its own is
+   * spoken in the group's language.
+   */
+  private effectiveTemplate(
+    group: GroupSettings | null
+  ): SentenceTemplate | null {
+    const template = this.storedTemplate(group);
+    const language = (group?.language as Locale | null) ?? null;
+
+    if (!template) return language ? DEFAULT_TEMPLATES[language] : null;
+    return template.locale || !language
+      ? template
+      : { ...template, locale: language };
+  }
+
+  private assertValidTemplate(template: SentenceTemplate): void {
+    const problems = checkTemplate(template);
+    if (problems.length) {
+      throw new BadRequestException({
+        code: ErrorCodes.INVALID_TEMPLATE,
+        message: "The sentence template is not valid",
+        details: { problems },
+      });
+    }
+  }
+
+  private formatTemplate(
+    groupNumber: string,
+    group: GroupSettings | null
+  ): GroupTemplateDetails {
+    const template = this.effectiveTemplate(group) ?? DEFAULT_TEMPLATES.en;
+    return {
+      groupNumber,
+      template,
+      isDefault: !this.storedTemplate(group),
+      language: (group?.language as Locale | null) ?? null,
+      format: describeTemplate(template),
+    };
+  }
+}
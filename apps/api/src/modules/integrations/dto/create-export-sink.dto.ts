@@ -0,0 +1,61 @@
+// apps/api/src/modules/integrations/dto/create-export-sink.dto.ts
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import {
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsObject,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+} from "class-validator";
+import { ExportSinkType } from "@packages/shared/types";
+
+export class CreateExportSinkDto {
+  @ApiProperty({ example: "nightly-parquet" })
+  @IsString()
+  @MaxLength(100)
+  @Matches(/^[a-z0-9][\w-]*$/i, {
+    message: "name may only contain letters, digits, - and _",
+  })
+  name: string;
+
+  @ApiProperty({ enum: ExportSinkType })
+  @IsEnum(ExportSinkType)
+  type: ExportSinkType;
+
+  @ApiPropertyOptional({
+    nullable: true,
+    description: "Only export this group's records; omit for every group",
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  groupNumber?: string | null;
+
+  @ApiProperty({
+    description: "Depends on the type; Google Sheets takes none",
+    example: { format: "parquet", target: "s3://reports/meetings" },
+  })
+  @IsObject()
+  settings: Record<string, unknown>;
+
+  @ApiPropertyOptional({
+    nullable: true,
+    description:
+      "Minutes between runs, e.g. 1440 for nightly; omit to export records as they arrive",
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(10080)
+  intervalMinutes?: number | null;
+
+  @ApiPropertyOptional({ default: true })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
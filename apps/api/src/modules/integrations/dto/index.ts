@@ -0,0 +1,5 @@
+export * from "./update-sheets-layout.dto";
+export * from "./list-integration-logs-query.dto";
+export * from "./list-dead-letters-query.dto";
+export * from "./create-export-sink.dto";
+export * from "./update-export-sink.dto";
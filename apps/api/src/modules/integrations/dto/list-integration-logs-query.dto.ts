@@ -0,0 +1,42 @@
+// apps/api/src/modules/integrations/dto/list-integration-logs-query.dto.ts
+import { ApiPropertyOptional } from "@nestjs/swagger";
+import { Type } from "class-transformer";
+import { IsEnum, IsInt, IsOptional, IsString, Max, Min } from "class-validator";
+import { IntegrationService, IntegrationStatus } from "@packages/shared/types";
+
+export class ListIntegrationLogsQueryDto {
+  @ApiPropertyOptional({ default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiPropertyOptional({ default: 20 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+
+  @ApiPropertyOptional({ enum: IntegrationService })
+  @IsOptional()
+  @IsEnum(IntegrationService)
+  service?: IntegrationService;
+
+  @ApiPropertyOptional({ example: "append_rows" })
+  @IsOptional()
+  @IsString()
+  action?: string;
+
+  @ApiPropertyOptional({ enum: IntegrationStatus })
+  @IsOptional()
+  @IsEnum(IntegrationStatus)
+  status?: IntegrationStatus;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  meetingRecordId?: string;
+}
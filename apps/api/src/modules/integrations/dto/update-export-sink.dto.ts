@@ -0,0 +1,44 @@
+// apps/api/src/modules/integrations/dto/update-export-sink.dto.ts
+import { ApiPropertyOptional } from "@nestjs/swagger";
+import {
+  IsBoolean,
+  IsInt,
+  IsObject,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from "class-validator";
+
+// A sink keeps its name and type; create another to change them
+export class UpdateExportSinkDto {
+  @ApiPropertyOptional({
+    nullable: true,
+    description: "Null exports every group",
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  groupNumber?: string | null;
+
+  @ApiPropertyOptional({ description: "Replaces the current settings" })
+  @IsOptional()
+  @IsObject()
+  settings?: Record<string, unknown>;
+
+  @ApiPropertyOptional({
+    nullable: true,
+    description: "Null exports records as they arrive",
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(10080)
+  intervalMinutes?: number | null;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
@@ -0,0 +1,28 @@
+// apps/api/src/modules/integrations/dto/update-sheets-layout.dto.ts
+import { ApiProperty } from "@nestjs/swagger";
+import { IsObject, ValidateIf } from "class-validator";
+import { GoogleSheetsConfig } from "@packages/shared/types";
+
+export class UpdateSheetsLayoutDto {
+  @ApiProperty({
+    nullable: true,
+    description:
+      "Tab name template and columns; null restores the default layout",
+    example: {
+      worksheet: "Group {groupNumber}",
+      columns: [
+        { field: "date", header: "Date" },
+        { field: "speakerName", header: "Speaker" },
+        { field: "personMet", header: "Person Met" },
+        { field: "location", header: "Location" },
+        { field: "status", header: "Status" },
+        { field: "validationScore", header: "Score" },
+        { field: "recordLink", header: "Link" },
+        { field: "recordId", header: "Record ID" },
+      ],
+    },
+  })
+  @ValidateIf((_, value) => value !== null)
+  @IsObject()
+  layout: GoogleSheetsConfig | null;
+}
@@ -0,0 +1,297 @@
+// apps/api/src/modules/integrations/google-sheets.service.ts
+import { Injectable } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { Common, google, sheets_v4 } from "googleapis";
+import {
+  ErrorCodes,
+  IntegrationService,
+  IntegrationStatus,
+} from "@packages/shared/types";
+import { IntegrationLogService } from "./integration-log.service";
+
+const SHEETS_SCOPE = "https://www.googleapis.com/auth/spreadsheets";
+
+export class GoogleSheetsError extends Error {
+  constructor(
+    message: string,
+    public readonly code: ErrorCodes = ErrorCodes.GOOGLE_SHEETS_ERROR,
+    public readonly retryable = true
+  ) {
+    super(message);
+    this.name = "GoogleSheetsError";
+  }
+}
+
+export interface SheetRow {
+  rowNumber: number; // 1-based, as shown in the sheet
+  values: string[];
+}
+
+// Cells to write; null leaves a cell unchanged
+export type SheetValues = Array<string | null>;
+
+/**
+ * Thin wrapper around the googleapis Sheets v4 client. Authenticates as the
+ * configured service account; without one, requests are sent
+ * unauthenticated, which only the fake server (scripts/fake-sheets-server.js)
+ * accepts. Every call is recorded in the integration log.
+ */
+@Injectable()
+export class GoogleSheetsService {
+  private client: sheets_v4.Sheets | null = null;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly integrationLog: IntegrationLogService
+  ) {}
+
+  isConfigured(): boolean {
+    return !!this.configService.get<string>("googleSheets.spreadsheetId");
+  }
+
+  /** Titles of the spreadsheet's tabs, in order */
+  async listWorksheets(): Promise<string[]> {
+    const result = await this.request(
+      "list_worksheets",
+      { fields: "sheets.properties.title" },
+      (sheets, spreadsheetId) =>
+        sheets.spreadsheets.get({
+          spreadsheetId,
+          fields: "sheets.properties.title",
+        })
+    );
+
+    return (result.sheets ?? []).map((sheet) => sheet.properties?.title ?? "");
+  }
+
+  async addWorksheets(worksheets: string[]): Promise<void> {
+    if (!worksheets.length) return;
+
+    const requestBody = {
+      requests: worksheets.map((title) => ({
+        addSheet: { properties: { title } },
+      })),
+    };
+    await this.request("add_worksheets", requestBody, (sheets, spreadsheetId) =>
+      sheets.spreadsheets.batchUpdate({ spreadsheetId, requestBody })
+    );
+  }
+
+  /** Every row of each worksheet, including the header row */
+  async readWorksheets(worksheets: string[]): Promise<Map<string, SheetRow[]>> {
+    if (!worksheets.length) return new Map();
+
+    const ranges = worksheets.map((worksheet) => this.range(worksheet, "A:ZZ"));
+    const result = await this.request(
+      "read_worksheets",
+      { ranges },
+      (sheets, spreadsheetId) =>
+        sheets.spreadsheets.values.batchGet({ spreadsheetId, ranges })
+    );
+
+    return new Map(
+      worksheets.map((worksheet, index): [string, SheetRow[]] => [
+        worksheet,
+        (result.valueRanges?.[index]?.values ?? []).map((values, row) => ({
+          rowNumber: row + 1,
+          values: values.map((value) => String(value ?? "")),
+        })),
+      ])
+    );
+  }
+
+  /** Appends rows after the last one and returns their row numbers */
+  async appendRows(worksheet: string, rows: SheetValues[]): Promise<number[]> {
+    if (!rows.length) return [];
+
+    const range = this.range(worksheet, "A1");
+    const result = await this.request(
+      "append_rows",
+      { range, values: rows },
+      (sheets, spreadsheetId) =>
+        sheets.spreadsheets.values.append({
+          spreadsheetId,
+          range,
+          valueInputOption: "RAW",
+          insertDataOption: "INSERT_ROWS",
+          requestBody: { values: rows },
+        })
+    );
+
+    // e.g. "Meetings!A12:J14"
+    const first = Number(
+      /![A-Z]+(\d+)/.exec(result.updates?.updatedRange ?? "")?.[1]
+    );
+    if (!first) {
+      throw new GoogleSheetsError(
+        `Could not read the appended range from ${JSON.stringify(result)}`,
+        ErrorCodes.GOOGLE_SHEETS_ERROR,
+        false
+      );
+    }
+    return rows.map((_, index) => first + index);
+  }
+
+  /** Overwrites rows in one request; null cells are left as they are */
+  async updateRows(
+    worksheet: string,
+    rows: Array<{ rowNumber: number; values: SheetValues }>
+  ): Promise<void> {
+    if (!rows.length) return;
+
+    const requestBody = {
+      valueInputOption: "RAW",
+      data: rows.map((row) => ({
+        range: this.range(worksheet, `A${row.rowNumber}`),
+        values: [row.values],
+      })),
+    };
+    await this.request("update_rows", requestBody, (sheets, spreadsheetId) =>
+      sheets.spreadsheets.values.batchUpdate({ spreadsheetId, requestBody })
+    );
+  }
+
+  /** Writes a block of rows starting at column A of the given row */
+  async writeRows(
+    worksheet: string,
+    startRow: number,
+    rows: SheetValues[]
+  ): Promise<void> {
+    if (!rows.length) return;
+
+    const range = this.range(worksheet, `A${startRow}`);
+    await this.request(
+      "write_rows",
+      { range, values: rows },
+      (sheets, spreadsheetId) =>
+        sheets.spreadsheets.values.update({
+          spreadsheetId,
+          range,
+          valueInputOption: "RAW",
+          requestBody: { values: rows },
+        })
+    );
+  }
+
+  /** Empties every cell of the worksheet, keeping the tab */
+  async clearWorksheet(worksheet: string): Promise<void> {
+    const range = this.range(worksheet, "A:ZZ");
+    await this.request("clear_worksheet", { range }, (sheets, spreadsheetId) =>
+      sheets.spreadsheets.values.clear({ spreadsheetId, range })
+    );
+  }
+
+  // Sheet names are always quoted, so names with spaces or "!" work
+  private range(worksheet: string, cells: string): string {
+    return `'${worksheet.replace(/'/g, "''")}'!${cells}`;
+  }
+
+  private async request<T>(
+    action: string,
+    requestData: unknown,
+    call: (
+      sheets: sheets_v4.Sheets,
+      spreadsheetId: string
+    ) => Common.GaxiosPromise<T>
+  ): Promise<T> {
+    const spreadsheetId = this.configService.get<string>(
+      "googleSheets.spreadsheetId"
+    );
+    if (!spreadsheetId) {
+      throw new GoogleSheetsError(
+        "Google Sheets is not configured (GOOGLE_SHEETS_SPREADSHEET_ID)",
+        ErrorCodes.GOOGLE_SHEETS_ERROR,
+        false
+      );
+    }
+
+    return this.logged(action, requestData, async () => {
+      try {
+        const response = await call(this.getClient(), spreadsheetId);
+        return response.data;
+      } catch (error) {
+        throw toSheetsError(error);
+      }
+    });
+  }
+
+  /**
+   * The client caches the service account's access token and refreshes it
+   * before it expires
+   */
+  private getClient(): sheets_v4.Sheets {
+    if (this.client) return this.client;
+
+    const email = this.configService.get<string>(
+      "googleSheets.serviceAccountEmail"
+    );
+    const key = this.configService.get<string>("googleSheets.privateKey");
+
+    this.client = google.sheets({
+      version: "v4",
+      auth:
+        email && key
+          ? new google.auth.JWT({ email, key, scopes: [SHEETS_SCOPE] })
+          : undefined,
+      rootUrl: `${this.configService
+        .get<string>("googleSheets.apiUrl", "https://sheets.googleapis.com")
+        .replace(/\/+$/, "")}/`,
+      timeout: this.configService.get<number>("googleSheets.timeoutMs", 30000),
+    });
+    return this.client;
+  }
+
+  /** Runs an external call and records it, successful or not */
+  private async logged<T>(
+    action: string,
+    requestData: unknown,
+    run: () => Promise<T>,
+    summarize: (result: T) => unknown = (result) => result
+  ): Promise<T> {
+    const startedAt = Date.now();
+
+    try {
+      const result = await run();
+      await this.integrationLog.record({
+        service: IntegrationService.GOOGLE_SHEETS,
+        action,
+        status: IntegrationStatus.SUCCESS,
+        requestData,
+        responseData: summarize(result),
+        durationMs: Date.now() - startedAt,
+      });
+      return result;
+    } catch (error) {
+      await this.integrationLog.record({
+        service: IntegrationService.GOOGLE_SHEETS,
+        action,
+        status: IntegrationStatus.FAILED,
+        requestData,
+        errorMessage: error instanceof Error ? error.message : String(error),
+        durationMs: Date.now() - startedAt,
+      });
+      throw error;
+    }
+  }
+}
+
+/**
+ * Responses with a status keep it, so rate limits and server errors are
+ * retried; failures without one (network, timeout) always are
+ */
+function toSheetsError(error: unknown): GoogleSheetsError {
+  if (error instanceof GoogleSheetsError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  const status =
+    error instanceof Common.GaxiosError ? error.response?.status : undefined;
+  if (!status) {
+    return new GoogleSheetsError(`Google Sheets request failed: ${message}`);
+  }
+
+  return new GoogleSheetsError(
+    `Google Sheets responded with ${status}: ${message.slice(0, 500)}`,
+    ErrorCodes.GOOGLE_SHEETS_ERROR,
+    status === 429 || status >= 500
+  );
+}
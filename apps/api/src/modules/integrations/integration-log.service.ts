@@ -0,0 +1,139 @@
+// apps/api/src/modules/integrations/integration-log.service.ts
+import { Injectable, Logger } from "@nestjs/common";
+import { IntegrationLog as IntegrationLogRow, Prisma } from "@prisma/client";
+import { PrismaService } from "@/modules/database/prisma.service";
+import { ListIntegrationLogsQueryDto } from "./dto";
+import {
+  IntegrationLog,
+  IntegrationService,
+  IntegrationStatus,
+  PaginatedResponse,
+} from "@packages/shared/types";
+
+// Larger payloads (e.g. whole tabs read back) are stored as a preview
+const MAX_LOGGED_JSON = 10000;
+
+export interface IntegrationLogEntry {
+  service: IntegrationService;
+  action: string;
+  status: IntegrationStatus;
+  meetingRecordId?: string;
+  requestData?: unknown;
+  responseData?: unknown;
+  errorMessage?: string;
+  durationMs?: number;
+}
+
+/** Audit trail of external calls, kept in the IntegrationLog table */
+@Injectable()
+export class IntegrationLogService {
+  private readonly logger = new Logger(IntegrationLogService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /** Never throws: a failed audit write must not fail the call it records */
+  async record(entry: IntegrationLogEntry): Promise<void> {
+    await this.recordMany([entry]);
+  }
+
+  async recordMany(entries: IntegrationLogEntry[]): Promise<void> {
+    if (!entries.length) return;
+
+    try {
+      await this.prisma.integrationLog.createMany({
+        data: entries.map((entry) => ({
+          service: entry.service,
+          action: entry.action,
+          status: entry.status,
+          meetingRecordId: entry.meetingRecordId,
+          requestData: this.toJson(entry.requestData),
+          responseData: this.toJson(entry.responseData),
+          errorMessage: entry.errorMessage,
+          durationMs: entry.durationMs,
+        })),
+      });
+    } catch (error) {
+      this.logger.warn(
+        `Could not write ${entries.length} integration log(s) for ${
+          entries[0].service
+        } ${entries[0].action}: ${
+          error instanceof Error ? error.message : error
+        }`
+      );
+    }
+  }
+
+  async getLogs(
+    query: ListIntegrationLogsQueryDto
+  ): Promise<PaginatedResponse<IntegrationLog>> {
+    const {
+      page = 1,
+      limit = 20,
+      service,
+      action,
+      status,
+      meetingRecordId,
+    } = query;
+    const where = {
+      ...(service && { service }),
+      ...(action && { action }),
+      ...(status && { status }),
+      ...(meetingRecordId && { meetingRecordId }),
+    };
+
+    const [data, total] = await Promise.all([
+      this.prisma.integrationLog.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { createdAt: "desc" },
+      }),
+      this.prisma.integrationLog.count({ where }),
+    ]);
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      success: true,
+      data: data.map((log) => this.formatLog(log)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  private toJson(value: unknown): Prisma.InputJsonValue | undefined {
+    if (value === undefined || value === null) return undefined;
+
+    const json = JSON.stringify(value);
+    if (json === undefined) return undefined;
+    if (json.length <= MAX_LOGGED_JSON) {
+      return JSON.parse(json) as Prisma.InputJsonValue;
+    }
+    return {
+      truncated: true,
+      length: json.length,
+      preview: json.slice(0, MAX_LOGGED_JSON),
+    };
+  }
+
+  private formatLog(log: IntegrationLogRow): IntegrationLog {
+    return {
+      id: log.id,
+      meetingRecordId: log.meetingRecordId ?? undefined,
+      service: log.service as IntegrationService,
+      action: log.action,
+      status: log.status as IntegrationStatus,
+      requestData: log.requestData ?? undefined,
+      responseData: log.responseData ?? undefined,
+      errorMessage: log.errorMessage ?? undefined,
+      durationMs: log.durationMs ?? undefined,
+      createdAt: log.createdAt.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,216 @@
+// apps/api/src/modules/integrations/integrations.controller.ts
+import {
+  BadGatewayException,
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Put,
+  Query,
+  ServiceUnavailableException,
+} from "@nestjs/common";
+import { ApiOperation, ApiTags } from "@nestjs/swagger";
+import { SheetsReconciliationService } from "./sheets-reconciliation.service";
+import { SheetsLayoutService } from "./sheets-layout.service";
+import { ExportSinksService } from "./export-sinks.service";
+import { IntegrationLogService } from "./integration-log.service";
+import { GoogleSheetsError } from "./google-sheets.service";
+import {
+  CreateExportSinkDto,
+  ListDeadLettersQueryDto,
+  ListIntegrationLogsQueryDto,
+  UpdateExportSinkDto,
+  UpdateSheetsLayoutDto,
+} from "./dto";
+import { ApiResponseDto } from "@/common/dto/api-response.dto";
+import {
+  ExportDeadLetter,
+  ExportReplay,
+  ExportSink,
+  GoogleSheetsConfig,
+  IntegrationLog,
+  PaginatedResponse,
+  SheetsReconciliation,
+  SheetsRelayout,
+} from "@packages/shared/types";
+
+@ApiTags("integrations")
+@Controller("integrations")
+export class IntegrationsController {
+  constructor(
+    private readonly sheetsReconciliation: SheetsReconciliationService,
+    private readonly sheetsLayout: SheetsLayoutService,
+    private readonly exportSinks: ExportSinksService,
+    private readonly integrationLog: IntegrationLogService
+  ) {}
+
+  @Get("sheets/diff")
+  @ApiOperation({
+    summary: "Preview what a Google Sheets reconciliation would change",
+  })
+  async getSheetsDiff(): Promise<ApiResponseDto<SheetsReconciliation>> {
+    return this.wrap(() =>
+      this.sheetsReconciliation.reconcile({ dryRun: true })
+    );
+  }
+
+  @Post("sheets/reconcile")
+  @ApiOperation({ summary: "Reconcile meeting records with Google Sheets" })
+  async reconcileSheets(): Promise<ApiResponseDto<SheetsReconciliation>> {
+    return this.wrap(() =>
+      this.exportSinks.withSheetsLock(() =>
+        this.sheetsReconciliation.reconcile({ dryRun: false })
+      )
+    );
+  }
+
+  @Get("sheets/layout")
+  @ApiOperation({ summary: "Get the Google Sheets tabs and columns" })
+  async getSheetsLayout(): Promise<ApiResponseDto<GoogleSheetsConfig>> {
+    return this.wrap(() => this.sheetsLayout.getLayout());
+  }
+
+  @Put("sheets/layout")
+  @ApiOperation({
+    summary: "Set the Google Sheets tabs and columns used for new rows",
+  })
+  async setSheetsLayout(
+    @Body() dto: UpdateSheetsLayoutDto
+  ): Promise<ApiResponseDto<GoogleSheetsConfig>> {
+    return this.wrap(() => this.sheetsLayout.setLayout(dto.layout));
+  }
+
+  @Post("sheets/relayout")
+  @ApiOperation({
+    summary: "Rewrite every Google Sheets tab with the current layout",
+  })
+  async relayoutSheets(): Promise<ApiResponseDto<SheetsRelayout>> {
+    return this.wrap(() =>
+      this.exportSinks.withSheetsLock(() =>
+        this.sheetsReconciliation.relayout()
+      )
+    );
+  }
+
+  @Get("sinks")
+  @ApiOperation({ summary: "List export sinks with their cursor and status" })
+  async getSinks(): Promise<ApiResponseDto<ExportSink[]>> {
+    return this.wrap(() => this.exportSinks.getSinks());
+  }
+
+  @Post("sinks")
+  @ApiOperation({ summary: "Add an export sink" })
+  async createSink(
+    @Body() dto: CreateExportSinkDto
+  ): Promise<ApiResponseDto<ExportSink>> {
+    return this.wrap(() => this.exportSinks.createSink(dto));
+  }
+
+  @Get("sinks/:id")
+  @ApiOperation({ summary: "Get an export sink" })
+  async getSink(@Param("id") id: string): Promise<ApiResponseDto<ExportSink>> {
+    return this.wrap(() => this.exportSinks.getSink(id));
+  }
+
+  @Patch("sinks/:id")
+  @ApiOperation({ summary: "Change an export sink's settings or schedule" })
+  async updateSink(
+    @Param("id") id: string,
+    @Body() dto: UpdateExportSinkDto
+  ): Promise<ApiResponseDto<ExportSink>> {
+    return this.wrap(() => this.exportSinks.updateSink(id, dto));
+  }
+
+  @Delete("sinks/:id")
+  @ApiOperation({ summary: "Remove an export sink and its dead letters" })
+  async deleteSink(
+    @Param("id") id: string
+  ): Promise<ApiResponseDto<ExportSink>> {
+    return this.wrap(() => this.exportSinks.deleteSink(id));
+  }
+
+  @Post("sinks/:id/run")
+  @ApiOperation({ summary: "Export pending records to a sink now" })
+  async runSink(@Param("id") id: string): Promise<ApiResponseDto<ExportSink>> {
+    return this.wrap(() => this.exportSinks.runSink(id));
+  }
+
+  @Post("sinks/:id/reset")
+  @ApiOperation({ summary: "Export every record to a sink again" })
+  async resetSink(
+    @Param("id") id: string
+  ): Promise<ApiResponseDto<ExportSink>> {
+    return this.wrap(() => this.exportSinks.resetCursor(id));
+  }
+
+  @Get("sinks/:id/dead-letters")
+  @ApiOperation({ summary: "List records an export sink gave up on" })
+  async getDeadLetters(
+    @Param("id") id: string,
+    @Query() query: ListDeadLettersQueryDto
+  ): Promise<PaginatedResponse<ExportDeadLetter>> {
+    return this.withMeta(await this.exportSinks.getDeadLetters(id, query));
+  }
+
+  @Post("sinks/:id/dead-letters/replay")
+  @ApiOperation({ summary: "Export every dead letter of a sink again" })
+  async replayDeadLetters(
+    @Param("id") id: string
+  ): Promise<ApiResponseDto<ExportReplay>> {
+    return this.wrap(() => this.exportSinks.replay(id));
+  }
+
+  @Post("sinks/:id/dead-letters/:recordId/replay")
+  @ApiOperation({ summary: "Export one dead letter of a sink again" })
+  async replayDeadLetter(
+    @Param("id") id: string,
+    @Param("recordId") recordId: string
+  ): Promise<ApiResponseDto<ExportReplay>> {
+    return this.wrap(() => this.exportSinks.replay(id, recordId));
+  }
+
+  @Get("logs")
+  @ApiOperation({ summary: "List calls made to external services" })
+  async getLogs(
+    @Query() query: ListIntegrationLogsQueryDto
+  ): Promise<PaginatedResponse<IntegrationLog>> {
+    return this.withMeta(await this.integrationLog.getLogs(query));
+  }
+
+  private withMeta<T>(result: PaginatedResponse<T>): PaginatedResponse<T> {
+    return {
+      ...result,
+      meta: {
+        timestamp: new Date().toISOString(),
+        requestId: `req_${Date.now()}`,
+      },
+    };
+  }
+
+  private async wrap<T>(run: () => Promise<T>): Promise<ApiResponseDto<T>> {
+    try {
+      return {
+        success: true,
+        data: await run(),
+        meta: {
+          timestamp: new Date().toISOString(),
+          requestId: `req_${Date.now()}`,
+        },
+      };
+    } catch (error) {
+      throw toHttpException(error);
+    }
+  }
+}
+
+function toHttpException(error: unknown): unknown {
+  if (!(error instanceof GoogleSheetsError)) return error;
+
+  const body = { code: error.code, message: error.message };
+  return error.retryable
+    ? new ServiceUnavailableException(body)
+    : new BadGatewayException(body);
+}
@@ -0,0 +1,50 @@
+// apps/api/src/modules/integrations/integrations.module.ts
+import { Module } from "@nestjs/common";
+import { DatabaseModule } from "@/modules/database/database.module";
+import { DateUtilsService } from "@/common/services/date-utils.service";
+import { IntegrationsController } from "./integrations.controller";
+import { GoogleSheetsService } from "./google-sheets.service";
+import { SheetsLayoutService } from "./sheets-layout.service";
+import { SheetsReconciliationService } from "./sheets-reconciliation.service";
+import { ExportSinksService } from "./export-sinks.service";
+import { IntegrationLogService } from "./integration-log.service";
+import { MeetingRowsService } from "./meeting-rows.service";
+import {
+  EXPORT_SINK_DRIVERS,
+  ExportSinkDriver,
+} from "./sinks/export-sink.interface";
+import { GoogleSheetsSink } from "./sinks/google-sheets.sink";
+import { FileSink } from "./sinks/file.sink";
+import { PostgresSink } from "./sinks/postgres.sink";
+import { SqliteSink } from "./sinks/sqlite.sink";
+
+const DRIVERS = [GoogleSheetsSink, FileSink, PostgresSink, SqliteSink];
+
+@Module({
+  imports: [DatabaseModule],
+  controllers: [IntegrationsController],
+  providers: [
+    GoogleSheetsService,
+    SheetsLayoutService,
+    SheetsReconciliationService,
+    MeetingRowsService,
+    ExportSinksService,
+    IntegrationLogService,
+    DateUtilsService,
+    ...DRIVERS,
+    {
+      provide: EXPORT_SINK_DRIVERS,
+      useFactory: (...drivers: ExportSinkDriver[]) => drivers,
+      inject: DRIVERS,
+    },
+  ],
+  exports: [
+    GoogleSheetsService,
+    SheetsLayoutService,
+    SheetsReconciliationService,
+    ExportSinksService,
+    MeetingRowsService,
+    IntegrationLogService,
+  ],
+})
+export class IntegrationsModule {}
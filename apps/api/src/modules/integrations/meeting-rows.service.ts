@@ -0,0 +1,72 @@
+// apps/api/src/modules/integrations/meeting-rows.service.ts
+import { Injectable } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import {
+  MeetingEncounter,
+  MeetingRecord as MeetingRecordRow,
+} from "@prisma/client";
+import { DateUtilsService } from "@/common/services/date-utils.service";
+import { GoogleSheetsRow } from "@packages/shared/types";
+
+export type RecordWithEncounters = MeetingRecordRow & {
+  encounters: MeetingEncounter[];
+};
+
+export interface MeetingRow {
+  key: string; // Record id, with ":<position>" for later encounters
+  position: number;
+  row: GoogleSheetsRow;
+}
+
+/**
+ * Flattens meeting records into the rows every export writes: one per
+ * encounter, with the fields of GoogleSheetsRow.
+ */
+@Injectable()
+export class MeetingRowsService {
+  constructor(
+    private readonly dateUtils: DateUtilsService,
+    private readonly configService: ConfigService
+  ) {}
+
+  toRows(record: RecordWithEncounters): MeetingRow[] {
+    const encounters = record.encounters.length
+      ? [...record.encounters].sort((a, b) => a.position - b.position)
+      : [
+          {
+            position: 0,
+            personMet: record.personMet,
+            location: record.location,
+          },
+        ];
+    const linkBase = this.configService.get<string>(
+      "googleSheets.recordLinkBaseUrl",
+      "http://localhost:3000"
+    );
+
+    return encounters.map(({ position, personMet, location }) => {
+      const key = position ? `${record.id}:${position}` : record.id;
+      return {
+        key,
+        position,
+        row: {
+          date: record.recordingDate.toISOString().split("T")[0],
+          time: this.dateUtils.formatDisplayTime(record.recordingDateTime),
+          speakerName: record.speakerName,
+          groupNumber: record.groupNumber,
+          personMet,
+          location,
+          dayOfWeek: record.dayOfWeek,
+          transcription: record.fullTranscription,
+          duration: record.recordingDuration,
+          recordId: key,
+          status: record.status,
+          validationScore: record.validationScore?.toFixed(2) ?? "",
+          entryMode: record.entryMode,
+          language: record.language ?? "",
+          recordLink: `${linkBase}/meetings?record=${record.id}`,
+        },
+      };
+    });
+  }
+}
@@ -0,0 +1,257 @@
+// apps/api/src/modules/integrations/sheets-layout.service.ts
+import { BadRequestException, Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { PrismaService } from "@/modules/database/prisma.service";
+import {
+  ErrorCodes,
+  GoogleSheetsColumn,
+  GoogleSheetsConfig,
+  GoogleSheetsField,
+  GoogleSheetsRow,
+} from "@packages/shared/types";
+
+export const SHEETS_LAYOUT_KEY = "googleSheets.layout";
+// Columns of layouts replaced since the last relayout, whose headers may
+// still be in the sheet
+const RETIRED_COLUMNS_KEY = "googleSheets.layout.retiredColumns";
+
+// The layout used until one is saved; the record id column lets rows be
+// matched even after coordinators sort or insert rows
+export const DEFAULT_SHEETS_COLUMNS: GoogleSheetsColumn[] = [
+  { field: "date", header: "Date" },
+  { field: "time", header: "Time" },
+  { field: "speakerName", header: "Speaker" },
+  { field: "groupNumber", header: "Group" },
+  { field: "personMet", header: "Person Met" },
+  { field: "location", header: "Location" },
+  { field: "dayOfWeek", header: "Day" },
+  { field: "transcription", header: "Transcription" },
+  { field: "duration", header: "Duration" },
+  { field: "recordId", header: "Record ID" },
+];
+
+export const SHEETS_FIELDS: GoogleSheetsField[] = [
+  ...DEFAULT_SHEETS_COLUMNS.map((column) => column.field),
+  "status",
+  "validationScore",
+  "entryMode",
+  "language",
+  "recordLink",
+];
+
+const WORKSHEET_PLACEHOLDERS = ["groupNumber", "year", "month"];
+const MAX_COLUMNS = 52; // Up to column AZ
+const MAX_WORKSHEET_NAME = 100; // Sheets' limit on tab titles
+
+/**
+ * Which tab each row goes to and which columns it has. Stored as JSON in
+ * SystemConfig so coordinators can change it without a deploy.
+ */
+@Injectable()
+export class SheetsLayoutService {
+  private readonly logger = new Logger(SheetsLayoutService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService
+  ) {}
+
+  async getLayout(): Promise<GoogleSheetsConfig> {
+    const stored = await this.prisma.systemConfig.findUnique({
+      where: { key: SHEETS_LAYOUT_KEY },
+    });
+
+    if (stored?.isActive) {
+      try {
+        const layout = JSON.parse(stored.value) as GoogleSheetsConfig;
+        const problems = checkSheetsLayout(layout);
+        if (!problems.length) return layout;
+
+        this.logger.warn(
+          `Ignoring invalid Sheets layout: ${problems.join("; ")}`
+        );
+      } catch {
+        this.logger.warn("Ignoring Sheets layout that is not valid JSON");
+      }
+    }
+
+    return this.defaultLayout();
+  }
+
+  /** Saves a layout; null restores the default */
+  async setLayout(
+    layout: GoogleSheetsConfig | null
+  ): Promise<GoogleSheetsConfig> {
+    if (layout) this.assertValidLayout(layout);
+    await this.retireColumns((await this.getLayout()).columns);
+
+    if (!layout) {
+      await this.prisma.systemConfig.deleteMany({
+        where: { key: SHEETS_LAYOUT_KEY },
+      });
+      this.logger.log("Restored the default Sheets layout");
+      return this.defaultLayout();
+    }
+
+    const value = JSON.stringify({
+      worksheet: layout.worksheet.trim(),
+      columns: layout.columns.map(({ field, header }) => ({
+        field,
+        header: header.trim(),
+      })),
+    });
+    await this.saveValue(
+      SHEETS_LAYOUT_KEY,
+      value,
+      "Google Sheets tabs and columns"
+    );
+
+    this.logger.log(`Updated the Sheets layout: ${value}`);
+    return JSON.parse(value) as GoogleSheetsConfig;
+  }
+
+  /**
+   * Columns of earlier layouts, so tabs written with them can still be read
+   * until a relayout rewrites them
+   */
+  async getRetiredColumns(): Promise<GoogleSheetsColumn[]> {
+    const stored = await this.prisma.systemConfig.findUnique({
+      where: { key: RETIRED_COLUMNS_KEY },
+    });
+
+    try {
+      return stored ? (JSON.parse(stored.value) as GoogleSheetsColumn[]) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  /** Called once every tab has the current layout */
+  async clearRetiredColumns(): Promise<void> {
+    await this.prisma.systemConfig.deleteMany({
+      where: { key: RETIRED_COLUMNS_KEY },
+    });
+  }
+
+  /** The tab a row belongs in under the layout */
+  worksheetFor(layout: GoogleSheetsConfig, row: GoogleSheetsRow): string {
+    const [year, month] = row.date.split("-");
+    const values: Record<string, string> = {
+      groupNumber: row.groupNumber,
+      year,
+      month,
+    };
+
+    return layout.worksheet
+      .replace(/\{(\w+)\}/g, (_, name: string) => values[name] ?? "")
+      .trim()
+      .slice(0, MAX_WORKSHEET_NAME);
+  }
+
+  private async retireColumns(columns: GoogleSheetsColumn[]): Promise<void> {
+    const retired = [...(await this.getRetiredColumns()), ...columns];
+    const unique = retired.filter(
+      (column, index) =>
+        retired.findIndex(
+          (other) =>
+            other.field === column.field && other.header === column.header
+        ) === index
+    );
+
+    await this.saveValue(
+      RETIRED_COLUMNS_KEY,
+      JSON.stringify(unique),
+      "Sheets columns in use before the last layout change"
+    );
+  }
+
+  private async saveValue(
+    key: string,
+    value: string,
+    description: string
+  ): Promise<void> {
+    await this.prisma.systemConfig.upsert({
+      where: { key },
+      create: { key, value, description },
+      update: { value, isActive: true },
+    });
+  }
+
+  private assertValidLayout(layout: GoogleSheetsConfig): void {
+    const problems = checkSheetsLayout(layout);
+    if (problems.length) {
+      throw new BadRequestException({
+        code: ErrorCodes.INVALID_SHEETS_LAYOUT,
+        message: "The Sheets layout is not valid",
+        details: { problems },
+      });
+    }
+  }
+
+  private defaultLayout(): GoogleSheetsConfig {
+    return {
+      worksheet: this.configService.get<string>(
+        "googleSheets.worksheetName",
+        "Meetings"
+      ),
+      columns: DEFAULT_SHEETS_COLUMNS,
+    };
+  }
+}
+
+/** Problems that would stop a layout from being written or read back */
+export function checkSheetsLayout(layout: unknown): string[] {
+  const problems: string[] = [];
+  const { worksheet, columns } = (layout ?? {}) as Partial<GoogleSheetsConfig>;
+
+  if (typeof worksheet !== "string" || !worksheet.trim()) {
+    problems.push("worksheet must be a non-empty tab name");
+  } else {
+    for (const [, name] of worksheet.matchAll(/\{(\w*)\}/g)) {
+      if (!WORKSHEET_PLACEHOLDERS.includes(name)) {
+        problems.push(
+          `worksheet may only use {${WORKSHEET_PLACEHOLDERS.join("}, {")}}`
+        );
+        break;
+      }
+    }
+  }
+
+  if (
+    !Array.isArray(columns) ||
+    columns.length === 0 ||
+    columns.length > MAX_COLUMNS
+  ) {
+    return [...problems, `columns must be a list of 1 to ${MAX_COLUMNS}`];
+  }
+
+  const fields = new Set<string>();
+  const headers = new Set<string>();
+  columns.forEach((column: GoogleSheetsColumn, index) => {
+    const at = `columns[${index}]`;
+
+    if (!SHEETS_FIELDS.includes(column?.field)) {
+      problems.push(`${at}.field must be one of ${SHEETS_FIELDS.join(", ")}`);
+    } else if (fields.has(column.field)) {
+      problems.push(`${at}.field "${column.field}" is used twice`);
+    } else {
+      fields.add(column.field);
+    }
+
+    // Rows are read back by header, so headers must tell columns apart
+    const header =
+      typeof column?.header === "string" ? column.header.trim() : "";
+    if (!header || header.length > 100) {
+      problems.push(`${at}.header must be 1 to 100 characters`);
+    } else if (headers.has(header.toLowerCase())) {
+      problems.push(`${at}.header "${header}" is used twice`);
+    } else {
+      headers.add(header.toLowerCase());
+    }
+  });
+
+  if (!fields.has("recordId")) {
+    problems.push("columns must include recordId, which rows are matched by");
+  }
+  return problems;
+}
@@ -0,0 +1,304 @@
+// apps/api/src/modules/integrations/sheets-reconciliation.service.spec.ts
+import { ConfigService } from "@nestjs/config";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { Server } from "http";
+import { AddressInfo } from "net";
+import { tmpdir } from "os";
+import { join } from "path";
+import { DateUtilsService } from "@/common/services/date-utils.service";
+import { PrismaService } from "@/modules/database/prisma.service";
+import { GoogleSheetsRow } from "@packages/shared/types";
+import { GoogleSheetsService } from "./google-sheets.service";
+import { IntegrationLogService } from "./integration-log.service";
+import {
+  MeetingRowsService,
+  RecordWithEncounters,
+} from "./meeting-rows.service";
+import { SheetsReconciliationService } from "./sheets-reconciliation.service";
+import {
+  DEFAULT_SHEETS_COLUMNS,
+  SheetsLayoutService,
+} from "./sheets-layout.service";
+
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const fakeSheets = require("../../../scripts/fake-sheets-server");
+
+const SPREADSHEET_ID = "test";
+const HEADER = DEFAULT_SHEETS_COLUMNS.map((column) => column.header);
+
+type Worksheets = Record<string, string[][]>;
+
+describe("SheetsReconciliationService", () => {
+  let dir: string;
+  let file: string;
+  let server: Server;
+  let config: ConfigService;
+  let meetingRows: MeetingRowsService;
+
+  beforeAll(async () => {
+    dir = mkdtempSync(join(tmpdir(), "fake-sheets-"));
+    file = join(dir, "sheets.json");
+    server = fakeSheets.createFakeSheetsServer({ file });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+
+    config = new ConfigService({
+      googleSheets: {
+        spreadsheetId: SPREADSHEET_ID,
+        apiUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+        worksheetName: "Meetings",
+      },
+    });
+    meetingRows = new MeetingRowsService(
+      { formatDisplayTime: () => "10:30 AM" } as unknown as DateUtilsService,
+      config
+    );
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function meetingRecord(
+    overrides: Partial<RecordWithEncounters> = {}
+  ): RecordWithEncounters {
+    return {
+      id: "rec-1",
+      recordingDate: new Date("2024-01-15"),
+      recordingDateTime: new Date("2024-01-15T10:30:00Z"),
+      speakerName: "Anna",
+      groupNumber: "3",
+      personMet: "Sarah",
+      location: "the library",
+      language: "en",
+      fullTranscription: "My name is Anna and I belong to group 3",
+      recordingDuration: "01:30",
+      dayOfWeek: "Monday",
+      status: "SUBMITTED",
+      validationScore: 1,
+      entryMode: "VOICE",
+      googleSheetsRowId: null,
+      syncedToSheets: true,
+      sheetsLastSync: new Date("2024-01-15T11:00:00Z"),
+      sheetsSnapshot: null,
+      encounters: [],
+      ...overrides,
+    } as unknown as RecordWithEncounters;
+  }
+
+  /** The record's row as the last sync left it */
+  function synced(
+    record: RecordWithEncounters,
+    changes: Partial<GoogleSheetsRow> = {}
+  ): RecordWithEncounters {
+    const row = { ...meetingRows.toRows(record)[0].row, ...changes };
+    return { ...record, sheetsSnapshot: { [record.id]: row } };
+  }
+
+  function sheetRow(
+    record: RecordWithEncounters,
+    changes: Partial<GoogleSheetsRow> = {}
+  ): string[] {
+    const row = { ...meetingRows.toRows(record)[0].row, ...changes };
+    return DEFAULT_SHEETS_COLUMNS.map(({ field }) => row[field]);
+  }
+
+  function snapshotOf(record: RecordWithEncounters): GoogleSheetsRow {
+    const snapshot = record.sheetsSnapshot as unknown as Record<
+      string,
+      GoogleSheetsRow
+    >;
+    return snapshot[record.id];
+  }
+
+  function readSheet(): Worksheets {
+    return JSON.parse(readFileSync(file, "utf8"))[SPREADSHEET_ID];
+  }
+
+  function setup(records: RecordWithEncounters[], worksheets: Worksheets) {
+    writeFileSync(file, JSON.stringify({ [SPREADSHEET_ID]: worksheets }));
+
+    const prisma = {
+      meetingRecord: {
+        findMany: jest.fn(async () => records.map((record) => ({ ...record }))),
+        update: jest.fn(async ({ where, data }) => {
+          const record = records.find(({ id }) => id === where.id)!;
+          for (const [field, value] of Object.entries(data)) {
+            if (value !== undefined) Object.assign(record, { [field]: value });
+          }
+          return record;
+        }),
+      },
+      meetingEncounter: {
+        updateMany: jest.fn(async () => ({ count: 0 })),
+      },
+      systemConfig: {
+        findUnique: jest.fn(async () => null),
+        deleteMany: jest.fn(async () => ({ count: 0 })),
+      },
+      $transaction: jest.fn((operations: Promise<unknown>[]) =>
+        Promise.all(operations)
+      ),
+    };
+    const integrationLog = {
+      record: jest.fn(async () => undefined),
+    } as unknown as IntegrationLogService;
+
+    const service = new SheetsReconciliationService(
+      prisma as unknown as PrismaService,
+      new GoogleSheetsService(config, integrationLog),
+      new SheetsLayoutService(prisma as unknown as PrismaService, config),
+      meetingRows,
+      config
+    );
+    return { service, prisma };
+  }
+
+  it("updates the row with the record's id instead of appending", async () => {
+    const record = meetingRecord({ location: "the park" });
+    const { service } = setup([synced(record, { location: "the library" })], {
+      Meetings: [
+        HEADER,
+        sheetRow(meetingRecord({ id: "rec-0" })),
+        sheetRow(record, { location: "the library" }),
+      ],
+    });
+
+    const result = await service.reconcile();
+
+    expect(result.changes).toEqual([
+      expect.objectContaining({
+        type: "update-sheet",
+        worksheet: "Meetings",
+        rowNumber: 3,
+        fields: [
+          { field: "location", database: "the park", sheet: "the library" },
+        ],
+      }),
+    ]);
+    expect(result.summary.append).toBe(0);
+    expect(readSheet().Meetings).toEqual([
+      HEADER,
+      sheetRow(meetingRecord({ id: "rec-0" })),
+      sheetRow(record),
+    ]);
+  });
+
+  it("finds rows written before the id column by googleSheetsRowId", async () => {
+    const record = meetingRecord({
+      location: "the park",
+      googleSheetsRowId: "Meetings!2",
+    });
+    const { service, prisma } = setup(
+      [synced(record, { location: "the library" })],
+      {
+        Meetings: [
+          HEADER.slice(0, -1),
+          sheetRow(record, { location: "the library" }).slice(0, -1),
+        ],
+      }
+    );
+
+    const result = await service.reconcile();
+
+    expect(result.changes).toEqual([
+      expect.objectContaining({ type: "update-sheet", rowNumber: 2 }),
+    ]);
+    // The tab gains the id column, so the row is matched by id from now on
+    expect(readSheet().Meetings).toEqual([HEADER, sheetRow(record)]);
+    expect(prisma.meetingRecord.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ googleSheetsRowId: "Meetings!2" }),
+      })
+    );
+  });
+
+  it("writes a valid sheet edit to the database", async () => {
+    const record = synced(meetingRecord());
+    const { service, prisma } = setup([record], {
+      Meetings: [HEADER, sheetRow(record, { location: "the park" })],
+    });
+
+    const result = await service.reconcile();
+
+    expect(result.changes).toEqual([
+      expect.objectContaining({
+        type: "update-database",
+        fields: [
+          { field: "location", database: "the library", sheet: "the park" },
+        ],
+      }),
+    ]);
+    expect(record.location).toBe("the park");
+    expect(prisma.meetingEncounter.updateMany).toHaveBeenCalledWith({
+      where: { meetingRecordId: record.id, position: 0 },
+      data: { personMet: undefined, location: "the park" },
+    });
+    expect(snapshotOf(record).location).toBe("the park");
+  });
+
+  it("rejects a sheet edit the validator refuses", async () => {
+    const record = synced(meetingRecord());
+    const { service } = setup([record], {
+      Meetings: [HEADER, sheetRow(record, { groupNumber: "0" })],
+    });
+
+    const result = await service.reconcile();
+
+    expect(result.changes).toEqual([
+      expect.objectContaining({
+        type: "rejected",
+        fields: [{ field: "groupNumber", database: "3", sheet: "0" }],
+        errors: [expect.any(String)],
+      }),
+    ]);
+    expect(record.groupNumber).toBe("3");
+    // Kept, so the edit is reported again until someone fixes it
+    expect(snapshotOf(record).groupNumber).toBe("3");
+  });
+
+  it("reports a conflict when both sides changed since the last sync", async () => {
+    const record = synced(meetingRecord({ location: "the park" }), {
+      location: "the library",
+    });
+    const { service } = setup([record], {
+      Meetings: [HEADER, sheetRow(record, { location: "the cafe" })],
+    });
+
+    const result = await service.reconcile();
+
+    expect(result.changes).toEqual([
+      expect.objectContaining({
+        type: "conflict",
+        fields: [
+          { field: "location", database: "the park", sheet: "the cafe" },
+        ],
+      }),
+    ]);
+    expect(record.location).toBe("the park");
+    expect(readSheet().Meetings[1]).toEqual(
+      sheetRow(record, { location: "the cafe" })
+    );
+    expect(snapshotOf(record).location).toBe("the library");
+  });
+
+  it("reports the diff of a dry run without writing anything", async () => {
+    const changed = meetingRecord({ location: "the park" });
+    const added = meetingRecord({ id: "rec-2", syncedToSheets: false });
+    const { service, prisma } = setup(
+      [synced(changed, { location: "the library" }), added],
+      { Meetings: [HEADER, sheetRow(changed, { location: "the library" })] }
+    );
+    const before = readFileSync(file, "utf8");
+
+    const result = await service.reconcile({ dryRun: true });
+
+    expect(result.dryRun).toBe(true);
+    expect(result.summary).toEqual(
+      expect.objectContaining({ append: 1, "update-sheet": 1 })
+    );
+    expect(readFileSync(file, "utf8")).toBe(before);
+    expect(prisma.meetingRecord.update).not.toHaveBeenCalled();
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,591 @@
+// apps/api/src/modules/integrations/sheets-reconciliation.service.ts
+import { Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { Prisma } from "@prisma/client";
+import { PrismaService } from "@/modules/database/prisma.service";
+import { validateExtractedData } from "@packages/shared/validation";
+import {
+  GoogleSheetsColumn,
+  GoogleSheetsConfig,
+  GoogleSheetsField,
+  GoogleSheetsRow,
+  Locale,
+  SheetsChange,
+  SheetsChangeType,
+  SheetsFieldChange,
+  SheetsReconciliation,
+  SheetsRelayout,
+} from "@packages/shared/types";
+import {
+  GoogleSheetsService,
+  SheetRow,
+  SheetValues,
+} from "./google-sheets.service";
+import {
+  DEFAULT_SHEETS_COLUMNS,
+  SHEETS_FIELDS,
+  SheetsLayoutService,
+} from "./sheets-layout.service";
+import {
+  MeetingRowsService,
+  RecordWithEncounters,
+} from "./meeting-rows.service";
+
+// Rows as last written to or read from the sheet, keyed by row key
+type SheetsSnapshot = Record<string, GoogleSheetsRow>;
+
+// Field of each column of a tab; null for headers the layout doesn't know
+type SheetColumns = Array<GoogleSheetsField | null>;
+
+// Fields coordinators may correct in the sheet; edits to the others are
+// overwritten with the database values on the next change
+const EDITABLE_FIELDS: GoogleSheetsField[] = [
+  "speakerName",
+  "groupNumber",
+  "personMet",
+  "location",
+];
+
+export interface ReconcileOptions {
+  dryRun?: boolean;
+  meetingRecordIds?: string[]; // Limit to these records; default all
+}
+
+/**
+ * A tab as found in the spreadsheet. Columns are identified by the header
+ * row, so tabs written with an older layout keep syncing until re-laid out.
+ */
+interface Worksheet {
+  name: string;
+  header: string[];
+  columns: SheetColumns;
+  rows: SheetRow[]; // Below the header
+  headerChanged: boolean;
+}
+
+interface PlannedRow {
+  record: RecordWithEncounters;
+  position: number;
+  key: string;
+  row: GoogleSheetsRow; // From the database
+  worksheet: string; // Where the row is, or is appended to
+  sheetRow?: SheetRow;
+  change?: SheetsChange;
+}
+
+/**
+ * Two-way sync between meeting records and the sheet. Rows are matched by
+ * the record id column in any tab, falling back to googleSheetsRowId for
+ * rows written before the column existed. Each side is compared with the
+ * snapshot saved at the last sync to tell who changed what: database
+ * changes are written to the sheet, valid sheet edits are written to the
+ * database and changes on both sides are reported as conflicts and left
+ * alone. New rows go to the tab the layout picks, which is created if
+ * needed; existing rows stay where they are until relayout() moves them.
+ */
+@Injectable()
+export class SheetsReconciliationService {
+  private readonly logger = new Logger(SheetsReconciliationService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly sheets: GoogleSheetsService,
+    private readonly layoutService: SheetsLayoutService,
+    private readonly meetingRows: MeetingRowsService,
+    private readonly configService: ConfigService
+  ) {}
+
+  async reconcile(
+    options: ReconcileOptions = {}
+  ): Promise<SheetsReconciliation> {
+    const dryRun = options.dryRun ?? false;
+    const layout = await this.layoutService.getLayout();
+    const worksheets = await this.readWorksheets(layout);
+
+    const records = await this.prisma.meetingRecord.findMany({
+      where: options.meetingRecordIds
+        ? { id: { in: options.meetingRecordIds } }
+        : {},
+      include: { encounters: true },
+      orderBy: { recordingDateTime: "asc" },
+    });
+
+    const planned = this.plan(layout, worksheets, records);
+    const changes = planned.flatMap((row) => (row.change ? [row.change] : []));
+
+    if (!dryRun) {
+      await this.apply(layout, worksheets, planned);
+    }
+
+    const summary = Object.fromEntries(
+      (
+        [
+          "append",
+          "update-sheet",
+          "update-database",
+          "conflict",
+          "rejected",
+        ] as SheetsChangeType[]
+      ).map((type) => [
+        type,
+        changes.filter((change) => change.type === type).length,
+      ])
+    ) as Record<SheetsChangeType, number>;
+
+    if (!dryRun) {
+      this.logger.log(`Sheets reconciliation: ${JSON.stringify(summary)}`);
+    }
+    return { dryRun, changes, summary };
+  }
+
+  /**
+   * Rewrites every tab from the database with the current layout, moving
+   * rows to the tab they now belong in. Runs a reconciliation first so sheet
+   * edits are kept; rows it reports as conflicts or rejected are replaced
+   * with the database values. Tabs that no longer get rows keep the header.
+   */
+  async relayout(): Promise<SheetsRelayout> {
+    const reconciliation = await this.reconcile();
+
+    const layout = await this.layoutService.getLayout();
+    const existing = await this.readWorksheets(layout);
+    const records = await this.prisma.meetingRecord.findMany({
+      include: { encounters: true },
+      orderBy: { recordingDateTime: "asc" },
+    });
+
+    const byWorksheet = new Map<string, PlannedRow[]>();
+    for (const record of records) {
+      for (const { key, position, row } of this.meetingRows.toRows(record)) {
+        const worksheet = this.layoutService.worksheetFor(layout, row);
+        byWorksheet.set(worksheet, [
+          ...(byWorksheet.get(worksheet) ?? []),
+          { record, position, key, row, worksheet },
+        ]);
+      }
+    }
+
+    // Only tabs this sync writes to are emptied; other tabs are left alone
+    const previous = [...existing.values()]
+      .filter((worksheet) => worksheet.columns.includes("recordId"))
+      .map((worksheet) => worksheet.name);
+    const names = [...new Set([...byWorksheet.keys(), ...previous])];
+
+    await this.sheets.addWorksheets(
+      names.filter((name) => !existing.has(name))
+    );
+
+    const header = layout.columns.map((column) => column.header);
+    const columns = layout.columns.map((column) => column.field);
+    const worksheets: SheetsRelayout["worksheets"] = [];
+
+    for (const name of names) {
+      const rows = byWorksheet.get(name) ?? [];
+      const values = rows.map((item) => this.toValues(columns, item.row));
+
+      if (existing.has(name)) await this.sheets.clearWorksheet(name);
+      await this.sheets.writeRows(name, 1, [header, ...values]);
+
+      rows.forEach((item, index) => {
+        item.sheetRow = {
+          rowNumber: index + 2,
+          values: values[index] as string[],
+        };
+      });
+      worksheets.push({ name, rows: rows.length });
+    }
+
+    await this.saveSyncState([...byWorksheet.values()].flat(), true);
+    await this.layoutService.clearRetiredColumns();
+
+    this.logger.log(
+      `Re-laid out ${worksheets.length} Google Sheets tabs: ${worksheets
+        .map((worksheet) => `${worksheet.name} (${worksheet.rows})`)
+        .join(", ")}`
+    );
+    return { reconciliation, worksheets };
+  }
+
+  private async readWorksheets(
+    layout: GoogleSheetsConfig
+  ): Promise<Map<string, Worksheet>> {
+    const names = await this.sheets.listWorksheets();
+    const contents = await this.sheets.readWorksheets(names);
+    const known = [
+      ...layout.columns,
+      ...(await this.layoutService.getRetiredColumns()),
+      ...DEFAULT_SHEETS_COLUMNS,
+    ];
+
+    return new Map(
+      names.map((name): [string, Worksheet] => {
+        const [header, ...rows] = contents.get(name) ?? [];
+        const values = header?.values ?? [];
+        return [
+          name,
+          {
+            name,
+            header: values,
+            columns: values.map((value) => this.fieldForHeader(known, value)),
+            rows,
+            headerChanged: false,
+          },
+        ];
+      })
+    );
+  }
+
+  // Headers of the current, an earlier or the default layout, or the field
+  // name itself
+  private fieldForHeader(
+    known: GoogleSheetsColumn[],
+    header: string
+  ): GoogleSheetsField | null {
+    const name = header.trim().toLowerCase();
+    if (!name) return null;
+
+    const column = known.find(
+      (candidate) => candidate.header.toLowerCase() === name
+    );
+    return (
+      column?.field ??
+      SHEETS_FIELDS.find((field) => field.toLowerCase() === name) ??
+      null
+    );
+  }
+
+  private plan(
+    layout: GoogleSheetsConfig,
+    worksheets: Map<string, Worksheet>,
+    records: RecordWithEncounters[]
+  ): PlannedRow[] {
+    const byKey = new Map<string, { worksheet: string; row: SheetRow }>();
+    for (const worksheet of worksheets.values()) {
+      const idColumn = worksheet.columns.indexOf("recordId");
+      if (idColumn === -1) continue;
+      for (const row of worksheet.rows) {
+        const key = row.values[idColumn]?.trim();
+        if (key) byKey.set(key, { worksheet: worksheet.name, row });
+      }
+    }
+
+    return records.flatMap((record) => {
+      const snapshot = (record.sheetsSnapshot ??
+        {}) as unknown as SheetsSnapshot;
+
+      return this.meetingRows.toRows(record).map(({ key, position, row }) => {
+        const found =
+          byKey.get(key) ??
+          (position === 0
+            ? this.findByRowId(worksheets, record.googleSheetsRowId)
+            : undefined);
+
+        const planned: PlannedRow = {
+          record,
+          position,
+          key,
+          row,
+          worksheet:
+            found?.worksheet ?? this.layoutService.worksheetFor(layout, row),
+          sheetRow: found?.row,
+        };
+        planned.change = this.compare(
+          planned,
+          found
+            ? worksheets.get(found.worksheet)!.columns
+            : layout.columns.map((column) => column.field),
+          snapshot[key]
+        );
+        return planned;
+      });
+    });
+  }
+
+  /**
+   * Rows appended before the id column existed are found by the stored
+   * position: "Tab!12", or just "12" in the default tab. Only rows without
+   * an id of their own qualify.
+   */
+  private findByRowId(
+    worksheets: Map<string, Worksheet>,
+    rowId: string | null
+  ): { worksheet: string; row: SheetRow } | undefined {
+    const match = /^(?:(.+)!)?(\d+)$/.exec(rowId ?? "");
+    if (!match) return undefined;
+
+    const worksheet = worksheets.get(
+      match[1] ??
+        this.configService.get<string>("googleSheets.worksheetName", "Meetings")
+    );
+    if (!worksheet) return undefined;
+
+    const idColumn = worksheet.columns.indexOf("recordId");
+    const row = worksheet.rows.find(
+      (candidate) => candidate.rowNumber === Number(match[2])
+    );
+    return row && !row.values[idColumn]?.trim()
+      ? { worksheet: worksheet.name, row }
+      : undefined;
+  }
+
+  private compare(
+    planned: PlannedRow,
+    columns: SheetColumns,
+    snapshot: GoogleSheetsRow | undefined
+  ): SheetsChange | undefined {
+    const { record, key, row, worksheet, sheetRow } = planned;
+    const base = {
+      meetingRecordId: record.id,
+      rowKey: key,
+      worksheet,
+      rowNumber: sheetRow?.rowNumber,
+    };
+
+    // Rows in tabs without an id column are given one
+    const fields = [
+      ...new Set([
+        ...columns.filter((field): field is GoogleSheetsField => !!field),
+        "recordId" as const,
+      ]),
+    ];
+
+    if (!sheetRow) {
+      return {
+        ...base,
+        type: "append",
+        fields: fields.map((field) => ({ field, database: row[field] })),
+      };
+    }
+
+    const sheet = this.fromValues(columns, sheetRow.values);
+    const differences = this.diff(row, sheet, fields);
+    if (!differences.length) return undefined;
+
+    // Without a snapshot (rows synced before snapshots) the database wins
+    const databaseChanged =
+      !snapshot || this.diff(row, snapshot, fields).length > 0;
+    const editable = EDITABLE_FIELDS.filter((field) => fields.includes(field));
+    const sheetEdits = snapshot
+      ? this.diff(snapshot, sheet, editable).map((change) => change.field)
+      : [];
+
+    if (!sheetEdits.length) {
+      return { ...base, type: "update-sheet", fields: differences };
+    }
+
+    if (databaseChanged) {
+      // Both sides agree already, e.g. the same correction made twice
+      const disputed = differences.filter(({ field }) =>
+        sheetEdits.includes(field)
+      );
+      if (disputed.length) {
+        return { ...base, type: "conflict", fields: disputed };
+      }
+      return { ...base, type: "update-sheet", fields: differences };
+    }
+
+    const edited = differences.filter(({ field }) => editable.includes(field));
+    const errors = validateExtractedData(
+      {
+        speakerName: sheet.speakerName ?? row.speakerName,
+        groupNumber: sheet.groupNumber ?? row.groupNumber,
+        personMet: sheet.personMet ?? row.personMet,
+        location: sheet.location ?? row.location,
+      },
+      record.language as Locale
+    );
+    if (errors.length) {
+      return { ...base, type: "rejected", fields: edited, errors };
+    }
+
+    return { ...base, type: "update-database", fields: edited };
+  }
+
+  private async apply(
+    layout: GoogleSheetsConfig,
+    worksheets: Map<string, Worksheet>,
+    planned: PlannedRow[]
+  ): Promise<void> {
+    // Sheet edits first, so the rows written back carry the accepted values
+    for (const item of planned) {
+      if (item.change?.type === "update-database") {
+        await this.pullEdits(item);
+      }
+    }
+
+    const writes = planned.filter(
+      (item) =>
+        item.change?.type === "append" || item.change?.type === "update-sheet"
+    );
+    const targets = [...new Set(writes.map((item) => item.worksheet))];
+
+    const missing = targets.filter((name) => !worksheets.has(name));
+    await this.sheets.addWorksheets(missing);
+    for (const name of missing) {
+      worksheets.set(name, {
+        name,
+        header: [],
+        columns: [],
+        rows: [],
+        headerChanged: false,
+      });
+    }
+
+    for (const name of targets) {
+      const worksheet = worksheets.get(name)!;
+      this.ensureHeader(layout, worksheet);
+      const { columns } = worksheet;
+      const rows = writes.filter((item) => item.worksheet === name);
+
+      await this.sheets.updateRows(name, [
+        ...(worksheet.headerChanged
+          ? [{ rowNumber: 1, values: worksheet.header }]
+          : []),
+        ...rows
+          .filter((item) => item.change!.type === "update-sheet")
+          .map((item) => ({
+            rowNumber: item.sheetRow!.rowNumber,
+            values: this.toValues(columns, item.row),
+          })),
+      ]);
+
+      const appends = rows.filter((item) => item.change!.type === "append");
+      const rowNumbers = await this.sheets.appendRows(
+        name,
+        appends.map((item) => this.toValues(columns, item.row))
+      );
+      appends.forEach((item, index) => {
+        item.sheetRow = { rowNumber: rowNumbers[index], values: [] };
+      });
+    }
+
+    await this.saveSyncState(planned);
+  }
+
+  /**
+   * Gives an empty tab the layout's header, and adds a record id column to
+   * tabs from before it existed so their rows can be matched from now on
+   */
+  private ensureHeader(layout: GoogleSheetsConfig, worksheet: Worksheet): void {
+    if (!worksheet.header.some((value) => value.trim())) {
+      worksheet.header = layout.columns.map((column) => column.header);
+      worksheet.columns = layout.columns.map((column) => column.field);
+      worksheet.headerChanged = true;
+    } else if (!worksheet.columns.includes("recordId")) {
+      const column = layout.columns.find(({ field }) => field === "recordId")!;
+      worksheet.header = [...worksheet.header, column.header];
+      worksheet.columns = [...worksheet.columns, "recordId"];
+      worksheet.headerChanged = true;
+    }
+  }
+
+  /** Writes validated sheet edits to the record and its encounter */
+  private async pullEdits(item: PlannedRow): Promise<void> {
+    const { record, position } = item;
+    const edits = Object.fromEntries(
+      item.change!.fields.map(({ field, sheet }) => [field, sheet])
+    ) as Partial<GoogleSheetsRow>;
+
+    await this.prisma.$transaction([
+      this.prisma.meetingRecord.update({
+        where: { id: record.id },
+        data: {
+          speakerName: edits.speakerName,
+          groupNumber: edits.groupNumber,
+          // The record mirrors its first encounter
+          ...(position === 0
+            ? { personMet: edits.personMet, location: edits.location }
+            : {}),
+        },
+      }),
+      this.prisma.meetingEncounter.updateMany({
+        where: { meetingRecordId: record.id, position },
+        data: { personMet: edits.personMet, location: edits.location },
+      }),
+    ]);
+
+    item.row = { ...item.row, ...edits };
+    this.logger.log(
+      `Applied sheet edits to ${item.key}: ${Object.keys(edits).join(", ")}`
+    );
+  }
+
+  /**
+   * Saves what each row now holds on both sides. Conflicting and rejected
+   * rows keep their old snapshot, so they are reported again until fixed,
+   * unless `rewritten` says the sheet was just rewritten from the database.
+   */
+  private async saveSyncState(
+    planned: PlannedRow[],
+    rewritten = false
+  ): Promise<void> {
+    const byRecord = new Map<string, PlannedRow[]>();
+    for (const item of planned) {
+      byRecord.set(item.record.id, [
+        ...(byRecord.get(item.record.id) ?? []),
+        item,
+      ]);
+    }
+
+    for (const [id, rows] of byRecord) {
+      const record = rows[0].record;
+      if (
+        !rewritten &&
+        record.syncedToSheets &&
+        rows.every((item) => !item.change)
+      ) {
+        continue;
+      }
+
+      const snapshot = {
+        ...((record.sheetsSnapshot ?? {}) as unknown as SheetsSnapshot),
+      };
+      for (const item of rows) {
+        const type = item.change?.type;
+        if (rewritten || (type !== "conflict" && type !== "rejected")) {
+          snapshot[item.key] = { ...item.row };
+        }
+      }
+
+      const first = rows.find((item) => item.position === 0);
+      await this.prisma.meetingRecord.update({
+        where: { id },
+        data: {
+          syncedToSheets: true,
+          sheetsLastSync: new Date(),
+          googleSheetsRowId: first?.sheetRow
+            ? `${first.worksheet}!${first.sheetRow.rowNumber}`
+            : record.googleSheetsRowId,
+          sheetsSnapshot: snapshot as unknown as Prisma.InputJsonValue,
+        },
+      });
+    }
+  }
+
+  private diff(
+    from: Partial<GoogleSheetsRow>,
+    to: Partial<GoogleSheetsRow>,
+    fields: GoogleSheetsField[]
+  ): SheetsFieldChange[] {
+    return fields
+      .filter((field) => (from[field] ?? "") !== (to[field] ?? ""))
+      .map((field) => ({ field, database: from[field], sheet: to[field] }));
+  }
+
+  // Columns the layout doesn't know are left as they are
+  private toValues(columns: SheetColumns, row: GoogleSheetsRow): SheetValues {
+    return columns.map((field) => (field ? row[field] : null));
+  }
+
+  // Only the fields the tab has columns for
+  private fromValues(
+    columns: SheetColumns,
+    values: string[]
+  ): Partial<GoogleSheetsRow> {
+    return Object.fromEntries(
+      columns.flatMap((field, index) =>
+        field ? [[field, (values[index] ?? "").trim()]] : []
+      )
+    );
+  }
+}
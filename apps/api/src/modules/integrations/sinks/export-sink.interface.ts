@@ -0,0 +1,94 @@
+// apps/api/src/modules/integrations/sinks/export-sink.interface.ts
+import {
+  ErrorCodes,
+  ExportSinkType,
+  GoogleSheetsField,
+} from "@packages/shared/types";
+import { SHEETS_FIELDS } from "../sheets-layout.service";
+import { RecordWithEncounters } from "../meeting-rows.service";
+
+export const EXPORT_SINK_DRIVERS = Symbol("EXPORT_SINK_DRIVERS");
+
+/** The parts of a saved sink its driver needs */
+export interface ExportTarget {
+  id: string;
+  name: string;
+  settings: Record<string, unknown>;
+}
+
+/**
+ * Writes meeting records to one kind of destination. Drivers only talk to
+ * their destination; cursors, retries and dead letters are handled by
+ * ExportSinksService.
+ */
+export interface ExportSinkDriver {
+  readonly type: ExportSinkType;
+
+  /** Problems that would stop the settings from working; empty if usable */
+  checkSettings(settings: Record<string, unknown>): string[];
+
+  /**
+   * Writes the records. A batch that failed is sent again, so writing a
+   * record twice must not duplicate it.
+   */
+  write(sink: ExportTarget, records: RecordWithEncounters[]): Promise<void>;
+
+  /**
+   * For drivers that write a whole run at once, e.g. one file per run:
+   * batches are staged in the returned run and only kept once it is
+   * committed. Replays still go through write().
+   */
+  openRun?(sink: ExportTarget): Promise<ExportRun>;
+
+  /**
+   * Drops anything cached for the sink, e.g. once it is deleted. Drivers
+   * notice changed settings on their own, as another instance may have
+   * changed them.
+   */
+  release?(sinkId: string): Promise<void>;
+}
+
+export interface ExportRun {
+  /** Stages the records; nothing reaches the destination yet */
+  write(records: RecordWithEncounters[]): Promise<void>;
+
+  /** Writes what was staged; does nothing if nothing was */
+  commit(): Promise<void>;
+
+  /** Drops what is left of the run; called after commit too */
+  close(): Promise<void>;
+}
+
+export class ExportSinkError extends Error {
+  constructor(
+    message: string,
+    public readonly code: ErrorCodes = ErrorCodes.EXPORT_SINK_ERROR,
+    public readonly retryable = true
+  ) {
+    super(message);
+    this.name = "ExportSinkError";
+  }
+}
+
+/** Fields a file or database sink writes: its settings' list, or all */
+export function sinkFields(
+  settings: Record<string, unknown>
+): GoogleSheetsField[] {
+  return Array.isArray(settings.fields) && settings.fields.length
+    ? (settings.fields as GoogleSheetsField[])
+    : SHEETS_FIELDS;
+}
+
+export function checkSinkFields(fields: unknown): string[] {
+  if (fields === undefined) return [];
+  if (
+    !Array.isArray(fields) ||
+    !fields.length ||
+    fields.some((field) => !SHEETS_FIELDS.includes(field))
+  ) {
+    return [`fields must be a list of ${SHEETS_FIELDS.join(", ")}`];
+  }
+  return new Set(fields).size === fields.length
+    ? []
+    : ["fields must not repeat a field"];
+}
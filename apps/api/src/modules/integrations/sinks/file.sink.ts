@@ -0,0 +1,230 @@
+// apps/api/src/modules/integrations/sinks/file.sink.ts
+import { Injectable } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { appendFile, copyFile, mkdir, mkdtemp, rename, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join, resolve } from "path";
+import { ParquetSchema, ParquetWriter } from "@dsnp/parquetjs";
+import { toCsvLine } from "@/common/utils/csv.util";
+import {
+  S3StorageBackend,
+  S3StorageOptions,
+} from "@/modules/storage/backends/s3-storage.backend";
+import {
+  ErrorCodes,
+  ExportSinkType,
+  FileSinkSettings,
+  GoogleSheetsField,
+} from "@packages/shared/types";
+import {
+  MeetingRowsService,
+  RecordWithEncounters,
+} from "../meeting-rows.service";
+import {
+  ExportRun,
+  ExportSinkDriver,
+  ExportSinkError,
+  ExportTarget,
+  checkSinkFields,
+  sinkFields,
+} from "./export-sink.interface";
+
+const FORMATS = {
+  csv: { extension: "csv", contentType: "text/csv; charset=utf-8" },
+  parquet: {
+    extension: "parquet",
+    contentType: "application/vnd.apache.parquet",
+  },
+};
+
+/**
+ * Drops one CSV or Parquet file per run in a folder or S3 prefix, named
+ * after the time the run started. Batches are staged in a temp file, so a
+ * run of any size holds one batch in memory, and the file only appears
+ * once the run is committed. A replay writes a file per batch, named after
+ * its first record, so a retried replay replaces its earlier file.
+ */
+@Injectable()
+export class FileSink implements ExportSinkDriver {
+  readonly type = ExportSinkType.FILE;
+
+  constructor(
+    private readonly meetingRows: MeetingRowsService,
+    private readonly configService: ConfigService
+  ) {}
+
+  checkSettings(settings: Record<string, unknown>): string[] {
+    const { format, target, fields } = settings as Partial<FileSinkSettings>;
+    const problems = checkSinkFields(fields);
+
+    if (format !== "csv" && format !== "parquet") {
+      problems.push('format must be "csv" or "parquet"');
+    }
+    if (typeof target !== "string" || !target.trim()) {
+      problems.push("target must be a folder or s3://bucket/prefix");
+    } else if (target.startsWith("s3://") && !parseS3Target(target).bucket) {
+      problems.push("target must name a bucket, e.g. s3://bucket/prefix");
+    }
+    return problems;
+  }
+
+  async write(
+    sink: ExportTarget,
+    records: RecordWithEncounters[]
+  ): Promise<void> {
+    const first = records[0];
+    const file = await this.stageFile(
+      sink,
+      `${sink.name}-${toStamp(first.createdAt)}-${first.id}`
+    );
+
+    try {
+      await file.write(records);
+      await file.commit();
+    } finally {
+      await file.close();
+    }
+  }
+
+  openRun(sink: ExportTarget): Promise<ExportRun> {
+    return this.stageFile(sink, `${sink.name}-${toStamp(new Date())}`);
+  }
+
+  private async stageFile(
+    sink: ExportTarget,
+    name: string
+  ): Promise<ExportRun> {
+    const settings = sink.settings as unknown as FileSinkSettings;
+    const format = FORMATS[settings.format];
+    const fields = sinkFields(sink.settings);
+    const fileName = `${name}.${format.extension}`;
+    const dir = await mkdtemp(join(tmpdir(), "export-"));
+    const path = join(dir, fileName);
+    let parquet: ParquetWriter | null = null;
+    let staged = false;
+
+    return {
+      write: async (records) => {
+        const rows = records.flatMap((record) =>
+          this.meetingRows.toRows(record).map((item) => item.row)
+        );
+
+        if (settings.format === "parquet") {
+          try {
+            parquet ??= await ParquetWriter.openFile(
+              parquetSchema(fields),
+              path
+            );
+            for (const row of rows) {
+              await parquet.appendRow(
+                Object.fromEntries(fields.map((field) => [field, row[field]]))
+              );
+            }
+          } catch (error) {
+            throw parquetError(error);
+          }
+        } else {
+          await appendFile(
+            path,
+            (staged ? "" : toCsvLine(fields)) +
+              rows.map((row) => toCsvLine(fields.map((f) => row[f]))).join("")
+          );
+        }
+        staged = true;
+      },
+
+      commit: async () => {
+        if (!staged) return;
+        if (parquet) {
+          const writer = parquet;
+          parquet = null;
+          await writer.close().catch((error) => {
+            throw parquetError(error);
+          });
+        }
+
+        try {
+          if (settings.target.startsWith("s3://")) {
+            await this.putS3(
+              settings.target,
+              fileName,
+              path,
+              format.contentType
+            );
+          } else {
+            await this.putLocal(settings.target, fileName, path);
+          }
+        } catch (error) {
+          throw new ExportSinkError(
+            `Could not write ${fileName} to ${settings.target}: ${
+              error instanceof Error ? error.message : error
+            }`
+          );
+        }
+      },
+
+      close: async () => {
+        await parquet?.close().catch(() => undefined);
+        parquet = null;
+        await rm(dir, { recursive: true, force: true });
+      },
+    };
+  }
+
+  // Copied under a temporary name first so readers never see half a file
+  private async putLocal(
+    folder: string,
+    fileName: string,
+    path: string
+  ): Promise<void> {
+    const dir = resolve(folder);
+    await mkdir(dir, { recursive: true });
+    await copyFile(path, join(dir, `.${fileName}.partial`));
+    await rename(join(dir, `.${fileName}.partial`), join(dir, fileName));
+  }
+
+  private async putS3(
+    target: string,
+    fileName: string,
+    path: string,
+    contentType: string
+  ): Promise<void> {
+    const { bucket, prefix } = parseS3Target(target);
+    // Credentials and endpoint are shared with audio storage
+    const backend = new S3StorageBackend({
+      ...this.configService.get<S3StorageOptions>("storage.s3")!,
+      bucket,
+    });
+    await backend.putFile(`${prefix}${fileName}`, path, contentType);
+  }
+}
+
+function parquetSchema(fields: GoogleSheetsField[]): ParquetSchema {
+  return new ParquetSchema(
+    Object.fromEntries(
+      fields.map((field) => [field, { type: "UTF8", optional: true }])
+    )
+  );
+}
+
+function parquetError(error: unknown): ExportSinkError {
+  return new ExportSinkError(
+    `Could not build the Parquet file: ${
+      error instanceof Error ? error.message : error
+    }`,
+    ErrorCodes.EXPORT_SINK_ERROR,
+    false
+  );
+}
+
+/** 2024-01-15T10:30:00.000Z -> 20240115T103000000Z */
+function toStamp(date: Date): string {
+  return date.toISOString().replace(/[-:.]/g, "");
+}
+
+/** "s3://bucket/some/prefix" -> bucket "bucket", prefix "some/prefix/" */
+function parseS3Target(target: string): { bucket: string; prefix: string } {
+  const [bucket, ...path] = target.slice("s3://".length).split("/");
+  const prefix = path.filter(Boolean).join("/");
+  return { bucket, prefix: prefix ? `${prefix}/` : "" };
+}
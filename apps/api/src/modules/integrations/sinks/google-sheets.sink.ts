@@ -0,0 +1,48 @@
+// apps/api/src/modules/integrations/sinks/google-sheets.sink.ts
+import { Injectable } from "@nestjs/common";
+import { ExportSinkType } from "@packages/shared/types";
+import {
+  GoogleSheetsError,
+  GoogleSheetsService,
+} from "../google-sheets.service";
+import { SheetsReconciliationService } from "../sheets-reconciliation.service";
+import { RecordWithEncounters } from "../meeting-rows.service";
+import {
+  ExportSinkDriver,
+  ExportSinkError,
+  ExportTarget,
+} from "./export-sink.interface";
+
+/**
+ * Reconciles records with the configured spreadsheet, in the tabs and
+ * columns of the Sheets layout. Takes no settings of its own.
+ */
+@Injectable()
+export class GoogleSheetsSink implements ExportSinkDriver {
+  readonly type = ExportSinkType.GOOGLE_SHEETS;
+
+  constructor(
+    private readonly sheets: GoogleSheetsService,
+    private readonly reconciliation: SheetsReconciliationService
+  ) {}
+
+  checkSettings(): string[] {
+    return this.sheets.isConfigured()
+      ? []
+      : ["Google Sheets is not configured (GOOGLE_SHEETS_SPREADSHEET_ID)"];
+  }
+
+  async write(
+    _sink: ExportTarget,
+    records: RecordWithEncounters[]
+  ): Promise<void> {
+    try {
+      await this.reconciliation.reconcile({
+        meetingRecordIds: records.map((record) => record.id),
+      });
+    } catch (error) {
+      if (!(error instanceof GoogleSheetsError)) throw error;
+      throw new ExportSinkError(error.message, error.code, error.retryable);
+    }
+  }
+}
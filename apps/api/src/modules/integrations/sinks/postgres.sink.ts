@@ -0,0 +1,135 @@
+// apps/api/src/modules/integrations/sinks/postgres.sink.ts
+import { Injectable, OnModuleDestroy } from "@nestjs/common";
+import { Pool } from "pg";
+import { ErrorCodes, ExportSinkType } from "@packages/shared/types";
+import {
+  MeetingRowsService,
+  RecordWithEncounters,
+} from "../meeting-rows.service";
+import {
+  ExportSinkDriver,
+  ExportSinkError,
+  ExportTarget,
+} from "./export-sink.interface";
+import {
+  addColumnSql,
+  checkDatabaseSettings,
+  createTableSql,
+  settingsKey,
+  sqlTable,
+  upsertSql,
+  upsertValues,
+} from "./sql-table.util";
+
+// SQLSTATE classes worth retrying: connection, rollback (e.g. serialization
+// failure), insufficient resources and operator intervention
+const RETRYABLE_SQLSTATE_CLASSES = ["08", "40", "53", "57"];
+
+/** Upserts rows into a table of a reporting Postgres database */
+@Injectable()
+export class PostgresSink implements ExportSinkDriver, OnModuleDestroy {
+  readonly type = ExportSinkType.POSTGRES;
+  // By sink id, with the settingsKey the pool was opened for
+  private readonly pools = new Map<string, { key: string; pool: Pool }>();
+  // settingsKeys whose table was created or updated by this process
+  private readonly prepared = new Set<string>();
+
+  constructor(private readonly meetingRows: MeetingRowsService) {}
+
+  async onModuleDestroy(): Promise<void> {
+    await Promise.all(
+      Array.from(this.pools.keys()).map((sinkId) => this.release(sinkId))
+    );
+  }
+
+  checkSettings(settings: Record<string, unknown>): string[] {
+    const problems = checkDatabaseSettings(
+      settings,
+      "a postgres:// connection string"
+    );
+    if (
+      typeof settings.url === "string" &&
+      !/^postgres(ql)?:\/\//.test(settings.url)
+    ) {
+      problems.push("url must start with postgres://");
+    }
+    return problems;
+  }
+
+  async write(
+    sink: ExportTarget,
+    records: RecordWithEncounters[]
+  ): Promise<void> {
+    const table = sqlTable(sink.settings);
+    const rows = records.flatMap((record) =>
+      this.meetingRows.toRows(record).map((item) => item.row)
+    );
+    if (!rows.length) return;
+
+    const key = settingsKey(sink.settings);
+    const client = await this.pool(sink, key)
+      .connect()
+      .catch((error) => {
+        throw this.toSinkError(error);
+      });
+
+    try {
+      if (!this.prepared.has(key)) {
+        await client.query(createTableSql(table, "TIMESTAMPTZ"));
+        for (const field of table.fields) {
+          await client.query(addColumnSql(table, field, true));
+        }
+        this.prepared.add(key);
+      }
+
+      await client.query(
+        upsertSql(table, rows.length, (n) => `$${n}`),
+        upsertValues(table, rows, new Date())
+      );
+    } catch (error) {
+      throw this.toSinkError(error);
+    } finally {
+      client.release();
+    }
+  }
+
+  async release(sinkId: string): Promise<void> {
+    const cached = this.pools.get(sinkId);
+    this.pools.delete(sinkId);
+    await cached?.pool.end().catch(() => undefined);
+  }
+
+  private pool(sink: ExportTarget, key: string): Pool {
+    const cached = this.pools.get(sink.id);
+    if (cached?.key === key) return cached.pool;
+    // The settings changed since the pool was opened
+    if (cached) void this.release(sink.id);
+
+    const pool = new Pool({
+      connectionString: sink.settings.url as string,
+      max: 2,
+      connectionTimeoutMillis: 10000,
+    });
+    // An idle client losing its connection must not crash the process
+    pool.on("error", () => undefined);
+    this.pools.set(sink.id, { key, pool });
+    return pool;
+  }
+
+  private toSinkError(error: unknown): ExportSinkError {
+    const code = (error as { code?: string }).code;
+    // Errors without a SQLSTATE are network failures
+    const retryable =
+      !code ||
+      !/^[0-9A-Z]{5}$/.test(code) ||
+      RETRYABLE_SQLSTATE_CLASSES.includes(code.slice(0, 2));
+
+    return new ExportSinkError(
+      `Postgres export failed: ${
+        error instanceof Error ? error.message : error
+      }`,
+      ErrorCodes.EXPORT_SINK_ERROR,
+      retryable
+    );
+  }
+}
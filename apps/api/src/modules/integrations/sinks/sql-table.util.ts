@@ -0,0 +1,134 @@
+// apps/api/src/modules/integrations/sinks/sql-table.util.ts
+import { createHash } from "crypto";
+import {
+  DatabaseSinkSettings,
+  GoogleSheetsField,
+  GoogleSheetsRow,
+} from "@packages/shared/types";
+import { checkSinkFields, sinkFields } from "./export-sink.interface";
+
+export const DEFAULT_TABLE = "meeting_exports";
+const TABLE_NAME = /^[A-Za-z_]\w{0,62}(\.[A-Za-z_]\w{0,62})?$/; // [schema.]table
+
+/**
+ * Layout of the table a database sink upserts into: one row per sheet row,
+ * keyed by record_id, with a snake_case column per field.
+ */
+export interface SqlTable {
+  name: string; // Quoted, e.g. "reporting"."meeting_exports"
+  fields: GoogleSheetsField[]; // Besides recordId, which is the key
+  columns: string[]; // Quoted, in the order of values() below
+}
+
+export function checkDatabaseSettings(
+  settings: Record<string, unknown>,
+  urlDescription: string
+): string[] {
+  const { url, table, fields } = settings as Partial<DatabaseSinkSettings>;
+  const problems = checkSinkFields(fields);
+
+  if (typeof url !== "string" || !url.trim()) {
+    problems.push(`url must be ${urlDescription}`);
+  }
+  if (
+    table !== undefined &&
+    (typeof table !== "string" || !TABLE_NAME.test(table))
+  ) {
+    problems.push("table must be a plain table name, optionally schema.table");
+  }
+  return problems;
+}
+
+export function sqlTable(settings: Record<string, unknown>): SqlTable {
+  const fields = sinkFields(settings).filter((field) => field !== "recordId");
+  const name = (settings.table as string | undefined) ?? DEFAULT_TABLE;
+
+  return {
+    name: name.split(".").map(quote).join("."),
+    fields,
+    columns: ["record_id", ...fields.map(toColumn), "exported_at"].map(quote),
+  };
+}
+
+/**
+ * Hash of the database, table and fields the settings point at. Drivers
+ * cache connections and prepared tables under it, so a change made on
+ * another instance is picked up at the sink's next run.
+ */
+export function settingsKey(settings: Record<string, unknown>): string {
+  const { name, fields } = sqlTable(settings);
+  return createHash("sha256")
+    .update(JSON.stringify([settings.url, name, fields]))
+    .digest("hex");
+}
+
+export function createTableSql(table: SqlTable, timestampType: string): string {
+  return `CREATE TABLE IF NOT EXISTS ${table.name} (${table.columns
+    .map((column, index) =>
+      index === 0
+        ? `${column} TEXT PRIMARY KEY`
+        : index === table.columns.length - 1
+          ? `${column} ${timestampType} NOT NULL`
+          : `${column} TEXT`
+    )
+    .join(", ")})`;
+}
+
+/**
+ * Upsert of `count` rows; `placeholder` numbers parameters from 1, e.g.
+ * (n) => `$${n}` for Postgres
+ */
+export function upsertSql(
+  table: SqlTable,
+  count: number,
+  placeholder: (n: number) => string
+): string {
+  const width = table.columns.length;
+  const rows = Array.from(
+    { length: count },
+    (_, row) =>
+      `(${table.columns
+        .map((_, column) => placeholder(row * width + column + 1))
+        .join(", ")})`
+  );
+
+  return `INSERT INTO ${table.name} (${table.columns.join(", ")}) VALUES ${rows.join(
+    ", "
+  )} ON CONFLICT (${table.columns[0]}) DO UPDATE SET ${table.columns
+    .slice(1)
+    .map((column) => `${column} = EXCLUDED.${column}`)
+    .join(", ")}`;
+}
+
+/** Parameters for upsertSql, row after row */
+export function upsertValues(
+  table: SqlTable,
+  rows: GoogleSheetsRow[],
+  exportedAt: string | Date
+): Array<string | Date> {
+  return rows.flatMap((row) => [
+    row.recordId,
+    ...table.fields.map((field) => row[field]),
+    exportedAt,
+  ]);
+}
+
+/** Tables made before a field was added to the sink lack its column */
+export function addColumnSql(
+  table: SqlTable,
+  field: GoogleSheetsField,
+  ifNotExists: boolean
+): string {
+  return `ALTER TABLE ${table.name} ADD COLUMN ${
+    ifNotExists ? "IF NOT EXISTS " : ""
+  }${quote(toColumn(field))} TEXT`;
+}
+
+/** speakerName -> speaker_name */
+export function toColumn(field: GoogleSheetsField): string {
+  return field.replace(/[A-Z]/g, (letter) => `_${letter.toLowerCase()}`);
+}
+
+function quote(identifier: string): string {
+  return `"${identifier.replace(/"/g, '""')}"`;
+}
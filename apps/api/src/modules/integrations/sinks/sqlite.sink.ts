@@ -0,0 +1,129 @@
+// apps/api/src/modules/integrations/sinks/sqlite.sink.ts
+import { Injectable, OnModuleDestroy } from "@nestjs/common";
+import { mkdirSync } from "fs";
+import { dirname, resolve } from "path";
+import Database from "better-sqlite3";
+import { ErrorCodes, ExportSinkType } from "@packages/shared/types";
+import {
+  MeetingRowsService,
+  RecordWithEncounters,
+} from "../meeting-rows.service";
+import {
+  ExportSinkDriver,
+  ExportSinkError,
+  ExportTarget,
+} from "./export-sink.interface";
+import {
+  addColumnSql,
+  DEFAULT_TABLE,
+  checkDatabaseSettings,
+  createTableSql,
+  settingsKey,
+  sqlTable,
+  toColumn,
+  upsertSql,
+  upsertValues,
+} from "./sql-table.util";
+
+/** Upserts rows into a table of a SQLite file, e.g. on a shared volume */
+@Injectable()
+export class SqliteSink implements ExportSinkDriver, OnModuleDestroy {
+  readonly type = ExportSinkType.SQLITE;
+  // By sink id, with the settingsKey the file was opened for
+  private readonly databases = new Map<
+    string,
+    { key: string; db: Database.Database }
+  >();
+
+  constructor(private readonly meetingRows: MeetingRowsService) {}
+
+  async onModuleDestroy(): Promise<void> {
+    await Promise.all(
+      Array.from(this.databases.keys()).map((sinkId) => this.release(sinkId))
+    );
+  }
+
+  checkSettings(settings: Record<string, unknown>): string[] {
+    const problems = checkDatabaseSettings(
+      settings,
+      "the path of a SQLite file"
+    );
+    if (typeof settings.table === "string" && settings.table.includes(".")) {
+      problems.push("table must not name a schema for SQLite");
+    }
+    return problems;
+  }
+
+  async write(
+    sink: ExportTarget,
+    records: RecordWithEncounters[]
+  ): Promise<void> {
+    const table = sqlTable(sink.settings);
+    const rows = records.flatMap((record) =>
+      this.meetingRows.toRows(record).map((item) => item.row)
+    );
+
+    try {
+      const db = this.database(sink);
+      // One row per statement keeps well under SQLite's parameter limit
+      const upsert = db.prepare(upsertSql(table, 1, () => "?"));
+      const exportedAt = new Date().toISOString();
+
+      db.transaction(() => {
+        for (const row of rows) {
+          upsert.run(upsertValues(table, [row], exportedAt));
+        }
+      })();
+    } catch (error) {
+      const code = (error as { code?: string }).code ?? "";
+      throw new ExportSinkError(
+        `SQLite export failed: ${
+          error instanceof Error ? error.message : error
+        }`,
+        ErrorCodes.EXPORT_SINK_ERROR,
+        // Another process holds the file; anything else needs a fix
+        code.startsWith("SQLITE_BUSY") || code.startsWith("SQLITE_LOCKED")
+      );
+    }
+  }
+
+  async release(sinkId: string): Promise<void> {
+    this.databases.get(sinkId)?.db.close();
+    this.databases.delete(sinkId);
+  }
+
+  private database(sink: ExportTarget): Database.Database {
+    const key = settingsKey(sink.settings);
+    const cached = this.databases.get(sink.id);
+    if (cached?.key === key) return cached.db;
+    // The settings changed since the file was opened
+    if (cached) void this.release(sink.id);
+
+    const path = resolve(sink.settings.url as string);
+    mkdirSync(dirname(path), { recursive: true });
+    const db = new Database(path, { timeout: 5000 });
+    try {
+      db.pragma("journal_mode = WAL");
+
+      const table = sqlTable(sink.settings);
+      db.exec(createTableSql(table, "TEXT"));
+      const columns = db
+        .prepare("SELECT name FROM pragma_table_info(?)")
+        .all(
+          (sink.settings.table as string | undefined) ?? DEFAULT_TABLE
+        ) as Array<{ name: string }>;
+      const existing = new Set(columns.map((column) => column.name));
+      for (const field of table.fields) {
+        if (!existing.has(toColumn(field))) {
+          db.exec(addColumnSql(table, field, false));
+        }
+      }
+    } catch (error) {
+      db.close();
+      throw error;
+    }
+
+    this.databases.set(sink.id, { key, db });
+    return db;
+  }
+}
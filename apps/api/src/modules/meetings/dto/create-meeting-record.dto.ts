@@ -0,0 +1,82 @@
+// apps/api/src/modules/meetings/dto/create-meeting-record.dto.ts
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { Transform, Type } from "class-transformer";
+import {
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  ValidateNested,
+} from "class-validator";
+import { EntryMode } from "@packages/shared/types";
+
+export class MeetingMetadataDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(45)
+  ipAddress?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  userAgent?: string;
+}
+
+/** Sent as multipart/form-data alongside the optional audioFile */
+export class CreateMeetingRecordDto {
+  @ApiProperty({
+    example:
+      "My name is John and I belong to group 5 and today I met Sarah at the cafe.",
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  fullTranscription: string;
+
+  @ApiProperty({ example: "00:42", description: "Client timer, MM:SS" })
+  @Matches(/^\d{2,3}:\d{2}$/)
+  recordingDuration: string;
+
+  @ApiPropertyOptional({
+    description:
+      "Completed resumable upload (POST /uploads) to use instead of audioFile",
+  })
+  @IsOptional()
+  @IsString()
+  uploadId?: string;
+
+  @ApiPropertyOptional({
+    description:
+      "Client-generated id; resubmitting the same id returns the existing record",
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  clientSubmissionId?: string;
+
+  @ApiPropertyOptional({
+    enum: EntryMode,
+    default: EntryMode.VOICE,
+    description: "MANUAL for sentences generated by the typed form; no audio",
+  })
+  @IsOptional()
+  @IsEnum(EntryMode)
+  entryMode?: EntryMode;
+
+  @ApiPropertyOptional({ type: MeetingMetadataDto })
+  @IsOptional()
+  // Multipart fields arrive as strings
+  @Transform(({ value }) => {
+    if (typeof value !== "string") return value;
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  })
+  @ValidateNested()
+  @Type(() => MeetingMetadataDto)
+  metadata?: MeetingMetadataDto;
+}
@@ -0,0 +1,44 @@
+// apps/api/src/modules/meetings/dto/export-meetings-query.dto.ts
+import { ApiPropertyOptional, OmitType } from "@nestjs/swagger";
+import { Transform } from "class-transformer";
+import { ArrayNotEmpty, IsArray, IsIn, IsOptional } from "class-validator";
+import { SHEETS_FIELDS } from "@/modules/integrations/sheets-layout.service";
+import { GoogleSheetsField, MeetingExportFormat } from "@packages/shared/types";
+import { GetMeetingsQueryDto } from "./get-meetings-query.dto";
+
+export const MEETING_EXPORT_FORMATS: MeetingExportFormat[] = [
+  "csv",
+  "xlsx",
+  "json",
+  "ndjson",
+];
+
+// Same filters and sort as GET /meetings; every match is exported
+export class ExportMeetingsQueryDto extends OmitType(GetMeetingsQueryDto, [
+  "page",
+  "limit",
+] as const) {
+  @ApiPropertyOptional({ enum: MEETING_EXPORT_FORMATS, default: "csv" })
+  @IsOptional()
+  @IsIn(MEETING_EXPORT_FORMATS)
+  format?: MeetingExportFormat = "csv";
+
+  @ApiPropertyOptional({
+    description:
+      "Comma-separated Google Sheets fields, in order; defaults to the Sheets layout's columns",
+    example: "date,speakerName,personMet,location",
+  })
+  @IsOptional()
+  @Transform(({ value }) =>
+    typeof value === "string"
+      ? value
+          .split(",")
+          .map((field) => field.trim())
+          .filter(Boolean)
+      : value
+  )
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsIn(SHEETS_FIELDS, { each: true })
+  fields?: GoogleSheetsField[];
+}
@@ -0,0 +1,83 @@
+// apps/api/src/modules/meetings/dto/get-meetings-query.dto.ts
+import { ApiPropertyOptional } from "@nestjs/swagger";
+import { Type } from "class-transformer";
+import {
+  IsDateString,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from "class-validator";
+import {
+  EntryMode,
+  MeetingSortField,
+  RecordingStatus,
+} from "@packages/shared/types";
+
+export const MEETING_SORT_FIELDS: MeetingSortField[] = [
+  "recordingDate",
+  "recordingDateTime",
+  "speakerName",
+  "groupNumber",
+  "createdAt",
+];
+
+export class GetMeetingsQueryDto {
+  @ApiPropertyOptional({ default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiPropertyOptional({ default: 10 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 10;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  groupNumber?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  speakerName?: string;
+
+  @ApiPropertyOptional({ example: "2025-07-01" })
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @ApiPropertyOptional({ example: "2025-07-31" })
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+
+  @ApiPropertyOptional({ enum: RecordingStatus })
+  @IsOptional()
+  @IsEnum(RecordingStatus)
+  status?: RecordingStatus;
+
+  @ApiPropertyOptional({ enum: EntryMode })
+  @IsOptional()
+  @IsEnum(EntryMode)
+  entryMode?: EntryMode;
+
+  @ApiPropertyOptional({ enum: MEETING_SORT_FIELDS, default: "recordingDate" })
+  @IsOptional()
+  @IsIn(MEETING_SORT_FIELDS)
+  sortBy?: MeetingSortField = "recordingDate";
+
+  @ApiPropertyOptional({ enum: ["asc", "desc"], default: "desc" })
+  @IsOptional()
+  @IsIn(["asc", "desc"])
+  sortOrder?: "asc" | "desc" = "desc";
+}
@@ -0,0 +1,26 @@
+// apps/api/src/modules/meetings/dto/get-statistics-query.dto.ts
+import { ApiPropertyOptional } from "@nestjs/swagger";
+import { IsDateString, IsOptional, IsString } from "class-validator";
+
+export class GetStatisticsQueryDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  groupNumber?: string;
+
+  @ApiPropertyOptional({
+    example: "2025-07-01",
+    description: "Defaults to 30 days before endDate",
+  })
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @ApiPropertyOptional({
+    example: "2025-07-31",
+    description: "Defaults to today",
+  })
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+}
@@ -0,0 +1,4 @@
+export * from "./create-meeting-record.dto";
+export * from "./get-meetings-query.dto";
+export * from "./get-statistics-query.dto";
+export * from "./export-meetings-query.dto";
@@ -0,0 +1,157 @@
+// apps/api/src/modules/meetings/meeting-export.writer.ts
+import { Response } from "express";
+import { stream as excelStream } from "exceljs";
+import { toCsvLine } from "@/common/utils/csv.util";
+import {
+  GoogleSheetsColumn,
+  GoogleSheetsRow,
+  MeetingExportFormat,
+} from "@packages/shared/types";
+
+export const MEETING_EXPORT_CONTENT_TYPES: Record<MeetingExportFormat, string> =
+  {
+    csv: "text/csv; charset=utf-8",
+    xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    json: "application/json; charset=utf-8",
+    ndjson: "application/x-ndjson; charset=utf-8",
+  };
+
+/**
+ * Writes exported rows to the response as they are read, so an export of
+ * any size holds one batch in memory. write() waits while the client is
+ * behind.
+ */
+export interface MeetingExportWriter {
+  write(rows: GoogleSheetsRow[]): Promise<void>;
+  end(): Promise<void>;
+}
+
+export function createMeetingExportWriter(
+  format: MeetingExportFormat,
+  res: Response,
+  columns: GoogleSheetsColumn[]
+): MeetingExportWriter {
+  switch (format) {
+    case "xlsx":
+      return xlsxWriter(res, columns);
+    case "json":
+      return jsonWriter(res, columns);
+    case "ndjson":
+      return {
+        write: (rows) =>
+          send(
+            res,
+            rows
+              .map((row) => `${JSON.stringify(pick(row, columns))}\n`)
+              .join("")
+          ),
+        end: async () => void res.end(),
+      };
+    default:
+      return csvWriter(res, columns);
+  }
+}
+
+function csvWriter(
+  res: Response,
+  columns: GoogleSheetsColumn[]
+): MeetingExportWriter {
+  let started = false;
+
+  return {
+    write: (rows) => {
+      const lines = rows.map((row) =>
+        toCsvLine(columns.map(({ field }) => row[field]))
+      );
+      if (!started) {
+        started = true;
+        lines.unshift(toCsvLine(columns.map(({ header }) => header)));
+      }
+      return send(res, lines.join(""));
+    },
+    end: async () => {
+      if (!started) res.write(toCsvLine(columns.map(({ header }) => header)));
+      res.end();
+    },
+  };
+}
+
+// One array, written an element at a time
+function jsonWriter(
+  res: Response,
+  columns: GoogleSheetsColumn[]
+): MeetingExportWriter {
+  let started = false;
+
+  return {
+    write: (rows) =>
+      send(
+        res,
+        rows
+          .map((row) => {
+            const prefix = started ? ",\n" : "[\n";
+            started = true;
+            return prefix + JSON.stringify(pick(row, columns));
+          })
+          .join("")
+      ),
+    end: async () => void res.end(started ? "\n]\n" : "[]\n"),
+  };
+}
+
+function xlsxWriter(
+  res: Response,
+  columns: GoogleSheetsColumn[]
+): MeetingExportWriter {
+  // Shared strings and styles would be kept in memory until the end
+  const workbook = new excelStream.xlsx.WorkbookWriter({
+    stream: res,
+    useSharedStrings: false,
+    useStyles: false,
+  });
+  const sheet = workbook.addWorksheet("Meetings");
+  sheet.columns = columns.map(({ field, header }) => ({
+    header,
+    key: field,
+    width: field === "transcription" ? 60 : 16,
+  }));
+
+  return {
+    write: async (rows) => {
+      for (const row of rows) sheet.addRow(pick(row, columns)).commit();
+      await drained(res);
+    },
+    end: async () => {
+      sheet.commit();
+      await workbook.commit();
+    },
+  };
+}
+
+/** The row's fields in column order; JSON keys are field names */
+function pick(
+  row: GoogleSheetsRow,
+  columns: GoogleSheetsColumn[]
+): Partial<GoogleSheetsRow> {
+  return Object.fromEntries(columns.map(({ field }) => [field, row[field]]));
+}
+
+async function send(res: Response, chunk: string): Promise<void> {
+  if (chunk) res.write(chunk);
+  await drained(res);
+}
+
+// Resolves once the client has caught up, or has gone away
+function drained(res: Response): Promise<void> {
+  if (!res.writableNeedDrain || res.destroyed) return Promise.resolve();
+
+  return new Promise((resolve) => {
+    const done = () => {
+      res.off("drain", done);
+      res.off("close", done);
+      resolve();
+    };
+    res.on("drain", done);
+    res.on("close", done);
+  });
+}
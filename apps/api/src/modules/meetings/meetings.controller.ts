@@ -3,29 +3,49 @@ import {
   Post,
   Get,
   Body,
+  Param,
   Query,
+  Headers,
+  Res,
   UploadedFile,
   UseInterceptors,
   HttpStatus,
   UsePipes,
   ValidationPipe,
+  ParseEnumPipe,
 } from "@nestjs/common";
 import { FileInterceptor } from "@nestjs/platform-express";
+import { Response } from "express";
 import {
   ApiTags,
   ApiOperation,
   ApiResponse,
   ApiConsumes,
+  ApiProduces,
 } from "@nestjs/swagger";
 import { MeetingsService } from "./meetings.service";
-import { CreateMeetingRecordDto, GetMeetingsQueryDto } from "./dto";
+import { StorageService } from "@/modules/storage/storage.service";
+import {
+  CreateMeetingRecordDto,
+  ExportMeetingsQueryDto,
+  GetMeetingsQueryDto,
+  GetStatisticsQueryDto,
+} from "./dto";
 import { ApiResponseDto } from "@/common/dto/api-response.dto";
-import { MeetingRecord, PaginatedResponse } from "@packages/shared/types";
+import {
+  AudioVariant,
+  MeetingRecord,
+  PaginatedResponse,
+} from "@packages/shared/types";
+import { VALIDATION_RULES_VERSION } from "@packages/shared/validation";
 
 @ApiTags("meetings")
 @Controller("meetings")
 export class MeetingsController {
-  constructor(private readonly meetingsService: MeetingsService) {}
+  constructor(
+    private readonly meetingsService: MeetingsService,
+    private readonly storageService: StorageService
+  ) {}
 
   @Post()
   @ApiOperation({ summary: "Create a new meeting record" })
@@ -53,6 +73,7 @@ export class MeetingsController {
         meta: {
           timestamp: new Date().toISOString(),
           requestId: `req_${Date.now()}`,
+          validationRulesVersion: VALIDATION_RULES_VERSION,
         },
       };
     } catch (error) {
@@ -86,8 +107,9 @@ export class MeetingsController {
 
   @Get("statistics")
   @ApiOperation({ summary: "Get meeting statistics" })
-  async getStatistics(@Query("groupNumber") groupNumber?: string) {
-    const stats = await this.meetingsService.getStatistics(groupNumber);
+  @UsePipes(new ValidationPipe({ transform: true }))
+  async getStatistics(@Query() query: GetStatisticsQueryDto) {
+    const stats = await this.meetingsService.getStatistics(query);
 
     return {
       success: true,
@@ -99,6 +121,73 @@ export class MeetingsController {
     };
   }
 
+  @Get("export")
+  @ApiOperation({
+    summary: "Download every matching record as CSV, XLSX, JSON or NDJSON",
+  })
+  @ApiProduces(
+    "text/csv",
+    "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    "application/json",
+    "application/x-ndjson"
+  )
+  async exportMeetings(
+    @Query() query: ExportMeetingsQueryDto,
+    @Res() res: Response
+  ): Promise<void> {
+    await this.meetingsService.exportMeetings(query, res);
+  }
+
+  @Get(":id")
+  @ApiOperation({ summary: "Get a meeting record" })
+  async getMeeting(
+    @Param("id") id: string
+  ): Promise<ApiResponseDto<MeetingRecord>> {
+    const meetingRecord = await this.meetingsService.getMeeting(id);
+
+    return {
+      success: true,
+      data: meetingRecord,
+      meta: {
+        timestamp: new Date().toISOString(),
+        requestId: `req_${Date.now()}`,
+      },
+    };
+  }
+
+  @Get(":id/audio")
+  @ApiOperation({ summary: "Stream the recording (supports HTTP Range)" })
+  async getAudio(
+    @Param("id") id: string,
+    @Query("variant", new ParseEnumPipe(AudioVariant, { optional: true }))
+    variant: AudioVariant | undefined,
+    @Headers("range") range: string | undefined,
+    @Res() res: Response
+  ): Promise<void> {
+    const audio = await this.meetingsService.getAudioObject(id, variant);
+    await this.storageService.sendObject(res, audio.key, audio.mimeType, range);
+  }
+
+  @Get(":id/audio/url")
+  @ApiOperation({ summary: "Get a short-lived signed URL for the recording" })
+  async getAudioUrl(
+    @Param("id") id: string,
+    @Query("variant", new ParseEnumPipe(AudioVariant, { optional: true }))
+    variant: AudioVariant | undefined
+  ) {
+    const audio = await this.meetingsService.getAudioObject(id, variant);
+    const signed = await this.storageService.getSignedUrl(audio.key);
+
+    return {
+      success: true,
+      data: signed,
+      meta: {
+        timestamp: new Date().toISOString(),
+        requestId: `req_${Date.now()}`,
+      },
+    };
+  }
+
   @Post("sync-to-sheets")
   @ApiOperation({ summary: "Manually sync records to Google Sheets" })
   async syncToSheets() {
@@ -116,14 +205,47 @@ export class MeetingsController {
 }
 
 // apps/api/src/modules/meetings/meetings.service.ts
-import { Injectable, BadRequestException, Logger } from "@nestjs/common";
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+  Logger,
+} from "@nestjs/common";
 import { ConfigService } from "@nestjs/config";
+import { Prisma } from "@prisma/client";
+import { Response } from "express";
 import { PrismaService } from "@/modules/database/prisma.service";
+import { StorageService } from "@/modules/storage/storage.service";
+import {
+  AudioInspectorService,
+  VerifiedAudio,
+} from "@/modules/audio/audio-inspector.service";
+import { UploadsService } from "@/modules/uploads/uploads.service";
+import { GroupsService } from "@/modules/groups/groups.service";
 import { TranscriptionService } from "@/modules/transcription/transcription.service";
-import { GoogleSheetsService } from "@/modules/integrations/google-sheets.service";
-import { ValidationService } from "@/common/services/validation.service";
+import { TranscriptionJobsService } from "@/modules/transcription/transcription-jobs.service";
+import { SheetsReconciliationService } from "@/modules/integrations/sheets-reconciliation.service";
+import { ExportSinksService } from "@/modules/integrations/export-sinks.service";
+import { MeetingRowsService } from "@/modules/integrations/meeting-rows.service";
+import {
+  DEFAULT_SHEETS_COLUMNS,
+  SheetsLayoutService,
+} from "@/modules/integrations/sheets-layout.service";
+import {
+  VALIDATION_RULES_VERSION,
+  validateTranscription,
+} from "@packages/shared/validation";
 import { DateUtilsService } from "@/common/services/date-utils.service";
-import { CreateMeetingRecordDto, GetMeetingsQueryDto } from "./dto";
+import {
+  CreateMeetingRecordDto,
+  ExportMeetingsQueryDto,
+  GetMeetingsQueryDto,
+  GetStatisticsQueryDto,
+} from "./dto";
+import {
+  createMeetingExportWriter,
+  MEETING_EXPORT_CONTENT_TYPES,
+} from "./meeting-export.writer";
 import {
   MeetingRecord,
   RecordingStatus,
@@ -131,8 +253,16 @@ import {
   PaginatedResponse,
   DailyStatistics,
   GroupStatistics,
+  MeetingStatistics,
+  ErrorCodes,
+  AudioVariant,
+  EntryMode,
+  SheetsReconciliation,
 } from "@packages/shared/types";
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EXPORT_BATCH_SIZE = 500;
+
 @Injectable()
 export class MeetingsService {
   private readonly logger = new Logger(MeetingsService.name);
@@ -140,9 +270,16 @@ export class MeetingsService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly transcriptionService: TranscriptionService,
-    private readonly googleSheetsService: GoogleSheetsService,
-    private readonly validationService: ValidationService,
+    private readonly transcriptionJobs: TranscriptionJobsService,
+    private readonly sheetsReconciliation: SheetsReconciliationService,
+    private readonly exportSinks: ExportSinksService,
+    private readonly meetingRows: MeetingRowsService,
+    private readonly sheetsLayout: SheetsLayoutService,
     private readonly dateUtils: DateUtilsService,
+    private readonly storageService: StorageService,
+    private readonly audioInspector: AudioInspectorService,
+    private readonly uploadsService: UploadsService,
+    private readonly groupsService: GroupsService,
     private readonly configService: ConfigService
   ) {}
 
@@ -150,23 +287,76 @@ export class MeetingsService {
     dto: CreateMeetingRecordDto,
     audioFile?: Express.Multer.File
   ): Promise<MeetingRecord> {
-    // 1. Validate the transcription format
-    const validationResult = this.validationService.validateTranscription(
-      dto.fullTranscription
-    );
+    // Offline replays may resend a submission whose response was lost
+    const existing = await this.findSubmission(dto.clientSubmissionId);
+    if (existing) return existing;
+
+    // 1. Validate the transcription format (the group's template, if any)
+    const validationResult = validateTranscription(dto.fullTranscription, {
+      templates: await this.groupsService.getTemplates(),
+    });
 
     if (!validationResult.isValid) {
+      await this.recordFailedSubmission();
       throw new BadRequestException({
-        code: "INVALID_MESSAGE_FORMAT",
+        code: ErrorCodes.INVALID_MESSAGE_FORMAT,
         message: validationResult.message,
-        details: validationResult.errors,
+        details: {
+          errors: validationResult.errors,
+          rulesVersion: VALIDATION_RULES_VERSION,
+        },
       });
     }
 
+    // Manual entries are typed, so there is nothing to transcribe
+    const entryMode = dto.entryMode ?? EntryMode.VOICE;
+    if (entryMode === EntryMode.MANUAL && (audioFile || dto.uploadId)) {
+      throw new BadRequestException({
+        code: ErrorCodes.INVALID_ENTRY_MODE,
+        message: "Manual entries cannot include audio",
+      });
+    }
+
+    // Audio comes from a completed resumable upload (already verified and
+    // stored) or a direct file, which is verified here before being stored
+    const completedUpload = dto.uploadId
+      ? await this.uploadsService.getCompletedUpload(dto.uploadId)
+      : null;
+    const verifiedAudio: VerifiedAudio | null = completedUpload
+      ? {
+          mimeType: completedUpload.mimeType,
+          sizeBytes: completedUpload.sizeBytes,
+          durationMs: completedUpload.durationMs,
+        }
+      : audioFile
+        ? this.audioInspector.verifyUpload(audioFile.buffer, audioFile.mimetype)
+        : null;
+
+    // Every person met at every place; the record keeps the first
+    const encounters = validationResult.encounters ?? [
+      {
+        personMet: validationResult.extractedData!.personMet,
+        location: validationResult.extractedData!.location,
+      },
+    ];
+
     // 2. Extract date information (MOST IMPORTANT)
     const dateData = this.dateUtils.getCurrentDateData();
 
     try {
+      const storedAudio = completedUpload
+        ? {
+            key: completedUpload.storageKey,
+            mimeType: completedUpload.mimeType,
+            size: completedUpload.sizeBytes,
+          }
+        : verifiedAudio
+          ? await this.storageService.storeAudio(
+              audioFile!.buffer,
+              verifiedAudio.mimeType
+            )
+          : null;
+
       // 3. Create the meeting record
       const meetingRecord = await this.prisma.meetingRecord.create({
         data: {
@@ -183,11 +373,30 @@ export class MeetingsService {
           groupNumber: validationResult.extractedData!.groupNumber,
           personMet: validationResult.extractedData!.personMet,
           location: validationResult.extractedData!.location,
+          encounterCount: encounters.length,
+          encounters: {
+            create: encounters.map((encounter, position) => ({
+              position,
+              ...encounter,
+            })),
+          },
+          extraFields: validationResult.extraFields,
+          language: validationResult.locale,
+          entryMode,
 
           // Audio and transcription data
           fullTranscription: dto.fullTranscription,
-          recordingDuration: dto.recordingDuration,
-          audioFileUrl: audioFile ? await this.saveAudioFile(audioFile) : null,
+          recordingDuration: this.resolveRecordingDuration(
+            dto.recordingDuration,
+            verifiedAudio
+          ),
+          audioDurationMs: verifiedAudio?.durationMs,
+          audioStorageKey: storedAudio?.key,
+          audioMimeType: storedAudio?.mimeType,
+          audioSizeBytes: storedAudio?.size,
+          uploadSession: completedUpload
+            ? { connect: { id: completedUpload.id } }
+            : undefined,
 
           // Initial status
           status: RecordingStatus.SUBMITTED,
@@ -195,16 +404,32 @@ export class MeetingsService {
           validationScore: validationResult.confidence || 1.0,
 
           // Metadata
+          clientSubmissionId: dto.clientSubmissionId,
           ipAddress: dto.metadata?.ipAddress,
           userAgent: dto.metadata?.userAgent,
         },
+        include: { encounters: true },
       });
 
-      // 4. Background tasks (don't await to keep response fast)
+      // 4. Queue server-side transcription of the uploaded audio, in the
+      // language the message was spoken in
+      if (storedAudio) {
+        await this.transcriptionJobs.enqueue({
+          meetingRecordId: meetingRecord.id,
+          audioFileUrl: storedAudio.key,
+          mimeType: storedAudio.mimeType,
+          language: validationResult.locale,
+        });
+      }
+
+      // 5. Background tasks (don't await to keep response fast)
       this.processBackgroundTasks(meetingRecord.id);
 
-      // 5. Update daily statistics
-      await this.updateDailyStatistics(dateData.recordingDate);
+      // 6. Update daily statistics
+      await this.updateDailyStatistics(
+        dateData.recordingDate,
+        encounters.length
+      );
 
       this.logger.log(
         `Meeting record created: ${meetingRecord.id} for date: ${dateData.recordingDate}`
@@ -212,42 +437,45 @@ export class MeetingsService {
 
       return this.formatMeetingRecord(meetingRecord);
     } catch (error) {
+      // A replay of the same submission running alongside this one saved it
+      // first; answer with its record so the client stops resending
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === "P2002"
+      ) {
+        const saved = await this.findSubmission(dto.clientSubmissionId);
+        if (saved) return saved;
+      }
+
       this.logger.error("Failed to create meeting record", error);
       throw new BadRequestException("Failed to create meeting record");
     }
   }
 
+  private async findSubmission(
+    clientSubmissionId: string | undefined
+  ): Promise<MeetingRecord | null> {
+    if (!clientSubmissionId) return null;
+
+    const record = await this.prisma.meetingRecord.findUnique({
+      where: { clientSubmissionId },
+      include: { encounters: true },
+    });
+    return record && this.formatMeetingRecord(record);
+  }
+
   async getMeetings(
     query: GetMeetingsQueryDto
   ): Promise<PaginatedResponse<MeetingRecord>> {
     const {
       page = 1,
       limit = 10,
-      groupNumber,
-      speakerName,
-      startDate,
-      endDate,
-      status,
       sortBy = "recordingDate",
       sortOrder = "desc",
     } = query;
 
     const skip = (page - 1) * limit;
-
-    // Build where clause
-    const where: any = {};
-
-    if (groupNumber) where.groupNumber = groupNumber;
-    if (speakerName)
-      where.speakerName = { contains: speakerName, mode: "insensitive" };
-    if (status) where.status = status;
-
-    // Date filtering (MOST IMPORTANT for queries)
-    if (startDate || endDate) {
-      where.recordingDate = {};
-      if (startDate) where.recordingDate.gte = new Date(startDate);
-      if (endDate) where.recordingDate.lte = new Date(endDate);
-    }
+    const where = this.buildMeetingsWhere(query);
 
     // Execute queries
     const [data, total] = await Promise.all([
@@ -258,6 +486,7 @@ export class MeetingsService {
         orderBy: { [sortBy]: sortOrder },
         include: {
           group: true,
+          encounters: true,
         },
       }),
       this.prisma.meetingRecord.count({ where }),
@@ -267,7 +496,7 @@ export class MeetingsService {
 
     return {
       success: true,
-      data: data.map(this.formatMeetingRecord),
+      data: data.map((record) => this.formatMeetingRecord(record)),
       pagination: {
         page,
         limit,
@@ -279,151 +508,300 @@ export class MeetingsService {
     };
   }
 
-  async getStatistics(groupNumber?: string): Promise<{
-    daily: DailyStatistics[];
-    groups: GroupStatistics[];
-    totals: {
-      totalMeetings: number;
-      totalGroups: number;
-      totalSpeakers: number;
-      avgMeetingsPerDay: number;
-    };
-  }> {
-    const thirtyDaysAgo = new Date();
-    thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
+  /**
+   * Streams every record matching the GET /meetings filters, one row per
+   * encounter as in Google Sheets. Records are read in batches, following
+   * the requested sort with the id as tie-breaker.
+   */
+  async exportMeetings(
+    query: ExportMeetingsQueryDto,
+    res: Response
+  ): Promise<void> {
+    const {
+      format = "csv",
+      fields,
+      sortBy = "recordingDate",
+      sortOrder = "desc",
+    } = query;
+    const where = this.buildMeetingsWhere(query);
 
-    // Get daily statistics
-    const dailyStats = await this.prisma.dailyStats.findMany({
-      where: {
-        date: {
-          gte: thirtyDaysAgo,
-        },
-      },
-      orderBy: { date: "asc" },
-    });
+    const layout = await this.sheetsLayout.getLayout();
+    const headers = new Map(
+      [...DEFAULT_SHEETS_COLUMNS, ...layout.columns].map((column) => [
+        column.field,
+        column.header,
+      ])
+    );
+    const columns = fields
+      ? fields.map((field) => ({ field, header: headers.get(field) ?? field }))
+      : layout.columns;
 
-    // Get group statistics
-    const groupStats = await this.prisma.meetingRecord.groupBy({
-      by: ["groupNumber"],
-      where: groupNumber ? { groupNumber } : {},
-      _count: {
-        id: true,
+    const fileName = [
+      "meetings",
+      query.groupNumber && `group-${query.groupNumber}`,
+      query.startDate,
+      query.endDate && `to-${query.endDate}`,
+    ]
+      .filter(Boolean)
+      .join("-")
+      .replace(/[^\w.-]+/g, "_");
+
+    res.status(200);
+    res.setHeader("Content-Type", MEETING_EXPORT_CONTENT_TYPES[format]);
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="${fileName}.${format}"`
+    );
+    res.setHeader("Cache-Control", "no-store");
+
+    const writer = createMeetingExportWriter(format, res, columns);
+    let exported = 0;
+
+    try {
+      let cursor: string | undefined;
+      // Stop reading if the client gives up on the download
+      while (!res.destroyed) {
+        const records = await this.prisma.meetingRecord.findMany({
+          where,
+          include: { encounters: true },
+          orderBy: [{ [sortBy]: sortOrder }, { id: sortOrder }],
+          take: EXPORT_BATCH_SIZE,
+          ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+        });
+        if (!records.length) break;
+        cursor = records[records.length - 1].id;
+
+        await writer.write(
+          records.flatMap((record) =>
+            this.meetingRows.toRows(record).map((item) => item.row)
+          )
+        );
+        exported += records.length;
+      }
+      await writer.end();
+      this.logger.log(`Exported ${exported} record(s) as ${format}`);
+    } catch (error) {
+      // The status line is already sent; cutting the response short is the
+      // only way left to tell the client the file is incomplete
+      this.logger.error(
+        `Export failed after ${exported} record(s) as ${format}`,
+        error
+      );
+      res.destroy(error as Error);
+    }
+  }
+
+  /**
+   * Activity between startDate and endDate (the last 30 days by default).
+   * Meetings are counted per encounter. Failed submissions are only known
+   * per day, so a group's daily figures never include failures.
+   */
+  async getStatistics(
+    query: GetStatisticsQueryDto
+  ): Promise<MeetingStatistics> {
+    const { groupNumber } = query;
+    const endDate = new Date(
+      query.endDate ?? this.dateUtils.getCurrentDateData().recordingDate
+    );
+    const startDate = query.startDate
+      ? new Date(query.startDate)
+      : new Date(endDate.getTime() - 30 * DAY_MS);
+
+    if (startDate > endDate) {
+      throw new BadRequestException({
+        code: ErrorCodes.INVALID_DATE_RANGE,
+        message: "startDate must not be after endDate",
+        details: { startDate: query.startDate, endDate: query.endDate },
+      });
+    }
+
+    const days =
+      Math.round((endDate.getTime() - startDate.getTime()) / DAY_MS) + 1;
+    const where = {
+      recordingDate: { gte: startDate, lte: endDate },
+      ...(groupNumber ? { groupNumber } : {}),
+    };
+
+    // One row per group and speaker gives every per-group figure and totals
+    const speakerStats = await this.prisma.meetingRecord.groupBy({
+      by: ["groupNumber", "speakerName"],
+      where,
+      _sum: {
+        encounterCount: true,
       },
       _max: {
         recordingDate: true,
       },
     });
 
-    // Get totals
-    const totals = await this.prisma.meetingRecord.aggregate({
-      where: groupNumber ? { groupNumber } : {},
-      _count: {
-        id: true,
-      },
-    });
+    const groupNames = new Map(
+      (
+        await this.prisma.group.findMany({
+          where: {
+            number: { in: speakerStats.map((row) => row.groupNumber) },
+          },
+          select: { number: true, name: true },
+        })
+      ).map((group) => [group.number, group.name])
+    );
 
-    const uniqueGroups = await this.prisma.meetingRecord.findMany({
-      select: { groupNumber: true },
-      distinct: ["groupNumber"],
-      where: groupNumber ? { groupNumber } : {},
-    });
+    const groups = new Map<string, GroupStatistics>();
+    const topSpeakerMeetings = new Map<string, number>();
+    for (const row of speakerStats) {
+      const meetings = row._sum.encounterCount ?? 0;
+      const lastMeeting = this.toDateString(row._max.recordingDate);
+      const group = groups.get(row.groupNumber) ?? {
+        groupNumber: row.groupNumber,
+        groupName: groupNames.get(row.groupNumber) ?? undefined,
+        totalMeetings: 0,
+        averageMeetingsPerWeek: 0,
+        locations: [], // Calculate separately if needed
+      };
 
-    const uniqueSpeakers = await this.prisma.meetingRecord.findMany({
-      select: { speakerName: true },
-      distinct: ["speakerName"],
-      where: groupNumber ? { groupNumber } : {},
+      group.totalMeetings += meetings;
+      if (
+        lastMeeting &&
+        (!group.lastMeeting || lastMeeting > group.lastMeeting)
+      ) {
+        group.lastMeeting = lastMeeting;
+      }
+      if (meetings > (topSpeakerMeetings.get(row.groupNumber) ?? 0)) {
+        topSpeakerMeetings.set(row.groupNumber, meetings);
+        group.mostActiveSpeaker = row.speakerName;
+      }
+      group.averageMeetingsPerWeek = (group.totalMeetings * 7) / days;
+      groups.set(row.groupNumber, group);
+    }
+
+    const totalMeetings = [...groups.values()].reduce(
+      (sum, group) => sum + group.totalMeetings,
+      0
+    );
+
+    // Typed records, so analytics can separate them from spoken ones
+    const manualEntries = await this.prisma.meetingRecord.count({
+      where: { ...where, entryMode: EntryMode.MANUAL },
     });
 
     return {
-      daily: dailyStats.map((stat) => ({
-        date: stat.date.toISOString().split("T")[0],
-        totalRecordings: stat.totalRecordings,
-        successfulRecordings: stat.successfulRecordings,
-        failedRecordings: stat.failedRecordings,
-        uniqueGroups: stat.uniqueGroups,
-        uniqueSpeakers: stat.uniqueSpeakers,
-        averageDuration: stat.averageDuration,
-      })),
-      groups: groupStats.map((group) => ({
-        groupNumber: group.groupNumber,
-        totalMeetings: group._count.id,
-        lastMeeting: group._max.recordingDate?.toISOString().split("T")[0],
-        averageMeetingsPerWeek: 0, // Calculate separately if needed
-        locations: [], // Calculate separately if needed
-      })),
+      range: {
+        startDate: this.toDateString(startDate)!,
+        endDate: this.toDateString(endDate)!,
+      },
+      daily: groupNumber
+        ? await this.getGroupDailyStatistics(where)
+        : await this.getDailyStatistics(startDate, endDate),
+      groups: [...groups.values()].sort(
+        (a, b) => b.totalMeetings - a.totalMeetings
+      ),
       totals: {
-        totalMeetings: totals._count.id,
-        totalGroups: uniqueGroups.length,
-        totalSpeakers: uniqueSpeakers.length,
-        avgMeetingsPerDay: totals._count.id / 30,
+        totalMeetings,
+        manualEntries,
+        totalGroups: groups.size,
+        totalSpeakers: new Set(speakerStats.map((row) => row.speakerName)).size,
+        avgMeetingsPerDay: totalMeetings / days,
       },
     };
   }
 
-  async syncToGoogleSheets(): Promise<{ synced: number; errors: number }> {
-    // Get unsynced records
-    const unsyncedRecords = await this.prisma.meetingRecord.findMany({
+  private async getDailyStatistics(
+    startDate: Date,
+    endDate: Date
+  ): Promise<DailyStatistics[]> {
+    const dailyStats = await this.prisma.dailyStats.findMany({
       where: {
-        syncedToSheets: false,
-      },
-      orderBy: {
-        recordingDate: "asc", // Sync by date order (most important)
+        date: {
+          gte: startDate,
+          lte: endDate,
+        },
       },
-      take: 100, // Batch size
+      orderBy: { date: "asc" },
     });
 
-    let synced = 0;
-    let errors = 0;
+    return dailyStats.map((stat) => ({
+      date: this.toDateString(stat.date)!,
+      totalRecordings: stat.totalRecordings,
+      totalMeetings: stat.totalMeetings,
+      successfulRecordings: stat.successfulRecordings,
+      failedRecordings: stat.failedRecordings,
+      uniqueGroups: stat.uniqueGroups,
+      uniqueSpeakers: stat.uniqueSpeakers,
+      averageDuration: stat.averageDuration,
+    }));
+  }
 
-    for (const record of unsyncedRecords) {
-      try {
-        const rowId = await this.googleSheetsService.addRecord(record);
-
-        await this.prisma.meetingRecord.update({
-          where: { id: record.id },
-          data: {
-            syncedToSheets: true,
-            googleSheetsRowId: rowId,
-            sheetsLastSync: new Date(),
-          },
-        });
+  /** Daily figures for one group, built from its records */
+  private async getGroupDailyStatistics(
+    where: Prisma.MeetingRecordWhereInput
+  ): Promise<DailyStatistics[]> {
+    const rows = await this.prisma.meetingRecord.groupBy({
+      by: ["recordingDate", "speakerName"],
+      where,
+      _count: {
+        id: true,
+        audioDurationMs: true,
+      },
+      _sum: {
+        encounterCount: true,
+        audioDurationMs: true,
+      },
+      orderBy: { recordingDate: "asc" },
+    });
 
-        synced++;
-      } catch (error) {
-        this.logger.error(
-          `Failed to sync record ${record.id} to Google Sheets`,
-          error
-        );
-        errors++;
-      }
+    const days = new Map<
+      string,
+      DailyStatistics & { durationMs: number; measured: number }
+    >();
+    for (const row of rows) {
+      const date = this.toDateString(row.recordingDate)!;
+      const day = days.get(date) ?? {
+        date,
+        totalRecordings: 0,
+        totalMeetings: 0,
+        successfulRecordings: 0,
+        failedRecordings: 0,
+        uniqueGroups: 1,
+        uniqueSpeakers: 0,
+        averageDuration: 0,
+        durationMs: 0,
+        measured: 0,
+      };
+
+      day.totalRecordings += row._count.id;
+      day.successfulRecordings += row._count.id;
+      day.totalMeetings += row._sum.encounterCount ?? 0;
+      day.uniqueSpeakers += 1;
+      day.durationMs += row._sum.audioDurationMs ?? 0;
+      day.measured += row._count.audioDurationMs;
+      days.set(date, day);
     }
 
-    this.logger.log(
-      `Google Sheets sync completed: ${synced} synced, ${errors} errors`
+    return [...days.values()].map(({ durationMs, measured, ...day }) => ({
+      ...day,
+      averageDuration: measured ? durationMs / measured / 1000 : 0,
+    }));
+  }
+
+  private toDateString(date: Date | null): string | undefined {
+    return date?.toISOString().split("T")[0];
+  }
+
+  /**
+   * Reconciles every record with the sheet: new rows are appended, changed
+   * rows updated in place and valid sheet edits pulled back
+   */
+  async syncToGoogleSheets(): Promise<SheetsReconciliation> {
+    return this.exportSinks.withSheetsLock(() =>
+      this.sheetsReconciliation.reconcile({ dryRun: false })
     );
-    return { synced, errors };
   }
 
   private async processBackgroundTasks(meetingRecordId: string): Promise<void> {
     // Don't await these - run in background
     setImmediate(async () => {
       try {
-        // Sync to Google Sheets
-        const record = await this.prisma.meetingRecord.findUnique({
-          where: { id: meetingRecordId },
-        });
-
-        if (record) {
-          await this.googleSheetsService.addRecord(record);
-
-          await this.prisma.meetingRecord.update({
-            where: { id: meetingRecordId },
-            data: {
-              syncedToSheets: true,
-              sheetsLastSync: new Date(),
-            },
-          });
-        }
+        // Sinks without an interval pick the new record up now
+        this.exportSinks.trigger();
       } catch (error) {
         this.logger.error(
           `Background processing failed for record ${meetingRecordId}`,
@@ -433,35 +811,174 @@ export class MeetingsService {
     });
   }
 
-  private async saveAudioFile(audioFile: Express.Multer.File): Promise<string> {
-    // Save to local storage or cloud storage (S3, etc.)
-    // Return the URL/path to the saved file
-    const filename = `audio_${Date.now()}_${audioFile.originalname}`;
-    // Implementation depends on your storage solution
-    return `/uploads/audio/${filename}`;
+  async getMeeting(id: string): Promise<MeetingRecord> {
+    const record = await this.prisma.meetingRecord.findUnique({
+      where: { id },
+      include: {
+        group: true,
+        encounters: true,
+      },
+    });
+
+    if (!record) {
+      throw new NotFoundException({
+        code: ErrorCodes.RECORD_NOT_FOUND,
+        message: `Meeting record ${id} not found`,
+      });
+    }
+    return this.formatMeetingRecord(record);
   }
 
-  private async updateDailyStatistics(date: string): Promise<void> {
+  async getAudioObject(
+    id: string,
+    variant: AudioVariant = AudioVariant.ORIGINAL
+  ): Promise<{ key: string; mimeType: string }> {
+    const record = await this.prisma.meetingRecord.findUnique({
+      where: { id },
+      select: {
+        audioStorageKey: true,
+        audioMimeType: true,
+        normalizedAudioKey: true,
+        normalizedAudioMimeType: true,
+      },
+    });
+
+    const [key, mimeType] =
+      variant === AudioVariant.NORMALIZED
+        ? [record?.normalizedAudioKey, record?.normalizedAudioMimeType]
+        : [record?.audioStorageKey, record?.audioMimeType];
+
+    if (!key) {
+      throw new NotFoundException({
+        code: ErrorCodes.RECORD_NOT_FOUND,
+        message: `No ${variant} audio stored for meeting record ${id}`,
+      });
+    }
+
+    return { key, mimeType: mimeType ?? "application/octet-stream" };
+  }
+
+  /**
+   * Prefers the duration measured from the audio itself; the client's timer
+   * is only used when there is no audio or its container has no duration.
+   */
+  private resolveRecordingDuration(
+    clientDuration: string,
+    verifiedAudio: VerifiedAudio | null
+  ): string {
+    if (verifiedAudio?.durationMs == null) {
+      if (verifiedAudio) {
+        this.logger.warn(
+          `Could not measure ${verifiedAudio.mimeType} duration, using client value ${clientDuration}`
+        );
+      }
+      return clientDuration;
+    }
+
+    const totalSeconds = Math.round(verifiedAudio.durationMs / 1000);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${minutes.toString().padStart(2, "0")}:${seconds
+      .toString()
+      .padStart(2, "0")}`;
+  }
+
+  private async updateDailyStatistics(
+    date: string,
+    meetings: number
+  ): Promise<void> {
     const dateObj = new Date(date);
 
+    // Average over measured durations only, in seconds
+    const { _avg } = await this.prisma.meetingRecord.aggregate({
+      where: { recordingDate: dateObj, audioDurationMs: { not: null } },
+      _avg: { audioDurationMs: true },
+    });
+    const averageDuration = (_avg.audioDurationMs ?? 0) / 1000;
+
+    const [groups, speakers] = await Promise.all([
+      this.prisma.meetingRecord.findMany({
+        where: { recordingDate: dateObj },
+        select: { groupNumber: true },
+        distinct: ["groupNumber"],
+      }),
+      this.prisma.meetingRecord.findMany({
+        where: { recordingDate: dateObj },
+        select: { speakerName: true },
+        distinct: ["speakerName"],
+      }),
+    ]);
+
     await this.prisma.dailyStats.upsert({
       where: { date: dateObj },
       update: {
         totalRecordings: { increment: 1 },
+        totalMeetings: { increment: meetings },
         successfulRecordings: { increment: 1 },
+        uniqueGroups: groups.length,
+        uniqueSpeakers: speakers.length,
+        averageDuration,
       },
       create: {
         date: dateObj,
         totalRecordings: 1,
+        totalMeetings: meetings,
         successfulRecordings: 1,
         failedRecordings: 0,
-        uniqueGroups: 1,
-        uniqueSpeakers: 1,
-        averageDuration: 0,
+        uniqueGroups: groups.length,
+        uniqueSpeakers: speakers.length,
+        averageDuration,
       },
     });
   }
 
+  /** Counts a submission rejected for its format; never fails the request */
+  private async recordFailedSubmission(): Promise<void> {
+    const date = new Date(this.dateUtils.getCurrentDateData().recordingDate);
+
+    await this.prisma.dailyStats
+      .upsert({
+        where: { date },
+        update: {
+          totalRecordings: { increment: 1 },
+          failedRecordings: { increment: 1 },
+        },
+        create: {
+          date,
+          totalRecordings: 1,
+          failedRecordings: 1,
+        },
+      })
+      .catch((error) =>
+        this.logger.warn("Could not record failed submission", error)
+      );
+  }
+
+  /** Filters of GET /meetings, shared by the export */
+  private buildMeetingsWhere(
+    query: Omit<GetMeetingsQueryDto, "page" | "limit">
+  ): Prisma.MeetingRecordWhereInput {
+    const { groupNumber, speakerName, startDate, endDate, status, entryMode } =
+      query;
+    const where: Prisma.MeetingRecordWhereInput = {};
+
+    if (groupNumber) where.groupNumber = groupNumber;
+    if (speakerName)
+      where.speakerName = { contains: speakerName, mode: "insensitive" };
+    if (status) where.status = status;
+    if (entryMode) where.entryMode = entryMode;
+
+    // Date filtering (MOST IMPORTANT for queries)
+    if (startDate || endDate) {
+      where.recordingDate = {
+        ...(startDate && { gte: new Date(startDate) }),
+        ...(endDate && { lte: new Date(endDate) }),
+      };
+    }
+
+    return where;
+  }
+
   private formatMeetingRecord(record: any): MeetingRecord {
     return {
       id: record.id,
@@ -475,8 +992,20 @@ export class MeetingsService {
       groupNumber: record.groupNumber,
       personMet: record.personMet,
       location: record.location,
+      encounters: record.encounters?.length
+        ? [...record.encounters]
+            .sort((a: any, b: any) => a.position - b.position)
+            .map((encounter: any) => ({
+              personMet: encounter.personMet,
+              location: encounter.location,
+            }))
+        : [{ personMet: record.personMet, location: record.location }],
+      extraFields: record.extraFields ?? undefined,
+      language: record.language,
+      entryMode: record.entryMode,
       fullTranscription: record.fullTranscription,
       recordingDuration: record.recordingDuration,
+      audioDurationMs: record.audioDurationMs ?? undefined,
       year: record.year,
       month: record.month,
       day: record.day,
@@ -484,7 +1013,14 @@ export class MeetingsService {
       status: record.status,
       processingStatus: record.processingStatus,
       validationScore: record.validationScore,
-      audioFileUrl: record.audioFileUrl,
+      // Served through GET /meetings/:id/audio so storage stays private
+      audioFileUrl: record.audioStorageKey
+        ? `/meetings/${record.id}/audio`
+        : record.audioFileUrl,
+      normalizedAudioUrl: record.normalizedAudioKey
+        ? `/meetings/${record.id}/audio?variant=${AudioVariant.NORMALIZED}`
+        : undefined,
+      normalizedAudioDurationMs: record.normalizedAudioDurationMs ?? undefined,
       googleSheetsRowId: record.googleSheetsRowId,
       syncedToSheets: record.syncedToSheets,
       sheetsLastSync: record.sheetsLastSync?.toISOString(),
@@ -0,0 +1,115 @@
+// apps/api/src/modules/storage/backends/s3-storage.backend.ts
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  NotFound,
+  PutObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import * as fs from "fs";
+import { Readable } from "stream";
+import {
+  ByteRange,
+  StorageBackend,
+  StoredObjectInfo,
+} from "./storage-backend.interface";
+
+export interface S3StorageOptions {
+  bucket: string;
+  region: string;
+  endpoint?: string; // Set for MinIO and other S3-compatible stores
+  forcePathStyle: boolean;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+}
+
+export class S3StorageBackend implements StorageBackend {
+  readonly driver = "s3";
+  private readonly client: S3Client;
+
+  constructor(private readonly options: S3StorageOptions) {
+    this.client = new S3Client({
+      region: options.region,
+      endpoint: options.endpoint || undefined,
+      forcePathStyle: options.forcePathStyle,
+      credentials:
+        options.accessKeyId && options.secretAccessKey
+          ? {
+              accessKeyId: options.accessKeyId,
+              secretAccessKey: options.secretAccessKey,
+            }
+          : undefined,
+    });
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.options.bucket,
+        Key: key,
+        Body: body,
+        ContentType: contentType,
+      })
+    );
+  }
+
+  /** Uploads a local file without reading it into memory */
+  async putFile(key: string, path: string, contentType: string): Promise<void> {
+    const { size } = await fs.promises.stat(path);
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.options.bucket,
+        Key: key,
+        Body: fs.createReadStream(path),
+        ContentLength: size,
+        ContentType: contentType,
+      })
+    );
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const response = await this.client.send(
+      new GetObjectCommand({ Bucket: this.options.bucket, Key: key })
+    );
+    return Buffer.from(await response.Body!.transformToByteArray());
+  }
+
+  async stat(key: string): Promise<StoredObjectInfo | null> {
+    try {
+      const response = await this.client.send(
+        new HeadObjectCommand({ Bucket: this.options.bucket, Key: key })
+      );
+      return { key, size: response.ContentLength ?? 0 };
+    } catch (error) {
+      if (error instanceof NotFound) return null;
+      throw error;
+    }
+  }
+
+  async createReadStream(key: string, range?: ByteRange): Promise<Readable> {
+    const response = await this.client.send(
+      new GetObjectCommand({
+        Bucket: this.options.bucket,
+        Key: key,
+        Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+      })
+    );
+    return response.Body as Readable;
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(
+      new DeleteObjectCommand({ Bucket: this.options.bucket, Key: key })
+    );
+  }
+
+  async getSignedUrl(key: string, expiresInSeconds: number): Promise<string> {
+    return getSignedUrl(
+      this.client,
+      new GetObjectCommand({ Bucket: this.options.bucket, Key: key }),
+      { expiresIn: expiresInSeconds }
+    );
+  }
+}
@@ -0,0 +1,28 @@
+// apps/api/src/modules/storage/backends/storage-backend.interface.ts
+import { Readable } from "stream";
+
+export const STORAGE_BACKEND = Symbol("STORAGE_BACKEND");
+
+/** Inclusive byte range, as in an HTTP Range header */
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+export interface StoredObjectInfo {
+  key: string;
+  size: number;
+}
+
+export interface StorageBackend {
+  readonly driver: string;
+
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  /** Returns null when the object does not exist */
+  stat(key: string): Promise<StoredObjectInfo | null>;
+  createReadStream(key: string, range?: ByteRange): Promise<Readable>;
+  delete(key: string): Promise<void>;
+  /** Time-limited URL the browser can fetch without further auth */
+  getSignedUrl(key: string, expiresInSeconds: number): Promise<string>;
+}
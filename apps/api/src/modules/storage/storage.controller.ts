@@ -0,0 +1,54 @@
+// apps/api/src/modules/storage/storage.controller.ts
+import {
+  Controller,
+  ForbiddenException,
+  Get,
+  Headers,
+  Param,
+  Query,
+  Res,
+} from "@nestjs/common";
+import { ApiExcludeController } from "@nestjs/swagger";
+import { Response } from "express";
+import { StorageService } from "./storage.service";
+import { ErrorCodes } from "@packages/shared/types";
+
+const CONTENT_TYPES: Record<string, string> = {
+  webm: "audio/webm",
+  ogg: "audio/ogg",
+  wav: "audio/wav",
+  mp3: "audio/mpeg",
+  m4a: "audio/mp4",
+  flac: "audio/flac",
+};
+
+/** Serves signed URLs issued by the local storage backend */
+@ApiExcludeController()
+@Controller("storage")
+export class StorageController {
+  constructor(private readonly storageService: StorageService) {}
+
+  @Get("*")
+  async getObject(
+    @Param("0") key: string,
+    @Query("expires") expires: string,
+    @Query("signature") signature: string,
+    @Headers("range") range: string | undefined,
+    @Res() res: Response
+  ): Promise<void> {
+    if (!this.storageService.verifySignedUrl(key, Number(expires), signature)) {
+      throw new ForbiddenException({
+        code: ErrorCodes.INVALID_SIGNED_URL,
+        message: "This link is invalid or has expired",
+      });
+    }
+
+    const extension = key.split(".").pop() ?? "";
+    await this.storageService.sendObject(
+      res,
+      key,
+      CONTENT_TYPES[extension] ?? "application/octet-stream",
+      range
+    );
+  }
+}
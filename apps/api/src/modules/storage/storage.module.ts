@@ -0,0 +1,35 @@
+// apps/api/src/modules/storage/storage.module.ts
+import { Module } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { StorageController } from "./storage.controller";
+import { StorageService } from "./storage.service";
+import {
+  STORAGE_BACKEND,
+  StorageBackend,
+} from "./backends/storage-backend.interface";
+import { LocalStorageBackend } from "./backends/local-storage.backend";
+import { S3StorageBackend } from "./backends/s3-storage.backend";
+
+@Module({
+  controllers: [StorageController],
+  providers: [
+    {
+      provide: STORAGE_BACKEND,
+      useFactory: (configService: ConfigService): StorageBackend => {
+        if (configService.get<string>("storage.driver") === "s3") {
+          return new S3StorageBackend(configService.get("storage.s3")!);
+        }
+
+        return new LocalStorageBackend({
+          rootDir: configService.get<string>("uploads.dir", "./uploads"),
+          publicBaseUrl: configService.get<string>("storage.publicBaseUrl")!,
+          signingSecret: configService.get<string>("storage.signingSecret")!,
+        });
+      },
+      inject: [ConfigService],
+    },
+    StorageService,
+  ],
+  exports: [StorageService],
+})
+export class StorageModule {}
@@ -0,0 +1,167 @@
+// apps/api/src/modules/storage/storage.service.ts
+import { Inject, Injectable, Logger, NotFoundException } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { createHash } from "crypto";
+import { Response } from "express";
+import { ErrorCodes } from "@packages/shared/types";
+import {
+  ByteRange,
+  STORAGE_BACKEND,
+  StorageBackend,
+} from "./backends/storage-backend.interface";
+import { LocalStorageBackend } from "./backends/local-storage.backend";
+
+const EXTENSIONS: Record<string, string> = {
+  "audio/webm": "webm",
+  "audio/ogg": "ogg",
+  "audio/wav": "wav",
+  "audio/x-wav": "wav",
+  "audio/mpeg": "mp3",
+  "audio/mp3": "mp3",
+  "audio/mp4": "m4a",
+  "audio/x-m4a": "m4a",
+  "audio/flac": "flac",
+};
+
+export interface StoredAudio {
+  key: string;
+  sha256: string;
+  size: number;
+  mimeType: string;
+}
+
+@Injectable()
+export class StorageService {
+  private readonly logger = new Logger(StorageService.name);
+
+  constructor(
+    @Inject(STORAGE_BACKEND) private readonly backend: StorageBackend,
+    private readonly configService: ConfigService
+  ) {}
+
+  /**
+   * Stores audio under a content-addressed key (audio/ab/<sha256>.<ext>), so
+   * re-uploads of identical bytes are deduplicated.
+   */
+  async storeAudio(body: Buffer, mimeType: string): Promise<StoredAudio> {
+    const sha256 = createHash("sha256").update(body).digest("hex");
+    const baseType = mimeType.split(";")[0].trim().toLowerCase();
+    const key = `audio/${sha256.slice(0, 2)}/${sha256}.${
+      EXTENSIONS[baseType] ?? "bin"
+    }`;
+
+    if (!(await this.backend.stat(key))) {
+      await this.backend.put(key, body, baseType);
+      this.logger.log(`Stored ${body.length} bytes at ${key}`);
+    }
+
+    return { key, sha256, size: body.length, mimeType: baseType };
+  }
+
+  get(key: string): Promise<Buffer> {
+    return this.backend.get(key);
+  }
+
+  put(key: string, body: Buffer, contentType: string): Promise<void> {
+    return this.backend.put(key, body, contentType);
+  }
+
+  delete(key: string): Promise<void> {
+    return this.backend.delete(key);
+  }
+
+  async getSignedUrl(key: string): Promise<{ url: string; expiresAt: string }> {
+    const ttl = this.configService.get<number>(
+      "storage.signedUrlTtlSeconds",
+      300
+    );
+
+    return {
+      url: await this.backend.getSignedUrl(key, ttl),
+      expiresAt: new Date(Date.now() + ttl * 1000).toISOString(),
+    };
+  }
+
+  /** Only meaningful for the local backend; S3 verifies its own signatures */
+  verifySignedUrl(key: string, expires: number, signature: string): boolean {
+    return (
+      this.backend instanceof LocalStorageBackend &&
+      this.backend.verifySignature(key, expires, signature)
+    );
+  }
+
+  /**
+   * Streams an object to the response, honouring a single-range HTTP Range
+   * header so browsers can seek within audio.
+   */
+  async sendObject(
+    res: Response,
+    key: string,
+    contentType: string,
+    rangeHeader?: string
+  ): Promise<void> {
+    const info = await this.backend.stat(key);
+    if (!info) {
+      throw new NotFoundException({
+        code: ErrorCodes.RECORD_NOT_FOUND,
+        message: "Audio file not found",
+      });
+    }
+
+    res.setHeader("Accept-Ranges", "bytes");
+    res.setHeader("Content-Type", contentType);
+    res.setHeader("Cache-Control", "private, max-age=3600");
+    // The web app is served from a different origin than the API
+    res.setHeader("Cross-Origin-Resource-Policy", "cross-origin");
+
+    let range: ByteRange | undefined;
+    if (rangeHeader) {
+      const parsed = parseRange(rangeHeader, info.size);
+      if (!parsed) {
+        res.status(416).setHeader("Content-Range", `bytes */${info.size}`);
+        res.end();
+        return;
+      }
+      range = parsed;
+      res.status(206);
+      res.setHeader(
+        "Content-Range",
+        `bytes ${range.start}-${range.end}/${info.size}`
+      );
+      res.setHeader("Content-Length", range.end - range.start + 1);
+    } else {
+      res.status(200);
+      res.setHeader("Content-Length", info.size);
+    }
+
+    const stream = await this.backend.createReadStream(key, range);
+    stream.on("error", (error) => {
+      this.logger.error(`Failed to stream ${key}`, error);
+      res.destroy(error);
+    });
+    stream.pipe(res);
+  }
+}
+
+/**
+ * Parses "bytes=start-end", "bytes=start-" and "bytes=-suffix". Multi-range
+ * requests are not supported and, like unsatisfiable ranges, yield null.
+ */
+export function parseRange(header: string, size: number): ByteRange | null {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match || (!match[1] && !match[2]) || size === 0) return null;
+
+  let start: number;
+  let end: number;
+
+  if (!match[1]) {
+    const suffix = parseInt(match[2], 10);
+    start = Math.max(0, size - suffix);
+    end = size - 1;
+  } else {
+    start = parseInt(match[1], 10);
+    end = match[2] ? Math.min(parseInt(match[2], 10), size - 1) : size - 1;
+  }
+
+  return start <= end && start < size ? { start, end } : null;
+}
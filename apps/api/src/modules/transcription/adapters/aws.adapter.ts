@@ -0,0 +1,209 @@
+// apps/api/src/modules/transcription/adapters/aws.adapter.ts
+import { Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { randomUUID } from "crypto";
+import {
+  DeleteObjectCommand,
+  PutObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
+import {
+  DeleteTranscriptionJobCommand,
+  GetTranscriptionJobCommand,
+  LanguageCode,
+  MediaFormat,
+  StartTranscriptionJobCommand,
+  TranscribeClient,
+} from "@aws-sdk/client-transcribe";
+import { ErrorCodes, TranscriptionProvider } from "@packages/shared/types";
+import {
+  TranscriptionAdapter,
+  TranscriptionAdapterOptions,
+  TranscriptionAudio,
+  TranscriptionProviderError,
+  assertProviderResponse,
+  baseMimeType,
+  toLocaleCode,
+} from "./transcription-adapter.interface";
+
+const MEDIA_FORMATS: Record<string, MediaFormat> = {
+  "audio/webm": MediaFormat.WEBM,
+  "audio/ogg": MediaFormat.OGG,
+  "audio/wav": MediaFormat.WAV,
+  "audio/x-wav": MediaFormat.WAV,
+  "audio/mpeg": MediaFormat.MP3,
+  "audio/mp3": MediaFormat.MP3,
+  "audio/mp4": MediaFormat.MP4,
+  "audio/x-m4a": MediaFormat.MP4,
+  "audio/flac": MediaFormat.FLAC,
+};
+
+const LANGUAGE_CODES = new Set<string>(Object.values(LanguageCode));
+
+/** The SDK's code for a language, or null if Transcribe does not offer it */
+function toLanguageCode(language: string): LanguageCode | null {
+  const code = toLocaleCode(language);
+  return isLanguageCode(code) ? code : null;
+}
+
+function isLanguageCode(code: string): code is LanguageCode {
+  return LANGUAGE_CODES.has(code);
+}
+
+interface AwsTranscriptDocument {
+  results: {
+    transcripts: Array<{ transcript: string }>;
+    items: Array<{ type: string; alternatives: Array<{ confidence: string }> }>;
+  };
+}
+
+/**
+ * AWS Transcribe only offers batch jobs for stored media, so audio is staged
+ * in a scratch S3 bucket, transcribed, and both objects are removed afterwards.
+ */
+@Injectable()
+export class AwsTranscriptionAdapter implements TranscriptionAdapter {
+  readonly provider = TranscriptionProvider.AWS;
+  private readonly logger = new Logger(AwsTranscriptionAdapter.name);
+
+  constructor(private readonly configService: ConfigService) {}
+
+  isConfigured(): boolean {
+    return !!this.configService.get<string>("transcription.aws.bucket");
+  }
+
+  async transcribe(
+    audio: TranscriptionAudio,
+    options: TranscriptionAdapterOptions
+  ) {
+    const mediaFormat = MEDIA_FORMATS[baseMimeType(audio.mimeType)];
+    if (!mediaFormat) {
+      throw new TranscriptionProviderError(
+        `AWS Transcribe does not support ${audio.mimeType}`,
+        ErrorCodes.INVALID_AUDIO_FORMAT,
+        false
+      );
+    }
+
+    const languageCode = toLanguageCode(options.language);
+    if (!languageCode) {
+      throw new TranscriptionProviderError(
+        `AWS Transcribe does not support ${options.language}`,
+        ErrorCodes.TRANSCRIPTION_FAILED,
+        false
+      );
+    }
+
+    const clientConfig = this.getClientConfig();
+    const s3 = new S3Client(clientConfig);
+    const transcribe = new TranscribeClient(clientConfig);
+    const bucket = this.configService.get<string>("transcription.aws.bucket")!;
+    const jobName = `voice-${randomUUID()}`;
+    const key = `transcribe-staging/${jobName}.${mediaFormat}`;
+
+    await s3.send(
+      new PutObjectCommand({
+        Bucket: bucket,
+        Key: key,
+        Body: audio.buffer,
+        ContentType: audio.mimeType,
+      })
+    );
+
+    try {
+      await transcribe.send(
+        new StartTranscriptionJobCommand({
+          TranscriptionJobName: jobName,
+          LanguageCode: languageCode,
+          MediaFormat: mediaFormat,
+          Media: { MediaFileUri: `s3://${bucket}/${key}` },
+        })
+      );
+
+      const transcriptUri = await this.waitForJob(
+        transcribe,
+        jobName,
+        options.signal
+      );
+      const response = await fetch(transcriptUri, { signal: options.signal });
+      await assertProviderResponse(response, this.provider);
+      const document = (await response.json()) as AwsTranscriptDocument;
+
+      const confidences = document.results.items
+        .filter((item) => item.type === "pronunciation")
+        .map((item) => parseFloat(item.alternatives[0]?.confidence ?? "0"));
+
+      return {
+        text: document.results.transcripts
+          .map((t) => t.transcript)
+          .join(" ")
+          .trim(),
+        confidence: confidences.length
+          ? confidences.reduce((sum, c) => sum + c, 0) / confidences.length
+          : 0,
+      };
+    } finally {
+      await Promise.all([
+        s3.send(new DeleteObjectCommand({ Bucket: bucket, Key: key })),
+        transcribe.send(
+          new DeleteTranscriptionJobCommand({ TranscriptionJobName: jobName })
+        ),
+      ]).catch((error) =>
+        this.logger.warn(`Failed to clean up AWS job ${jobName}`, error)
+      );
+    }
+  }
+
+  private async waitForJob(
+    client: TranscribeClient,
+    jobName: string,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const pollInterval = this.configService.get<number>(
+      "transcription.aws.pollIntervalMs",
+      2000
+    );
+
+    while (!signal?.aborted) {
+      const { TranscriptionJob: job } = await client.send(
+        new GetTranscriptionJobCommand({ TranscriptionJobName: jobName })
+      );
+
+      if (job?.TranscriptionJobStatus === "COMPLETED") {
+        return job.Transcript!.TranscriptFileUri!;
+      }
+      if (job?.TranscriptionJobStatus === "FAILED") {
+        throw new TranscriptionProviderError(
+          `AWS Transcribe job failed: ${job.FailureReason ?? "unknown reason"}`,
+          ErrorCodes.TRANSCRIPTION_FAILED,
+          false
+        );
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, pollInterval));
+    }
+
+    throw new TranscriptionProviderError(
+      "AWS Transcribe job aborted",
+      ErrorCodes.TRANSCRIPTION_TIMEOUT
+    );
+  }
+
+  private getClientConfig() {
+    const accessKeyId = this.configService.get<string>(
+      "transcription.aws.accessKeyId"
+    );
+    const secretAccessKey = this.configService.get<string>(
+      "transcription.aws.secretAccessKey"
+    );
+
+    return {
+      region: this.configService.get<string>("transcription.aws.region"),
+      // Fall back to the default provider chain (instance role, profile, ...)
+      credentials:
+        accessKeyId && secretAccessKey
+          ? { accessKeyId, secretAccessKey }
+          : undefined,
+    };
+  }
+}
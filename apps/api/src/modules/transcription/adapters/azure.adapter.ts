@@ -0,0 +1,89 @@
+// apps/api/src/modules/transcription/adapters/azure.adapter.ts
+import { Injectable } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { ErrorCodes, TranscriptionProvider } from "@packages/shared/types";
+import {
+  TranscriptionAdapter,
+  TranscriptionAdapterOptions,
+  TranscriptionAudio,
+  TranscriptionProviderError,
+  assertProviderResponse,
+  baseMimeType,
+  toLocaleCode,
+} from "./transcription-adapter.interface";
+
+// The short-audio REST API only accepts PCM WAV and Ogg/Opus
+const CONTENT_TYPES: Record<string, string> = {
+  "audio/wav": "audio/wav; codecs=audio/pcm",
+  "audio/x-wav": "audio/wav; codecs=audio/pcm",
+  "audio/ogg": "audio/ogg; codecs=opus",
+};
+
+interface AzureRecognitionResponse {
+  RecognitionStatus: string;
+  DisplayText?: string;
+  NBest?: Array<{ Confidence: number; Display: string }>;
+}
+
+@Injectable()
+export class AzureTranscriptionAdapter implements TranscriptionAdapter {
+  readonly provider = TranscriptionProvider.AZURE;
+
+  constructor(private readonly configService: ConfigService) {}
+
+  isConfigured(): boolean {
+    return (
+      !!this.configService.get<string>("transcription.azure.apiKey") &&
+      !!this.configService.get<string>("transcription.azure.region")
+    );
+  }
+
+  async transcribe(
+    audio: TranscriptionAudio,
+    options: TranscriptionAdapterOptions
+  ) {
+    const contentType = CONTENT_TYPES[baseMimeType(audio.mimeType)];
+    if (!contentType) {
+      throw new TranscriptionProviderError(
+        `Azure Speech does not support ${audio.mimeType}`,
+        ErrorCodes.INVALID_AUDIO_FORMAT,
+        false
+      );
+    }
+
+    const region = this.configService.get<string>("transcription.azure.region");
+    const url =
+      `https://${region}.stt.speech.microsoft.com/speech/recognition/conversation/cognitiveservices/v1` +
+      `?language=${encodeURIComponent(toLocaleCode(options.language))}&format=detailed`;
+
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Ocp-Apim-Subscription-Key":
+          this.configService.get<string>("transcription.azure.apiKey") ?? "",
+        "Content-Type": contentType,
+        Accept: "application/json",
+      },
+      body: audio.buffer,
+      signal: options.signal,
+    });
+    await assertProviderResponse(response, this.provider);
+
+    const data = (await response.json()) as AzureRecognitionResponse;
+
+    if (data.RecognitionStatus === "NoMatch") {
+      return { text: "", confidence: 0 };
+    }
+    if (data.RecognitionStatus !== "Success") {
+      throw new TranscriptionProviderError(
+        `Azure recognition failed with status ${data.RecognitionStatus}`
+      );
+    }
+
+    const best = data.NBest?.[0];
+    return {
+      text: (best?.Display ?? data.DisplayText ?? "").trim(),
+      confidence: best?.Confidence ?? 0,
+    };
+  }
+}
@@ -0,0 +1,73 @@
+// apps/api/src/modules/transcription/adapters/fixture.adapter.ts
+import { Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { createHash } from "crypto";
+import { readFileSync } from "fs";
+import { TranscriptionProvider } from "@packages/shared/types";
+import {
+  TranscriptionAdapter,
+  TranscriptionAudio,
+} from "./transcription-adapter.interface";
+
+const FIXTURE_TRANSCRIPTIONS = [
+  "My name is John Smith and I belong to group 5 and today I met Sarah Johnson at the coffee shop.",
+  "My name is Maria Garcia and I belong to group 12 and today I met David Wilson at the library.",
+  "My name is Alex Chen and I belong to group 3 and today I met Emma Brown at the park.",
+  "My name is Michael Davis and I belong to group 8 and today I met Lisa Anderson at the office.",
+  "My name is Jennifer Taylor and I belong to group 1 and today I met Robert Martinez at the restaurant.",
+  "My name is Amy Rodriguez and I belong to group 7 and today I met Kevin Lee at the university.",
+  "My name is Robert Johnson and I belong to group 15 and today I met Michelle Wong at the gym.",
+  "My name is Lisa Zhang and I belong to group 4 and today I met James Miller at the bookstore.",
+];
+
+/**
+ * Offline provider for development and tests. The same audio bytes always
+ * produce the same transcript: an explicit entry from the fixture file
+ * (keyed by sha256 of the audio or by file name), otherwise one of the
+ * built-in sentences picked by hash.
+ */
+@Injectable()
+export class FixtureTranscriptionAdapter implements TranscriptionAdapter {
+  readonly provider = TranscriptionProvider.FIXTURE;
+  private readonly logger = new Logger(FixtureTranscriptionAdapter.name);
+  private fixtures: Record<string, string> | null = null;
+
+  constructor(private readonly configService: ConfigService) {}
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async transcribe(audio: TranscriptionAudio) {
+    const digest = createHash("sha256").update(audio.buffer).digest("hex");
+    const fixtures = this.loadFixtures();
+
+    const text =
+      fixtures[digest] ??
+      fixtures[audio.filename] ??
+      FIXTURE_TRANSCRIPTIONS[
+        parseInt(digest.slice(0, 8), 16) % FIXTURE_TRANSCRIPTIONS.length
+      ];
+
+    return { text, confidence: 1 };
+  }
+
+  private loadFixtures(): Record<string, string> {
+    if (this.fixtures) return this.fixtures;
+
+    const path = this.configService.get<string>(
+      "transcription.fixture.transcriptsPath"
+    );
+    this.fixtures = {};
+
+    if (path) {
+      try {
+        this.fixtures = JSON.parse(readFileSync(path, "utf8"));
+      } catch (error) {
+        this.logger.warn(`Could not read transcription fixtures from ${path}`);
+      }
+    }
+
+    return this.fixtures!;
+  }
+}
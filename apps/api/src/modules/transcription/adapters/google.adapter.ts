@@ -0,0 +1,100 @@
+// apps/api/src/modules/transcription/adapters/google.adapter.ts
+import { Injectable } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { ErrorCodes, TranscriptionProvider } from "@packages/shared/types";
+import {
+  TranscriptionAdapter,
+  TranscriptionAdapterOptions,
+  TranscriptionAudio,
+  TranscriptionProviderError,
+  assertProviderResponse,
+  baseMimeType,
+  toLocaleCode,
+} from "./transcription-adapter.interface";
+
+// v1p1beta1 is the only synchronous endpoint that accepts MP3
+const GOOGLE_SPEECH_URL =
+  "https://speech.googleapis.com/v1p1beta1/speech:recognize";
+
+const ENCODINGS: Record<
+  string,
+  { encoding: string; sampleRateHertz?: number }
+> = {
+  "audio/webm": { encoding: "WEBM_OPUS", sampleRateHertz: 48000 },
+  "audio/ogg": { encoding: "OGG_OPUS", sampleRateHertz: 48000 },
+  "audio/wav": { encoding: "LINEAR16" }, // Sample rate read from header
+  "audio/x-wav": { encoding: "LINEAR16" },
+  "audio/flac": { encoding: "FLAC" },
+  "audio/mpeg": { encoding: "MP3", sampleRateHertz: 44100 },
+  "audio/mp3": { encoding: "MP3", sampleRateHertz: 44100 },
+};
+
+interface GoogleRecognizeResponse {
+  results?: Array<{
+    alternatives?: Array<{ transcript?: string; confidence?: number }>;
+  }>;
+}
+
+@Injectable()
+export class GoogleTranscriptionAdapter implements TranscriptionAdapter {
+  readonly provider = TranscriptionProvider.GOOGLE;
+
+  constructor(private readonly configService: ConfigService) {}
+
+  isConfigured(): boolean {
+    return !!this.configService.get<string>("transcription.google.apiKey");
+  }
+
+  async transcribe(
+    audio: TranscriptionAudio,
+    options: TranscriptionAdapterOptions
+  ) {
+    const encoding = ENCODINGS[baseMimeType(audio.mimeType)];
+    if (!encoding) {
+      throw new TranscriptionProviderError(
+        `Google Speech-to-Text does not support ${audio.mimeType}`,
+        ErrorCodes.INVALID_AUDIO_FORMAT,
+        false
+      );
+    }
+
+    const apiKey = this.configService.get<string>(
+      "transcription.google.apiKey"
+    );
+    const response = await fetch(
+      `${GOOGLE_SPEECH_URL}?key=${encodeURIComponent(apiKey ?? "")}`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          config: {
+            ...encoding,
+            languageCode: toLocaleCode(options.language),
+            enableAutomaticPunctuation: true,
+          },
+          audio: { content: audio.buffer.toString("base64") },
+        }),
+        signal: options.signal,
+      }
+    );
+    await assertProviderResponse(response, this.provider);
+
+    const data = (await response.json()) as GoogleRecognizeResponse;
+    const alternatives = (data.results ?? [])
+      .map((result) => result.alternatives?.[0])
+      .filter((alt): alt is { transcript?: string; confidence?: number } =>
+        Boolean(alt?.transcript)
+      );
+
+    return {
+      text: alternatives
+        .map((alt) => alt.transcript!.trim())
+        .join(" ")
+        .trim(),
+      confidence: alternatives.length
+        ? alternatives.reduce((sum, alt) => sum + (alt.confidence ?? 0), 0) /
+          alternatives.length
+        : 0,
+    };
+  }
+}
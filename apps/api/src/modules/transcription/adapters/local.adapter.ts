@@ -0,0 +1,145 @@
+// apps/api/src/modules/transcription/adapters/local.adapter.ts
+import { Injectable } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { existsSync } from "fs";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ErrorCodes, TranscriptionProvider } from "@packages/shared/types";
+import {
+  TranscriptionAdapter,
+  TranscriptionAdapterOptions,
+  TranscriptionAudio,
+  TranscriptionProviderError,
+} from "./transcription-adapter.interface";
+import { CommandError, runCommand } from "@/common/utils/process.util";
+
+interface WhisperCppOutput {
+  transcription: Array<{
+    text: string;
+    tokens?: Array<{ text: string; p: number }>;
+  }>;
+}
+
+/**
+ * CPU-only transcription with whisper.cpp, for air-gapped deployments.
+ * Audio is converted to the 16 kHz mono PCM WAV whisper.cpp expects, then
+ * the CLI is run with full JSON output so token probabilities can be
+ * averaged into a confidence score.
+ */
+@Injectable()
+export class LocalTranscriptionAdapter implements TranscriptionAdapter {
+  readonly provider = TranscriptionProvider.LOCAL;
+
+  constructor(private readonly configService: ConfigService) {}
+
+  isConfigured(): boolean {
+    const modelPath = this.configService.get<string>(
+      "transcription.local.modelPath"
+    );
+    return !!modelPath && existsSync(modelPath);
+  }
+
+  async transcribe(
+    audio: TranscriptionAudio,
+    options: TranscriptionAdapterOptions
+  ) {
+    const workDir = await mkdtemp(join(tmpdir(), "local-stt-"));
+
+    try {
+      const inputPath = join(workDir, "input");
+      const wavPath = join(workDir, "audio.wav");
+      const outputBase = join(workDir, "transcript");
+
+      await writeFile(inputPath, audio.buffer);
+
+      await this.run(
+        this.configService.get<string>(
+          "transcription.local.ffmpegPath",
+          "ffmpeg"
+        ),
+        [
+          "-nostdin",
+          "-y",
+          "-i",
+          inputPath,
+          "-ar",
+          "16000",
+          "-ac",
+          "1",
+          "-c:a",
+          "pcm_s16le",
+          wavPath,
+        ],
+        options.signal
+      );
+
+      await this.run(
+        this.configService.get<string>(
+          "transcription.local.binaryPath",
+          "whisper-cli"
+        ),
+        [
+          "-m",
+          this.configService.get<string>("transcription.local.modelPath")!,
+          "-f",
+          wavPath,
+          "-l",
+          options.language.split("-")[0],
+          "-t",
+          String(
+            this.configService.get<number>("transcription.local.threads", 4)
+          ),
+          "-ojf", // Full JSON, including per-token probabilities
+          "-of",
+          outputBase,
+          "-np",
+        ],
+        options.signal
+      );
+
+      const output = JSON.parse(
+        await readFile(`${outputBase}.json`, "utf8")
+      ) as WhisperCppOutput;
+
+      // Special tokens such as [_BEG_] carry no meaningful probability
+      const probabilities = output.transcription
+        .flatMap((segment) => segment.tokens ?? [])
+        .filter((token) => !token.text.startsWith("[_"))
+        .map((token) => token.p);
+
+      return {
+        text: output.transcription
+          .map((segment) => segment.text.trim())
+          .join(" ")
+          .trim(),
+        confidence: probabilities.length
+          ? probabilities.reduce((sum, p) => sum + p, 0) / probabilities.length
+          : 0,
+      };
+    } finally {
+      await rm(workDir, { recursive: true, force: true });
+    }
+  }
+
+  private async run(
+    command: string,
+    args: string[],
+    signal?: AbortSignal
+  ): Promise<void> {
+    try {
+      await runCommand(command, args, { signal });
+    } catch (error) {
+      if (error instanceof CommandError) {
+        throw new TranscriptionProviderError(
+          error.message,
+          error.isMissingBinary
+            ? ErrorCodes.SERVICE_UNAVAILABLE
+            : ErrorCodes.TRANSCRIPTION_FAILED,
+          false
+        );
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,91 @@
+// apps/api/src/modules/transcription/adapters/openai.adapter.ts
+import { Injectable } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import OpenAI, { toFile } from "openai";
+import { ErrorCodes, TranscriptionProvider } from "@packages/shared/types";
+import {
+  TranscriptionAdapter,
+  TranscriptionAdapterOptions,
+  TranscriptionAudio,
+  TranscriptionProviderError,
+} from "./transcription-adapter.interface";
+
+// Whisper list price in USD per audio minute
+const WHISPER_COST_PER_MINUTE = 0.006;
+
+interface WhisperVerboseResponse {
+  text: string;
+  duration?: number;
+  segments?: Array<{ avg_logprob: number }>;
+}
+
+@Injectable()
+export class OpenAiTranscriptionAdapter implements TranscriptionAdapter {
+  readonly provider = TranscriptionProvider.OPENAI;
+  private client: OpenAI | null = null;
+
+  constructor(private readonly configService: ConfigService) {}
+
+  isConfigured(): boolean {
+    return !!this.configService.get<string>("transcription.openai.apiKey");
+  }
+
+  async transcribe(
+    audio: TranscriptionAudio,
+    options: TranscriptionAdapterOptions
+  ) {
+    try {
+      const response = (await this.getClient().audio.transcriptions.create(
+        {
+          file: await toFile(audio.buffer, audio.filename, {
+            type: audio.mimeType,
+          }),
+          model: this.configService.get<string>(
+            "transcription.openai.model",
+            "whisper-1"
+          ),
+          language: options.language,
+          response_format: "verbose_json",
+        },
+        { signal: options.signal }
+      )) as unknown as WhisperVerboseResponse;
+
+      // Whisper does not return a confidence; derive one from segment log-probs
+      const segments = response.segments ?? [];
+      const confidence = segments.length
+        ? segments.reduce((sum, s) => sum + Math.exp(s.avg_logprob), 0) /
+          segments.length
+        : 0;
+
+      return {
+        text: response.text.trim(),
+        confidence: Math.min(1, Math.max(0, confidence)),
+        cost: response.duration
+          ? (response.duration / 60) * WHISPER_COST_PER_MINUTE
+          : undefined,
+      };
+    } catch (error) {
+      if (error instanceof OpenAI.APIError) {
+        throw new TranscriptionProviderError(
+          `OpenAI transcription failed: ${error.message}`,
+          error.status === 429
+            ? ErrorCodes.TRANSCRIPTION_QUOTA_EXCEEDED
+            : ErrorCodes.TRANSCRIPTION_FAILED,
+          error.status === undefined ||
+            error.status === 429 ||
+            error.status >= 500
+        );
+      }
+      throw error;
+    }
+  }
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      this.client = new OpenAI({
+        apiKey: this.configService.get<string>("transcription.openai.apiKey"),
+      });
+    }
+    return this.client;
+  }
+}
@@ -0,0 +1,83 @@
+// apps/api/src/modules/transcription/adapters/transcription-adapter.interface.ts
+import {
+  ErrorCodes,
+  TranscriptionProvider,
+  TranscriptionResult,
+} from "@packages/shared/types";
+
+export const TRANSCRIPTION_ADAPTERS = Symbol("TRANSCRIPTION_ADAPTERS");
+
+export interface TranscriptionAudio {
+  buffer: Buffer;
+  mimeType: string;
+  filename: string;
+}
+
+export interface TranscriptionAdapterOptions {
+  language: string;
+  signal?: AbortSignal;
+}
+
+/**
+ * A speech-to-text backend. Adapters only talk to their provider; timing,
+ * timeouts and error mapping are handled by TranscriptionService.
+ */
+export interface TranscriptionAdapter {
+  readonly provider: TranscriptionProvider;
+
+  /** Whether the credentials/config needed by this provider are present */
+  isConfigured(): boolean;
+
+  transcribe(
+    audio: TranscriptionAudio,
+    options: TranscriptionAdapterOptions
+  ): Promise<Omit<TranscriptionResult, "provider" | "processingTime">>;
+}
+
+export class TranscriptionProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly code: ErrorCodes = ErrorCodes.TRANSCRIPTION_FAILED,
+    public readonly retryable = true
+  ) {
+    super(message);
+    this.name = "TranscriptionProviderError";
+  }
+}
+
+/** Throws a TranscriptionProviderError for a non-2xx provider response */
+export async function assertProviderResponse(
+  response: Response,
+  provider: TranscriptionProvider
+): Promise<void> {
+  if (response.ok) return;
+
+  const body = await response.text().catch(() => "");
+  const code =
+    response.status === 429
+      ? ErrorCodes.TRANSCRIPTION_QUOTA_EXCEEDED
+      : ErrorCodes.TRANSCRIPTION_FAILED;
+
+  throw new TranscriptionProviderError(
+    `${provider} responded with ${response.status}: ${body.slice(0, 500)}`,
+    code,
+    response.status === 429 || response.status >= 500
+  );
+}
+
+const DEFAULT_REGIONS: Record<string, string> = {
+  en: "en-US",
+  es: "es-ES",
+  fr: "fr-FR",
+};
+
+/** Expands a bare language ("en") to the locale cloud providers expect ("en-US") */
+export function toLocaleCode(language: string): string {
+  if (language.includes("-")) return language;
+  return DEFAULT_REGIONS[language.toLowerCase()] ?? language;
+}
+
+/** Strips codec parameters: "audio/webm;codecs=opus" -> "audio/webm" */
+export function baseMimeType(mimeType: string): string {
+  return mimeType.split(";")[0].trim().toLowerCase();
+}
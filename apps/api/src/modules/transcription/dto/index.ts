@@ -0,0 +1,2 @@
+export * from "./transcribe-audio.dto";
+export * from "./list-transcription-jobs-query.dto";
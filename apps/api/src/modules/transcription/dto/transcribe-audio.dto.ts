@@ -0,0 +1,20 @@
+// apps/api/src/modules/transcription/dto/transcribe-audio.dto.ts
+import { ApiPropertyOptional } from "@nestjs/swagger";
+import { IsEnum, IsOptional, IsString, MaxLength } from "class-validator";
+import { TranscriptionProvider } from "@packages/shared/types";
+
+export class TranscribeAudioDto {
+  @ApiPropertyOptional({
+    enum: TranscriptionProvider,
+    description: "Override the configured TRANSCRIPTION_PROVIDER",
+  })
+  @IsOptional()
+  @IsEnum(TranscriptionProvider)
+  provider?: TranscriptionProvider;
+
+  @ApiPropertyOptional({ example: "en", description: "Language hint" })
+  @IsOptional()
+  @IsString()
+  @MaxLength(10)
+  language?: string;
+}
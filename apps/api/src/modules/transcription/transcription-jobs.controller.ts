@@ -0,0 +1,64 @@
+// apps/api/src/modules/transcription/transcription-jobs.controller.ts
+import { Controller, Get, Param, Post, Query } from "@nestjs/common";
+import { ApiOperation, ApiTags } from "@nestjs/swagger";
+import { TranscriptionJobsService } from "./transcription-jobs.service";
+import { ListTranscriptionJobsQueryDto } from "./dto";
+import { ApiResponseDto } from "@/common/dto/api-response.dto";
+import { PaginatedResponse, TranscriptionJob } from "@packages/shared/types";
+
+@ApiTags("transcription")
+@Controller("transcription/jobs")
+export class TranscriptionJobsController {
+  constructor(private readonly jobsService: TranscriptionJobsService) {}
+
+  @Get()
+  @ApiOperation({ summary: "List transcription jobs" })
+  async getJobs(
+    @Query() query: ListTranscriptionJobsQueryDto
+  ): Promise<PaginatedResponse<TranscriptionJob>> {
+    const result = await this.jobsService.getJobs(query);
+
+    return {
+      ...result,
+      meta: {
+        timestamp: new Date().toISOString(),
+        requestId: `req_${Date.now()}`,
+      },
+    };
+  }
+
+  @Get(":id")
+  @ApiOperation({ summary: "Get a transcription job" })
+  async getJob(
+    @Param("id") id: string
+  ): Promise<ApiResponseDto<TranscriptionJob>> {
+    return this.wrap(await this.jobsService.getJob(id));
+  }
+
+  @Post(":id/retry")
+  @ApiOperation({ summary: "Requeue a failed or cancelled job" })
+  async retryJob(
+    @Param("id") id: string
+  ): Promise<ApiResponseDto<TranscriptionJob>> {
+    return this.wrap(await this.jobsService.retryJob(id));
+  }
+
+  @Post(":id/cancel")
+  @ApiOperation({ summary: "Cancel a queued or running job" })
+  async cancelJob(
+    @Param("id") id: string
+  ): Promise<ApiResponseDto<TranscriptionJob>> {
+    return this.wrap(await this.jobsService.cancelJob(id));
+  }
+
+  private wrap(job: TranscriptionJob): ApiResponseDto<TranscriptionJob> {
+    return {
+      success: true,
+      data: job,
+      meta: {
+        timestamp: new Date().toISOString(),
+        requestId: `req_${Date.now()}`,
+      },
+    };
+  }
+}
@@ -0,0 +1,547 @@
+// apps/api/src/modules/transcription/transcription-jobs.service.ts
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { basename } from "path";
+import { TranscriptionJob as TranscriptionJobRow } from "@prisma/client";
+import { PrismaService } from "@/modules/database/prisma.service";
+import { StorageService } from "@/modules/storage/storage.service";
+import { AudioProcessingService } from "@/modules/audio/audio-processing.service";
+import { TranscriptionService } from "./transcription.service";
+import {
+  TranscriptionAudio,
+  TranscriptionProviderError,
+} from "./adapters/transcription-adapter.interface";
+import { ListTranscriptionJobsQueryDto } from "./dto";
+import {
+  ErrorCodes,
+  JobStatus,
+  PaginatedResponse,
+  ProcessingStatus,
+  TranscriptionJob,
+} from "@packages/shared/types";
+
+/**
+ * Postgres-backed queue for transcription work. Jobs are claimed with
+ * FOR UPDATE SKIP LOCKED so several API instances can share the queue, and
+ * a worker lease (lockedAt) lets jobs from a crashed process be picked up
+ * again once it expires.
+ */
+@Injectable()
+export class TranscriptionJobsService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(TranscriptionJobsService.name);
+  private readonly running = new Map<string, AbortController>();
+  private pollTimer: NodeJS.Timeout | null = null;
+  private isPolling = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly transcriptionService: TranscriptionService,
+    private readonly storageService: StorageService,
+    private readonly audioProcessing: AudioProcessingService,
+    private readonly configService: ConfigService
+  ) {}
+
+  onModuleInit(): void {
+    if (!this.config("workerEnabled", true)) {
+      this.logger.log("Transcription worker disabled on this instance");
+      return;
+    }
+
+    this.pollTimer = setInterval(
+      () => this.poll(),
+      this.config("pollIntervalMs", 2000)
+    );
+    this.poll();
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+
+    // Hand in-flight jobs back to the queue before aborting them so the
+    // aborted attempts are not counted as failures
+    const ids = Array.from(this.running.keys());
+    if (ids.length) {
+      await this.prisma.transcriptionJob.updateMany({
+        where: { id: { in: ids }, status: JobStatus.PROCESSING },
+        data: { status: JobStatus.QUEUED, lockedAt: null, runAt: new Date() },
+      });
+    }
+    this.running.forEach((controller) => controller.abort());
+  }
+
+  async enqueue(params: {
+    meetingRecordId: string;
+    audioFileUrl: string;
+    mimeType?: string;
+    language?: string;
+  }): Promise<TranscriptionJob> {
+    const job = await this.prisma.transcriptionJob.create({
+      data: {
+        meetingRecordId: params.meetingRecordId,
+        audioFileUrl: params.audioFileUrl,
+        mimeType: params.mimeType,
+        language: params.language,
+        provider: this.transcriptionService.defaultProvider,
+        maxRetries: this.config("maxRetries", 3),
+      },
+    });
+
+    this.logger.log(
+      `Queued transcription job ${job.id} for record ${params.meetingRecordId}`
+    );
+    return this.formatJob(job);
+  }
+
+  async getJobs(
+    query: ListTranscriptionJobsQueryDto
+  ): Promise<PaginatedResponse<TranscriptionJob>> {
+    const { page = 1, limit = 20, status, meetingRecordId } = query;
+    const where = {
+      ...(status && { status }),
+      ...(meetingRecordId && { meetingRecordId }),
+    };
+
+    const [data, total] = await Promise.all([
+      this.prisma.transcriptionJob.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { createdAt: "desc" },
+      }),
+      this.prisma.transcriptionJob.count({ where }),
+    ]);
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      success: true,
+      data: data.map((job) => this.formatJob(job)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  async getJob(id: string): Promise<TranscriptionJob> {
+    return this.formatJob(await this.findJobOrThrow(id));
+  }
+
+  async retryJob(id: string): Promise<TranscriptionJob> {
+    const job = await this.findJobOrThrow(id);
+
+    if (job.status !== JobStatus.FAILED && job.status !== JobStatus.CANCELLED) {
+      throw new BadRequestException({
+        code: ErrorCodes.INVALID_JOB_STATE,
+        message: `Only failed or cancelled jobs can be retried (job is ${job.status})`,
+      });
+    }
+
+    const [updated] = await this.prisma.$transaction([
+      this.prisma.transcriptionJob.update({
+        where: { id },
+        data: {
+          status: JobStatus.QUEUED,
+          retryCount: 0,
+          errorMessage: null,
+          runAt: new Date(),
+          lockedAt: null,
+          completedAt: null,
+        },
+      }),
+      this.prisma.meetingRecord.update({
+        where: { id: job.meetingRecordId },
+        data: { processingStatus: ProcessingStatus.PENDING },
+      }),
+    ]);
+
+    return this.formatJob(updated);
+  }
+
+  async cancelJob(id: string): Promise<TranscriptionJob> {
+    const job = await this.findJobOrThrow(id);
+
+    if (
+      job.status === JobStatus.COMPLETED ||
+      job.status === JobStatus.CANCELLED
+    ) {
+      throw new BadRequestException({
+        code: ErrorCodes.INVALID_JOB_STATE,
+        message: `Job is already ${job.status}`,
+      });
+    }
+
+    const updated = await this.prisma.transcriptionJob.update({
+      where: { id },
+      data: {
+        status: JobStatus.CANCELLED,
+        lockedAt: null,
+        completedAt: new Date(),
+      },
+    });
+
+    // Abort immediately if this instance owns it; other instances notice on
+    // their next lease renewal
+    this.running.get(id)?.abort();
+
+    return this.formatJob(updated);
+  }
+
+  private async poll(): Promise<void> {
+    if (this.isPolling) return;
+    this.isPolling = true;
+
+    try {
+      await this.releaseExpiredLeases();
+
+      const concurrency = this.config("concurrency", 2);
+      while (this.running.size < concurrency) {
+        const job = await this.claimNextJob();
+        if (!job) break;
+        // Only recording a failure can reject; the lease then expires and
+        // the job is picked up again
+        this.processJob(job).catch((error) =>
+          this.logger.error(
+            `Could not record the failure of transcription job ${job.id}`,
+            error
+          )
+        );
+      }
+    } catch (error) {
+      this.logger.error("Transcription queue poll failed", error);
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  private async claimNextJob(): Promise<TranscriptionJobRow | null> {
+    const rows = await this.prisma.$queryRaw<Array<{ id: string }>>`
+      UPDATE transcription_jobs
+      SET status = 'PROCESSING', "lockedAt" = NOW(), "startedAt" = NOW(), "updatedAt" = NOW()
+      WHERE id = (
+        SELECT id FROM transcription_jobs
+        WHERE status = 'QUEUED' AND "runAt" <= NOW()
+        ORDER BY "runAt" ASC
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING id`;
+
+    if (!rows.length) return null;
+    return this.prisma.transcriptionJob.findUnique({
+      where: { id: rows[0].id },
+    });
+  }
+
+  /**
+   * A lease only expires when its worker died, so an expired lease counts
+   * as a failed attempt; a job that keeps taking its worker down, e.g.
+   * through ffmpeg running out of memory, fails once it is out of retries.
+   */
+  private async releaseExpiredLeases(): Promise<void> {
+    const expiredBefore = new Date(
+      Date.now() - this.config("lockTimeoutMs", 300000)
+    );
+    const message = "Worker lease expired; the worker may have crashed";
+
+    const failed = await this.prisma.$queryRaw<
+      Array<{ id: string; meetingRecordId: string }>
+    >`
+      UPDATE transcription_jobs
+      SET status = 'FAILED', "lockedAt" = NULL, "completedAt" = NOW(),
+        "errorMessage" = ${message}, "updatedAt" = NOW()
+      WHERE status = 'PROCESSING' AND "lockedAt" < ${expiredBefore}
+        AND "retryCount" >= "maxRetries"
+      RETURNING id, "meetingRecordId"`;
+
+    if (failed.length) {
+      await this.prisma.meetingRecord.updateMany({
+        where: { id: { in: failed.map((job) => job.meetingRecordId) } },
+        data: { processingStatus: ProcessingStatus.FAILED },
+      });
+      this.logger.error(
+        `Failed ${failed.length} transcription job(s) whose leases expired too often: ${failed
+          .map((job) => job.id)
+          .join(", ")}`
+      );
+    }
+
+    const { count } = await this.prisma.transcriptionJob.updateMany({
+      where: { status: JobStatus.PROCESSING, lockedAt: { lt: expiredBefore } },
+      data: {
+        status: JobStatus.QUEUED,
+        retryCount: { increment: 1 },
+        lockedAt: null,
+        runAt: new Date(),
+        errorMessage: `${message}; job requeued`,
+      },
+    });
+
+    if (count) {
+      this.logger.warn(
+        `Requeued ${count} transcription job(s) with expired leases`
+      );
+    }
+  }
+
+  private async processJob(job: TranscriptionJobRow): Promise<void> {
+    const controller = new AbortController();
+    this.running.set(job.id, controller);
+
+    const lockTimeout = this.config("lockTimeoutMs", 300000);
+    const heartbeat = setInterval(
+      () => this.renewLease(job.id, controller),
+      Math.max(1000, Math.floor(lockTimeout / 3))
+    );
+
+    try {
+      await this.prisma.meetingRecord.update({
+        where: { id: job.meetingRecordId },
+        data: { processingStatus: ProcessingStatus.PROCESSING },
+      });
+
+      const audio = await this.prepareAudio(job, controller.signal);
+      const result = await this.transcriptionService.transcribe(audio, {
+        language: job.language ?? undefined,
+        signal: controller.signal,
+      });
+
+      // Guard on status so a cancellation that raced us is not overwritten
+      const { count } = await this.prisma.transcriptionJob.updateMany({
+        where: { id: job.id, status: JobStatus.PROCESSING },
+        data: {
+          status: JobStatus.COMPLETED,
+          provider: result.provider,
+          transcriptionText: result.text,
+          confidence: result.confidence,
+          processingTime: result.processingTime,
+          tokensUsed: result.tokensUsed,
+          costUsd: result.cost,
+          errorMessage: null,
+          lockedAt: null,
+          completedAt: new Date(),
+        },
+      });
+
+      if (count) {
+        await this.prisma.meetingRecord.update({
+          where: { id: job.meetingRecordId },
+          data: { processingStatus: ProcessingStatus.COMPLETED },
+        });
+        this.logger.log(`Transcription job ${job.id} completed`);
+      }
+    } catch (error) {
+      await this.handleFailure(job, error);
+    } finally {
+      clearInterval(heartbeat);
+      this.running.delete(job.id);
+    }
+  }
+
+  private async handleFailure(
+    job: TranscriptionJobRow,
+    error: unknown
+  ): Promise<void> {
+    const message = error instanceof Error ? error.message : String(error);
+    const retryable =
+      !(error instanceof TranscriptionProviderError) || error.retryable;
+    const canRetry = retryable && job.retryCount < job.maxRetries;
+
+    const delay = this.backoffDelay(job.retryCount);
+    const { count } = await this.prisma.transcriptionJob.updateMany({
+      where: { id: job.id, status: JobStatus.PROCESSING },
+      data: canRetry
+        ? {
+            status: JobStatus.QUEUED,
+            retryCount: { increment: 1 },
+            runAt: new Date(Date.now() + delay),
+            errorMessage: message,
+            lockedAt: null,
+          }
+        : {
+            status: JobStatus.FAILED,
+            errorMessage: message,
+            lockedAt: null,
+            completedAt: new Date(),
+          },
+    });
+
+    // count is 0 when the job was cancelled while running
+    if (!count) return;
+
+    await this.prisma.meetingRecord.update({
+      where: { id: job.meetingRecordId },
+      data: {
+        processingStatus: canRetry
+          ? ProcessingStatus.RETRYING
+          : ProcessingStatus.FAILED,
+      },
+    });
+
+    if (canRetry) {
+      this.logger.warn(
+        `Transcription job ${job.id} failed (attempt ${job.retryCount + 1}), retrying in ${delay}ms: ${message}`
+      );
+    } else {
+      this.logger.error(
+        `Transcription job ${job.id} failed permanently: ${message}`
+      );
+    }
+  }
+
+  private async renewLease(
+    id: string,
+    controller: AbortController
+  ): Promise<void> {
+    const { count } = await this.prisma.transcriptionJob
+      .updateMany({
+        where: { id, status: JobStatus.PROCESSING },
+        data: { lockedAt: new Date() },
+      })
+      .catch(() => ({ count: 1 })); // Transient DB errors should not abort work
+
+    // The job was cancelled (or reclaimed) elsewhere
+    if (!count) controller.abort();
+  }
+
+  /** Exponential backoff with +/-20% jitter, capped at backoffMaxMs */
+  private backoffDelay(retryCount: number): number {
+    const base = this.config("backoffBaseMs", 5000);
+    const max = this.config("backoffMaxMs", 600000);
+    const delay = Math.min(max, base * Math.pow(2, retryCount));
+    return Math.round(delay * (0.8 + Math.random() * 0.4));
+  }
+
+  /**
+   * Produces the canonical copy of the upload on the first attempt and
+   * transcribes that; retries reuse it. When ffmpeg is missing or cannot
+   * decode the upload, the original is transcribed instead.
+   */
+  private async prepareAudio(
+    job: TranscriptionJobRow,
+    signal: AbortSignal
+  ): Promise<TranscriptionAudio> {
+    const record = await this.prisma.meetingRecord.findUnique({
+      where: { id: job.meetingRecordId },
+      select: { normalizedAudioKey: true, normalizedAudioMimeType: true },
+    });
+
+    if (record?.normalizedAudioKey) {
+      return this.loadAudio(
+        record.normalizedAudioKey,
+        record.normalizedAudioMimeType
+      );
+    }
+
+    const original = await this.loadAudio(job.audioFileUrl, job.mimeType);
+    if (!this.audioProcessing.isEnabled) return original;
+
+    try {
+      const normalized = await this.audioProcessing.normalize(original.buffer, {
+        signal,
+      });
+      const stored = await this.storageService.storeAudio(
+        normalized.buffer,
+        normalized.mimeType
+      );
+
+      await this.prisma.meetingRecord.update({
+        where: { id: job.meetingRecordId },
+        data: {
+          normalizedAudioKey: stored.key,
+          normalizedAudioMimeType: stored.mimeType,
+          normalizedAudioSizeBytes: stored.size,
+          normalizedAudioDurationMs: normalized.durationMs,
+          normalizedAt: new Date(),
+        },
+      });
+
+      return {
+        buffer: normalized.buffer,
+        mimeType: stored.mimeType,
+        filename: basename(stored.key),
+      };
+    } catch (error) {
+      if (signal.aborted) throw error;
+
+      this.logger.warn(
+        `Could not normalize audio for job ${job.id}, transcribing the original: ${
+          error instanceof Error ? error.message : error
+        }`
+      );
+      return original;
+    }
+  }
+
+  private async loadAudio(
+    key: string,
+    mimeType: string | null
+  ): Promise<TranscriptionAudio> {
+    try {
+      return {
+        buffer: await this.storageService.get(key),
+        mimeType: mimeType ?? "audio/webm",
+        filename: basename(key),
+      };
+    } catch (error) {
+      throw new TranscriptionProviderError(
+        `Audio file ${key} could not be read`,
+        ErrorCodes.RECORD_NOT_FOUND,
+        false
+      );
+    }
+  }
+
+  private async findJobOrThrow(id: string): Promise<TranscriptionJobRow> {
+    const job = await this.prisma.transcriptionJob.findUnique({
+      where: { id },
+    });
+
+    if (!job) {
+      throw new NotFoundException({
+        code: ErrorCodes.RECORD_NOT_FOUND,
+        message: `Transcription job ${id} not found`,
+      });
+    }
+    return job;
+  }
+
+  private config<T>(key: string, fallback: T): T {
+    return this.configService.get<T>(`transcription.jobs.${key}`, fallback);
+  }
+
+  private formatJob(job: TranscriptionJobRow): TranscriptionJob {
+    return {
+      id: job.id,
+      meetingRecordId: job.meetingRecordId,
+      status: job.status as JobStatus,
+      provider: job.provider,
+      language: job.language ?? undefined,
+      transcriptionText: job.transcriptionText ?? undefined,
+      confidence: job.confidence ?? undefined,
+      processingTime: job.processingTime ?? undefined,
+      errorMessage: job.errorMessage ?? undefined,
+      retryCount: job.retryCount,
+      maxRetries: job.maxRetries,
+      runAt: job.runAt.toISOString(),
+      startedAt: job.startedAt?.toISOString(),
+      completedAt: job.completedAt?.toISOString(),
+      createdAt: job.createdAt.toISOString(),
+      updatedAt: job.updatedAt.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,113 @@
+// apps/api/src/modules/transcription/transcription.controller.ts
+import {
+  BadGatewayException,
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  GatewayTimeoutException,
+  HttpException,
+  HttpStatus,
+  Post,
+  ServiceUnavailableException,
+  UploadedFile,
+  UseInterceptors,
+} from "@nestjs/common";
+import { FileInterceptor } from "@nestjs/platform-express";
+import {
+  ApiConsumes,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from "@nestjs/swagger";
+import { TranscriptionService } from "./transcription.service";
+import { TranscriptionProviderError } from "./adapters/transcription-adapter.interface";
+import { TranscribeAudioDto } from "./dto";
+import { ApiResponseDto } from "@/common/dto/api-response.dto";
+import { ErrorCodes, TranscriptionResult } from "@packages/shared/types";
+
+@ApiTags("transcription")
+@Controller("transcription")
+export class TranscriptionController {
+  constructor(private readonly transcriptionService: TranscriptionService) {}
+
+  @Post()
+  @ApiOperation({ summary: "Transcribe an audio recording" })
+  @ApiConsumes("multipart/form-data")
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: "Audio transcribed successfully",
+    type: ApiResponseDto<TranscriptionResult>,
+  })
+  @UseInterceptors(FileInterceptor("audioFile"))
+  async transcribe(
+    @Body() dto: TranscribeAudioDto,
+    @UploadedFile() audioFile?: Express.Multer.File
+  ): Promise<ApiResponseDto<TranscriptionResult>> {
+    if (!audioFile) {
+      throw new BadRequestException({
+        code: ErrorCodes.MISSING_REQUIRED_FIELDS,
+        message: "audioFile is required",
+      });
+    }
+
+    try {
+      const result = await this.transcriptionService.transcribe(
+        {
+          buffer: audioFile.buffer,
+          mimeType: audioFile.mimetype,
+          filename: audioFile.originalname,
+        },
+        { provider: dto.provider, language: dto.language }
+      );
+
+      return {
+        success: true,
+        data: result,
+        meta: {
+          timestamp: new Date().toISOString(),
+          requestId: `req_${Date.now()}`,
+        },
+      };
+    } catch (error) {
+      throw toHttpException(error);
+    }
+  }
+
+  @Get("providers")
+  @ApiOperation({ summary: "List transcription providers and their status" })
+  getProviders() {
+    return {
+      success: true,
+      data: this.transcriptionService.getProviders(),
+      meta: {
+        timestamp: new Date().toISOString(),
+        requestId: `req_${Date.now()}`,
+      },
+    };
+  }
+}
+
+function toHttpException(error: unknown): HttpException {
+  if (!(error instanceof TranscriptionProviderError)) {
+    return new BadGatewayException({
+      code: ErrorCodes.TRANSCRIPTION_FAILED,
+      message: "Transcription failed",
+    });
+  }
+
+  const body = { code: error.code, message: error.message };
+
+  switch (error.code) {
+    case ErrorCodes.INVALID_AUDIO_FORMAT:
+      return new BadRequestException(body);
+    case ErrorCodes.TRANSCRIPTION_TIMEOUT:
+      return new GatewayTimeoutException(body);
+    case ErrorCodes.TRANSCRIPTION_QUOTA_EXCEEDED:
+      return new HttpException(body, HttpStatus.TOO_MANY_REQUESTS);
+    case ErrorCodes.SERVICE_UNAVAILABLE:
+      return new ServiceUnavailableException(body);
+    default:
+      return new BadGatewayException(body);
+  }
+}
@@ -0,0 +1,45 @@
+// apps/api/src/modules/transcription/transcription.module.ts
+import { Module } from "@nestjs/common";
+import { DatabaseModule } from "@/modules/database/database.module";
+import { StorageModule } from "@/modules/storage/storage.module";
+import { AudioModule } from "@/modules/audio/audio.module";
+import { TranscriptionController } from "./transcription.controller";
+import { TranscriptionJobsController } from "./transcription-jobs.controller";
+import { TranscriptionService } from "./transcription.service";
+import { TranscriptionJobsService } from "./transcription-jobs.service";
+import {
+  TRANSCRIPTION_ADAPTERS,
+  TranscriptionAdapter,
+} from "./adapters/transcription-adapter.interface";
+import { OpenAiTranscriptionAdapter } from "./adapters/openai.adapter";
+import { GoogleTranscriptionAdapter } from "./adapters/google.adapter";
+import { AzureTranscriptionAdapter } from "./adapters/azure.adapter";
+import { AwsTranscriptionAdapter } from "./adapters/aws.adapter";
+import { FixtureTranscriptionAdapter } from "./adapters/fixture.adapter";
+import { LocalTranscriptionAdapter } from "./adapters/local.adapter";
+
+const ADAPTERS = [
+  OpenAiTranscriptionAdapter,
+  GoogleTranscriptionAdapter,
+  AzureTranscriptionAdapter,
+  AwsTranscriptionAdapter,
+  LocalTranscriptionAdapter,
+  FixtureTranscriptionAdapter,
+];
+
+@Module({
+  imports: [DatabaseModule, StorageModule, AudioModule],
+  controllers: [TranscriptionController, TranscriptionJobsController],
+  providers: [
+    ...ADAPTERS,
+    {
+      provide: TRANSCRIPTION_ADAPTERS,
+      useFactory: (...adapters: TranscriptionAdapter[]) => adapters,
+      inject: ADAPTERS,
+    },
+    TranscriptionService,
+    TranscriptionJobsService,
+  ],
+  exports: [TranscriptionService, TranscriptionJobsService],
+})
+export class TranscriptionModule {}
@@ -0,0 +1,125 @@
+// apps/api/src/modules/transcription/transcription.service.ts
+import { Inject, Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import {
+  ErrorCodes,
+  TranscriptionProvider,
+  TranscriptionRequestOptions,
+  TranscriptionResult,
+} from "@packages/shared/types";
+import {
+  TRANSCRIPTION_ADAPTERS,
+  TranscriptionAdapter,
+  TranscriptionAudio,
+  TranscriptionProviderError,
+} from "./adapters/transcription-adapter.interface";
+
+@Injectable()
+export class TranscriptionService {
+  private readonly logger = new Logger(TranscriptionService.name);
+  private readonly adapters: Map<TranscriptionProvider, TranscriptionAdapter>;
+
+  constructor(
+    @Inject(TRANSCRIPTION_ADAPTERS) adapters: TranscriptionAdapter[],
+    private readonly configService: ConfigService
+  ) {
+    this.adapters = new Map(
+      adapters.map((adapter) => [adapter.provider, adapter])
+    );
+  }
+
+  get defaultProvider(): TranscriptionProvider {
+    return this.configService.get<TranscriptionProvider>(
+      "transcription.provider",
+      TranscriptionProvider.OPENAI
+    );
+  }
+
+  getProviders(): Array<{
+    provider: TranscriptionProvider;
+    configured: boolean;
+    isDefault: boolean;
+  }> {
+    return Array.from(this.adapters.values()).map((adapter) => ({
+      provider: adapter.provider,
+      configured: adapter.isConfigured(),
+      isDefault: adapter.provider === this.defaultProvider,
+    }));
+  }
+
+  /**
+   * Transcribes audio with the requested (or configured) provider.
+   * Always rejects with a TranscriptionProviderError so callers can decide
+   * whether a failure is worth retrying.
+   */
+  async transcribe(
+    audio: TranscriptionAudio,
+    options: TranscriptionRequestOptions & { signal?: AbortSignal } = {}
+  ): Promise<TranscriptionResult> {
+    const provider = options.provider ?? this.defaultProvider;
+    const adapter = this.adapters.get(provider);
+
+    if (!adapter) {
+      throw new TranscriptionProviderError(
+        `Unknown transcription provider "${provider}"`,
+        ErrorCodes.TRANSCRIPTION_FAILED,
+        false
+      );
+    }
+    if (!adapter.isConfigured()) {
+      throw new TranscriptionProviderError(
+        `Transcription provider "${provider}" is not configured`,
+        ErrorCodes.SERVICE_UNAVAILABLE,
+        false
+      );
+    }
+
+    const timeout = this.configService.get<number>(
+      "transcription.timeout",
+      60000
+    );
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeout);
+    const onExternalAbort = () => controller.abort();
+    options.signal?.addEventListener("abort", onExternalAbort);
+
+    const startedAt = Date.now();
+
+    try {
+      const result = await adapter.transcribe(audio, {
+        language:
+          options.language ??
+          this.configService.get<string>("transcription.language", "en"),
+        signal: controller.signal,
+      });
+
+      const processingTime = Date.now() - startedAt;
+      this.logger.log(
+        `Transcribed ${audio.buffer.length} bytes with ${provider} in ${processingTime}ms`
+      );
+
+      return { ...result, provider, processingTime };
+    } catch (error) {
+      // Checked first: adapters may surface an abort as their own error
+      if (controller.signal.aborted) {
+        throw new TranscriptionProviderError(
+          options.signal?.aborted
+            ? "Transcription was cancelled"
+            : `Transcription timed out after ${timeout}ms`,
+          ErrorCodes.TRANSCRIPTION_TIMEOUT,
+          !options.signal?.aborted
+        );
+      }
+
+      if (error instanceof TranscriptionProviderError) throw error;
+
+      this.logger.error(`Transcription with ${provider} failed`, error);
+      throw new TranscriptionProviderError(
+        error instanceof Error ? error.message : "Transcription failed"
+      );
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener("abort", onExternalAbort);
+    }
+  }
+}
@@ -0,0 +1,16 @@
+// apps/api/src/modules/uploads/dto/complete-upload-session.dto.ts
+import { ApiProperty } from "@nestjs/swagger";
+import { Type } from "class-transformer";
+import { IsInt, Min } from "class-validator";
+
+export class CompleteUploadSessionDto {
+  @ApiProperty({
+    example: 42,
+    description:
+      "Number of chunks the client sent; must match what was acknowledged",
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  totalChunks: number;
+}
@@ -0,0 +1,14 @@
+// apps/api/src/modules/uploads/dto/create-upload-session.dto.ts
+import { ApiProperty } from "@nestjs/swagger";
+import { IsString, MaxLength } from "class-validator";
+
+export class CreateUploadSessionDto {
+  @ApiProperty({
+    example: "audio/webm;codecs=opus",
+    description:
+      "MediaRecorder mime type; re-checked against the bytes on completion",
+  })
+  @IsString()
+  @MaxLength(100)
+  mimeType: string;
+}
@@ -0,0 +1,2 @@
+export * from "./create-upload-session.dto";
+export * from "./complete-upload-session.dto";
@@ -0,0 +1,86 @@
+// apps/api/src/modules/uploads/uploads.controller.ts
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseIntPipe,
+  Post,
+  Put,
+  UploadedFile,
+  UseInterceptors,
+} from "@nestjs/common";
+import { FileInterceptor } from "@nestjs/platform-express";
+import { ApiConsumes, ApiOperation, ApiTags } from "@nestjs/swagger";
+import { UploadsService } from "./uploads.service";
+import { CompleteUploadSessionDto, CreateUploadSessionDto } from "./dto";
+import { ApiResponseDto } from "@/common/dto/api-response.dto";
+import { ErrorCodes, UploadSession } from "@packages/shared/types";
+
+@ApiTags("uploads")
+@Controller("uploads")
+export class UploadsController {
+  constructor(private readonly uploadsService: UploadsService) {}
+
+  @Post()
+  @ApiOperation({ summary: "Open a resumable upload session" })
+  async createSession(
+    @Body() dto: CreateUploadSessionDto
+  ): Promise<ApiResponseDto<UploadSession>> {
+    return this.wrap(await this.uploadsService.createSession(dto));
+  }
+
+  @Get(":id")
+  @ApiOperation({
+    summary: "Get upload progress (resume from nextChunkIndex)",
+  })
+  async getSession(
+    @Param("id") id: string
+  ): Promise<ApiResponseDto<UploadSession>> {
+    return this.wrap(await this.uploadsService.getSession(id));
+  }
+
+  @Put(":id/chunks/:index")
+  @ApiOperation({ summary: "Upload one numbered chunk" })
+  @ApiConsumes("multipart/form-data")
+  @UseInterceptors(FileInterceptor("chunk"))
+  async uploadChunk(
+    @Param("id") id: string,
+    @Param("index", ParseIntPipe) index: number,
+    @UploadedFile() chunk?: Express.Multer.File
+  ): Promise<ApiResponseDto<UploadSession>> {
+    if (!chunk || index < 0) {
+      throw new BadRequestException({
+        code: ErrorCodes.MISSING_REQUIRED_FIELDS,
+        message: "A non-negative chunk index and a chunk file are required",
+      });
+    }
+
+    return this.wrap(
+      await this.uploadsService.appendChunk(id, index, chunk.buffer)
+    );
+  }
+
+  @Post(":id/complete")
+  @ApiOperation({ summary: "Assemble and verify the uploaded chunks" })
+  async completeSession(
+    @Param("id") id: string,
+    @Body() dto: CompleteUploadSessionDto
+  ): Promise<ApiResponseDto<UploadSession>> {
+    return this.wrap(
+      await this.uploadsService.completeSession(id, dto.totalChunks)
+    );
+  }
+
+  private wrap(session: UploadSession): ApiResponseDto<UploadSession> {
+    return {
+      success: true,
+      data: session,
+      meta: {
+        timestamp: new Date().toISOString(),
+        requestId: `req_${Date.now()}`,
+      },
+    };
+  }
+}
@@ -0,0 +1,15 @@
+// apps/api/src/modules/uploads/uploads.module.ts
+import { Module } from "@nestjs/common";
+import { DatabaseModule } from "@/modules/database/database.module";
+import { StorageModule } from "@/modules/storage/storage.module";
+import { AudioModule } from "@/modules/audio/audio.module";
+import { UploadsController } from "./uploads.controller";
+import { UploadsService } from "./uploads.service";
+
+@Module({
+  imports: [DatabaseModule, StorageModule, AudioModule],
+  controllers: [UploadsController],
+  providers: [UploadsService],
+  exports: [UploadsService],
+})
+export class UploadsModule {}
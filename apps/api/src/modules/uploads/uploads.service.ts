@@ -0,0 +1,353 @@
+// apps/api/src/modules/uploads/uploads.service.ts
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+  PayloadTooLargeException,
+} from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { UploadSession as UploadSessionRow } from "@prisma/client";
+import { PrismaService } from "@/modules/database/prisma.service";
+import { StorageService } from "@/modules/storage/storage.service";
+import { AudioInspectorService } from "@/modules/audio/audio-inspector.service";
+import { finalizeStreamedWav } from "@/modules/audio/audio-format.util";
+import { CreateUploadSessionDto } from "./dto";
+import {
+  ErrorCodes,
+  UploadSession,
+  UploadSessionStatus,
+} from "@packages/shared/types";
+
+export interface CompletedUpload {
+  id: string;
+  storageKey: string;
+  mimeType: string;
+  sizeBytes: number;
+  durationMs: number | null;
+}
+
+/**
+ * Resumable uploads: the client opens a session, PUTs numbered chunks in
+ * order while it records, and completes the session once recording stops.
+ * Chunks are kept in storage (so any API instance can accept the next one)
+ * and are assembled and verified only on completion.
+ */
+@Injectable()
+export class UploadsService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(UploadsService.name);
+  private cleanupTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly storageService: StorageService,
+    private readonly audioInspector: AudioInspectorService,
+    private readonly configService: ConfigService
+  ) {}
+
+  onModuleInit(): void {
+    this.cleanupTimer = setInterval(
+      () => this.expireStaleSessions(),
+      this.configService.get<number>("uploads.cleanupIntervalMs", 900000)
+    );
+  }
+
+  onModuleDestroy(): void {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = null;
+    }
+  }
+
+  async createSession(dto: CreateUploadSessionDto): Promise<UploadSession> {
+    const mimeType = dto.mimeType.split(";")[0].trim().toLowerCase();
+    const allowed = this.configService.get<string[]>(
+      "validation.allowedAudioFormats",
+      []
+    );
+
+    // Fail fast on formats that would be rejected on completion anyway
+    if (!allowed.includes(mimeType)) {
+      throw new BadRequestException({
+        code: ErrorCodes.INVALID_AUDIO_FORMAT,
+        message: `Unsupported audio format ${mimeType}`,
+      });
+    }
+
+    const session = await this.prisma.uploadSession.create({
+      data: { mimeType, chunkSizes: [], expiresAt: this.nextExpiry() },
+    });
+
+    return this.formatSession(session);
+  }
+
+  async getSession(id: string): Promise<UploadSession> {
+    return this.formatSession(await this.findSessionOrThrow(id));
+  }
+
+  /**
+   * Stores chunk `index`. Chunks must arrive in order, but re-sending an
+   * already acknowledged chunk is allowed so a client that lost a response
+   * can simply retry.
+   */
+  async appendChunk(
+    id: string,
+    index: number,
+    chunk: Buffer
+  ): Promise<UploadSession> {
+    const session = await this.findOpenSessionOrThrow(id);
+    const nextChunkIndex = session.chunkSizes.length;
+
+    if (index > nextChunkIndex) {
+      throw this.outOfOrder(index, nextChunkIndex);
+    }
+
+    const maxChunkBytes = this.configService.get<number>(
+      "uploads.maxChunkBytes",
+      5 * 1024 * 1024
+    );
+    const maxSize = this.configService.get<number>(
+      "validation.maxAudioSizeBytes",
+      10 * 1024 * 1024
+    );
+
+    const chunkSizes = [...session.chunkSizes];
+    chunkSizes[index] = chunk.length;
+    const totalBytes = chunkSizes.reduce((sum, size) => sum + size, 0);
+
+    if (chunk.length > maxChunkBytes || totalBytes > maxSize) {
+      throw new PayloadTooLargeException({
+        code: ErrorCodes.AUDIO_TOO_LARGE,
+        message:
+          chunk.length > maxChunkBytes
+            ? `Chunks may be at most ${maxChunkBytes} bytes`
+            : `Audio file is too large. Maximum size is ${Math.floor(
+                maxSize / (1024 * 1024)
+              )}MB.`,
+        details: {
+          chunkBytes: chunk.length,
+          totalBytes,
+          maxChunkBytes,
+          maxSize,
+        },
+      });
+    }
+
+    await this.storageService.put(
+      this.chunkKey(id, index),
+      chunk,
+      "application/octet-stream"
+    );
+
+    // Guard on updatedAt so two racing requests cannot both extend the list
+    const { count } = await this.prisma.uploadSession.updateMany({
+      where: {
+        id,
+        status: UploadSessionStatus.OPEN,
+        updatedAt: session.updatedAt,
+      },
+      data: { chunkSizes: { set: chunkSizes }, expiresAt: this.nextExpiry() },
+    });
+
+    if (!count) {
+      const current = await this.findSessionOrThrow(id);
+      throw this.outOfOrder(index, current.chunkSizes.length);
+    }
+
+    return this.getSession(id);
+  }
+
+  /**
+   * Assembles the chunks, verifies the result like a direct upload and moves
+   * it to content-addressed storage. Completing an already completed session
+   * returns it unchanged.
+   */
+  async completeSession(
+    id: string,
+    totalChunks: number
+  ): Promise<UploadSession> {
+    const existing = await this.findSessionOrThrow(id);
+    if (existing.status === UploadSessionStatus.COMPLETED) {
+      return this.formatSession(existing);
+    }
+
+    const session = await this.findOpenSessionOrThrow(id);
+    const received = session.chunkSizes.length;
+
+    if (received !== totalChunks) {
+      throw new BadRequestException({
+        code: ErrorCodes.INVALID_UPLOAD_STATE,
+        message: `Received ${received} of ${totalChunks} chunks`,
+        details: { nextChunkIndex: received },
+      });
+    }
+
+    const chunks: Buffer[] = [];
+    for (let index = 0; index < received; index++) {
+      chunks.push(await this.storageService.get(this.chunkKey(id, index)));
+    }
+    const assembled = Buffer.concat(chunks);
+
+    const verified = this.audioInspector.verifyUpload(
+      assembled,
+      session.mimeType
+    );
+    const audio =
+      verified.mimeType === "audio/wav"
+        ? finalizeStreamedWav(assembled)
+        : assembled;
+    const stored = await this.storageService.storeAudio(
+      audio,
+      verified.mimeType
+    );
+
+    const completed = await this.prisma.uploadSession.update({
+      where: { id },
+      data: {
+        status: UploadSessionStatus.COMPLETED,
+        mimeType: stored.mimeType,
+        storageKey: stored.key,
+        sizeBytes: stored.size,
+        durationMs: verified.durationMs,
+      },
+    });
+
+    await this.deleteChunks(id, received);
+    this.logger.log(
+      `Upload ${id} completed: ${received} chunks, ${stored.size} bytes`
+    );
+
+    return this.formatSession(completed);
+  }
+
+  /** Looks up a completed upload that has not been attached to a record yet */
+  async getCompletedUpload(id: string): Promise<CompletedUpload> {
+    const session = await this.findSessionOrThrow(id);
+
+    if (
+      session.status !== UploadSessionStatus.COMPLETED ||
+      !session.storageKey ||
+      session.meetingRecordId
+    ) {
+      throw new BadRequestException({
+        code: ErrorCodes.INVALID_UPLOAD_STATE,
+        message: session.meetingRecordId
+          ? `Upload ${id} is already attached to a meeting record`
+          : `Upload ${id} has not been completed`,
+      });
+    }
+
+    return {
+      id: session.id,
+      storageKey: session.storageKey,
+      mimeType: session.mimeType,
+      sizeBytes: session.sizeBytes ?? 0,
+      durationMs: session.durationMs,
+    };
+  }
+
+  private async expireStaleSessions(): Promise<void> {
+    try {
+      const stale = await this.prisma.uploadSession.findMany({
+        where: {
+          status: UploadSessionStatus.OPEN,
+          expiresAt: { lt: new Date() },
+        },
+        take: 100,
+      });
+
+      for (const session of stale) {
+        await this.deleteChunks(session.id, session.chunkSizes.length);
+        await this.prisma.uploadSession.update({
+          where: { id: session.id },
+          data: { status: UploadSessionStatus.EXPIRED, chunkSizes: [] },
+        });
+      }
+
+      if (stale.length) {
+        this.logger.log(`Expired ${stale.length} abandoned upload session(s)`);
+      }
+    } catch (error) {
+      this.logger.error("Failed to expire upload sessions", error);
+    }
+  }
+
+  private async deleteChunks(id: string, count: number): Promise<void> {
+    for (let index = 0; index < count; index++) {
+      await this.storageService
+        .delete(this.chunkKey(id, index))
+        .catch((error) =>
+          this.logger.warn(`Could not delete chunk ${index} of ${id}`, error)
+        );
+    }
+  }
+
+  private async findSessionOrThrow(id: string): Promise<UploadSessionRow> {
+    const session = await this.prisma.uploadSession.findUnique({
+      where: { id },
+    });
+
+    if (!session) {
+      throw new NotFoundException({
+        code: ErrorCodes.RECORD_NOT_FOUND,
+        message: `Upload session ${id} not found`,
+      });
+    }
+    return session;
+  }
+
+  private async findOpenSessionOrThrow(id: string): Promise<UploadSessionRow> {
+    const session = await this.findSessionOrThrow(id);
+
+    if (
+      session.status !== UploadSessionStatus.OPEN ||
+      session.expiresAt < new Date()
+    ) {
+      throw new BadRequestException({
+        code: ErrorCodes.INVALID_UPLOAD_STATE,
+        message: `Upload session ${id} is no longer accepting chunks`,
+        details: { status: session.status },
+      });
+    }
+    return session;
+  }
+
+  private outOfOrder(index: number, nextChunkIndex: number) {
+    return new ConflictException({
+      code: ErrorCodes.UPLOAD_CHUNK_OUT_OF_ORDER,
+      message: `Expected chunk ${nextChunkIndex}, received ${index}`,
+      details: { nextChunkIndex },
+    });
+  }
+
+  private chunkKey(id: string, index: number): string {
+    return `uploads/${id}/${index.toString().padStart(6, "0")}`;
+  }
+
+  private nextExpiry(): Date {
+    return new Date(
+      Date.now() +
+        this.configService.get<number>("uploads.sessionTtlMs", 86400000)
+    );
+  }
+
+  private formatSession(session: UploadSessionRow): UploadSession {
+    return {
+      id: session.id,
+      status: session.status as UploadSessionStatus,
+      mimeType: session.mimeType,
+      nextChunkIndex: session.chunkSizes.length,
+      bytesReceived:
+        session.sizeBytes ??
+        session.chunkSizes.reduce((sum, size) => sum + size, 0),
+      durationMs: session.durationMs ?? undefined,
+      meetingRecordId: session.meetingRecordId ?? undefined,
+      expiresAt: session.expiresAt.toISOString(),
+      createdAt: session.createdAt.toISOString(),
+      updatedAt: session.updatedAt.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,57 @@
+// apps/web/public/pcm-capture-worklet.js
+// Capture side of the PCM/WAV fallback recorder (see src/lib/recorder.ts).
+// Mixes the microphone to mono, downsamples it to the requested rate and
+// posts Float32Array batches to the main thread.
+
+const BATCH_SIZE = 4096;
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const target = options.processorOptions?.targetSampleRate || sampleRate;
+    // Input frames per output sample; may be fractional (44.1kHz -> 16kHz)
+    this.ratio = sampleRate / Math.min(target, sampleRate);
+    this.phase = 0;
+    this.sum = 0;
+    this.count = 0;
+    this.batch = new Float32Array(BATCH_SIZE);
+    this.length = 0;
+
+    this.port.onmessage = (event) => {
+      if (event.data === "flush") {
+        this.post(true);
+      }
+    };
+  }
+
+  process(inputs) {
+    const channels = inputs[0];
+    if (!channels || channels.length === 0) return true;
+
+    for (let frame = 0; frame < channels[0].length; frame++) {
+      let mono = 0;
+      for (const channel of channels) mono += channel[frame];
+      this.sum += mono / channels.length;
+      this.count++;
+
+      // Averaging the window doubles as a crude anti-aliasing filter
+      if (++this.phase >= this.ratio) {
+        this.phase -= this.ratio;
+        this.batch[this.length++] = this.sum / this.count;
+        this.sum = 0;
+        this.count = 0;
+        if (this.length === BATCH_SIZE) this.post(false);
+      }
+    }
+
+    return true;
+  }
+
+  post(final) {
+    const samples = this.batch.slice(0, this.length);
+    this.port.postMessage({ samples, final }, [samples.buffer]);
+    this.length = 0;
+  }
+}
+
+registerProcessor("pcm-capture", PcmCaptureProcessor);
@@ -0,0 +1,176 @@
+// apps/web/public/sw.js
+// Replays the offline submission outbox (see src/lib/outbox.ts) when the
+// browser regains connectivity, even if the recorder tab has been closed.
+
+const DB_NAME = "voice-recorder-outbox";
+const STORE_NAME = "submissions";
+const SYNC_TAG = "outbox-replay";
+// Match APP_CONFIG.OUTBOX
+const RETRY_DELAY = 5000;
+const MAX_RETRY_DELAY = 300000;
+const SENDING_LEASE = 120000;
+
+self.addEventListener("install", () => self.skipWaiting());
+self.addEventListener("activate", (event) =>
+  event.waitUntil(self.clients.claim())
+);
+
+self.addEventListener("sync", (event) => {
+  if (event.tag === SYNC_TAG) {
+    event.waitUntil(replayOutbox());
+  }
+});
+
+function openDb() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore(mode, run) {
+  const db = await openDb();
+  try {
+    return await new Promise((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = run(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+// Marks a due item as sending in one transaction, so the page never sends it
+// at the same time; resolves to null when it is not ours to send
+async function claim(id, now) {
+  const db = await openDb();
+  try {
+    return await new Promise((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, "readwrite");
+      const store = transaction.objectStore(STORE_NAME);
+      const request = store.get(id);
+      let result = null;
+
+      request.onsuccess = () => {
+        const item = request.result;
+        const leased =
+          item?.status === "sending" &&
+          now - (item.sendingSince || 0) < SENDING_LEASE;
+        if (!item || leased || item.status === "failed") return;
+        if (item.nextAttemptAt > now) return;
+        result = { ...item, status: "sending", sendingSince: now };
+        store.put(result);
+      };
+      transaction.oncomplete = () => resolve(result);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+async function notifyClients() {
+  const clients = await self.clients.matchAll({ includeUncontrolled: true });
+  clients.forEach((client) => client.postMessage({ type: "outbox-updated" }));
+}
+
+async function send(item) {
+  const formData = new FormData();
+  formData.append("fullTranscription", item.fullTranscription);
+  formData.append("recordingDuration", item.recordingDuration);
+  formData.append("clientSubmissionId", item.id);
+  if (item.entryMode) {
+    formData.append("entryMode", item.entryMode);
+  }
+  if (item.metadata) {
+    formData.append("metadata", JSON.stringify(item.metadata));
+  }
+  if (item.uploadId) {
+    formData.append("uploadId", item.uploadId);
+  } else if (item.audio) {
+    formData.append("audioFile", item.audio, item.audioName || "recording");
+  }
+
+  const response = await fetch(item.endpoint, {
+    method: "POST",
+    body: formData,
+  });
+  const result = await response.json().catch(() => ({}));
+  return { response, error: result.error };
+}
+
+async function replayItem(item) {
+  try {
+    let { response, error } = await send(item);
+
+    // The streamed upload expired; fall back to the saved blob
+    if (error?.code === "INVALID_UPLOAD_STATE" && item.uploadId && item.audio) {
+      item = { ...item, uploadId: null };
+      ({ response, error } = await send(item));
+    }
+
+    if (response.ok) {
+      await withStore("readwrite", (store) => store.delete(item.id));
+      return true;
+    }
+
+    const permanent =
+      response.status >= 400 &&
+      response.status < 500 &&
+      response.status !== 408 &&
+      response.status !== 429;
+
+    await withStore("readwrite", (store) =>
+      store.put({
+        ...item,
+        status: permanent ? "failed" : "pending",
+        attempts: item.attempts + 1,
+        nextAttemptAt: Date.now() + retryDelay(item.attempts),
+        sendingSince: null,
+        lastError: error?.message || `Request failed (${response.status})`,
+      })
+    );
+    // Permanent failures wait for the user; anything else is retried
+    return permanent;
+  } catch (err) {
+    await withStore("readwrite", (store) =>
+      store.put({
+        ...item,
+        status: "pending",
+        attempts: item.attempts + 1,
+        nextAttemptAt: Date.now() + retryDelay(item.attempts),
+        sendingSince: null,
+        lastError: err.message || "Network error",
+      })
+    );
+    return false;
+  }
+}
+
+function retryDelay(attempts) {
+  return Math.min(MAX_RETRY_DELAY, RETRY_DELAY * 2 ** attempts);
+}
+
+async function replayOutbox() {
+  const items = await withStore("readonly", (store) => store.getAll());
+  const now = Date.now();
+  let allSettled = true;
+
+  for (const { id, status } of items) {
+    if (status === "failed") continue;
+    // Not yet due, or being sent by the page: try again on the next sync
+    const item = await claim(id, now);
+    if (!item || !(await replayItem(item))) allSettled = false;
+  }
+
+  await notifyClients();
+
+  // Rejecting asks the browser to fire the sync event again later
+  if (!allSettled) throw new Error("Outbox replay incomplete");
+}
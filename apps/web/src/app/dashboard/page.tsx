@@ -0,0 +1,328 @@
+// apps/web/src/app/dashboard/page.tsx
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { eachDayOfInterval, format, parseISO, subDays } from "date-fns";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { History, Mic, XCircle } from "lucide-react";
+import { ActivityHeatmap } from "@/components/ActivityHeatmap";
+import { useStatistics } from "@/hooks/useStatistics";
+import { useDebounce } from "@/hooks/useDebounce";
+import { formatDatabaseDate } from "@/lib/dateUtils";
+import type {
+  DailyStatistics,
+  MeetingStatistics,
+} from "@packages/shared/types";
+
+const DEFAULT_RANGE_DAYS = 90;
+const FILTER_DEBOUNCE_MS = 400;
+
+// Every day of the range, so quiet days show as zero instead of being skipped
+function fillDays(statistics: MeetingStatistics): DailyStatistics[] {
+  const byDate = new Map(statistics.daily.map((day) => [day.date, day]));
+
+  return eachDayOfInterval({
+    start: parseISO(statistics.range.startDate),
+    end: parseISO(statistics.range.endDate),
+  }).map((day) => {
+    const date = format(day, "yyyy-MM-dd");
+    return (
+      byDate.get(date) ?? {
+        date,
+        totalRecordings: 0,
+        totalMeetings: 0,
+        successfulRecordings: 0,
+        failedRecordings: 0,
+        uniqueGroups: 0,
+        uniqueSpeakers: 0,
+        averageDuration: 0,
+      }
+    );
+  });
+}
+
+export default function DashboardPage() {
+  const [startDate, setStartDate] = useState(() =>
+    formatDatabaseDate(subDays(new Date(), DEFAULT_RANGE_DAYS - 1))
+  );
+  const [endDate, setEndDate] = useState(() => formatDatabaseDate(new Date()));
+  const [groupInput, setGroupInput] = useState("");
+  const groupNumber = useDebounce(groupInput.trim(), FILTER_DEBOUNCE_MS);
+
+  const { statistics, isLoading, error } = useStatistics({
+    startDate,
+    endDate,
+    groupNumber: groupNumber || undefined,
+  });
+
+  const days = statistics ? fillDays(statistics) : [];
+  const totals = statistics?.totals;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 p-4">
+      <div className="max-w-6xl mx-auto space-y-6">
+        {/* Header */}
+        <Card className="border-0 shadow-lg bg-white/80 backdrop-blur-sm">
+          <CardHeader className="flex flex-row items-center justify-between gap-4">
+            <CardTitle className="text-3xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+              📊 Analytics Dashboard
+            </CardTitle>
+            <div className="flex gap-2">
+              <Button asChild variant="outline">
+                <Link href="/meetings">
+                  <History className="w-4 h-4 mr-2" />
+                  History
+                </Link>
+              </Button>
+              <Button asChild variant="outline">
+                <Link href="/">
+                  <Mic className="w-4 h-4 mr-2" />
+                  Recorder
+                </Link>
+              </Button>
+            </div>
+          </CardHeader>
+        </Card>
+
+        {/* Filters */}
+        <Card className="border-0 shadow-lg bg-white/80 backdrop-blur-sm">
+          <CardContent className="pt-6">
+            <div className="grid gap-4 md:grid-cols-3 items-end">
+              <label className="space-y-1">
+                <span className="text-sm text-gray-600">From</span>
+                <Input
+                  type="date"
+                  value={startDate}
+                  max={endDate}
+                  onChange={(event) =>
+                    event.target.value && setStartDate(event.target.value)
+                  }
+                />
+              </label>
+              <label className="space-y-1">
+                <span className="text-sm text-gray-600">To</span>
+                <Input
+                  type="date"
+                  value={endDate}
+                  min={startDate}
+                  onChange={(event) =>
+                    event.target.value && setEndDate(event.target.value)
+                  }
+                />
+              </label>
+              <label className="space-y-1">
+                <span className="text-sm text-gray-600">Group</span>
+                <Input
+                  value={groupInput}
+                  onChange={(event) => setGroupInput(event.target.value)}
+                  placeholder="All groups"
+                />
+              </label>
+            </div>
+          </CardContent>
+        </Card>
+
+        {error && (
+          <Alert className="border-red-200 bg-red-50">
+            <XCircle className="w-5 h-5 text-red-600" />
+            <AlertDescription className="text-red-800 font-medium">
+              {error}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {/* Totals */}
+        {totals && (
+          <div className="grid gap-4 grid-cols-2 md:grid-cols-5">
+            {[
+              ["Meetings", totals.totalMeetings],
+              ["Groups", totals.totalGroups],
+              ["Speakers", totals.totalSpeakers],
+              ["Meetings per day", totals.avgMeetingsPerDay.toFixed(1)],
+              ["Typed entries", totals.manualEntries],
+            ].map(([label, value]) => (
+              <Card
+                key={label}
+                className="border-0 shadow-lg bg-white/80 backdrop-blur-sm"
+              >
+                <CardContent className="pt-6">
+                  <div className="text-sm text-gray-600">{label}</div>
+                  <div className="text-3xl font-bold text-gray-800">
+                    {value}
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        <div className={isLoading ? "opacity-50 transition-opacity" : ""}>
+          <div className="grid gap-6 md:grid-cols-2">
+            {/* Recordings per day */}
+            <Card className="border-0 shadow-lg bg-white/80 backdrop-blur-sm">
+              <CardHeader>
+                <CardTitle className="text-xl font-semibold">
+                  Daily Recordings
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="h-72">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={days}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="date" tick={{ fontSize: 12 }} />
+                    <YAxis allowDecimals={false} />
+                    <Tooltip />
+                    <Legend />
+                    <Bar
+                      dataKey="successfulRecordings"
+                      name="Accepted"
+                      stackId="recordings"
+                      fill="#16a34a"
+                    />
+                    <Bar
+                      dataKey="failedRecordings"
+                      name="Rejected"
+                      stackId="recordings"
+                      fill="#dc2626"
+                    />
+                  </BarChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+
+            {/* Participation */}
+            <Card className="border-0 shadow-lg bg-white/80 backdrop-blur-sm">
+              <CardHeader>
+                <CardTitle className="text-xl font-semibold">
+                  Groups and Speakers
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="h-72">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={days}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="date" tick={{ fontSize: 12 }} />
+                    <YAxis allowDecimals={false} />
+                    <Tooltip />
+                    <Legend />
+                    <Line
+                      type="monotone"
+                      dataKey="uniqueGroups"
+                      name="Groups"
+                      stroke="#7c3aed"
+                      dot={false}
+                    />
+                    <Line
+                      type="monotone"
+                      dataKey="uniqueSpeakers"
+                      name="Speakers"
+                      stroke="#2563eb"
+                      dot={false}
+                    />
+                  </LineChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+
+        {/* Activity calendar */}
+        {statistics && (
+          <Card className="border-0 shadow-lg bg-white/80 backdrop-blur-sm">
+            <CardHeader>
+              <CardTitle className="text-xl font-semibold">Activity</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ActivityHeatmap
+                daily={statistics.daily}
+                startDate={statistics.range.startDate}
+                endDate={statistics.range.endDate}
+              />
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Per group */}
+        {statistics && (
+          <Card className="border-0 shadow-lg bg-white/80 backdrop-blur-sm">
+            <CardHeader>
+              <CardTitle className="text-xl font-semibold">Groups</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Group</TableHead>
+                    <TableHead>Meetings</TableHead>
+                    <TableHead>Per week</TableHead>
+                    <TableHead>Last meeting</TableHead>
+                    <TableHead>Most active speaker</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {statistics.groups.map((group) => (
+                    <TableRow
+                      key={group.groupNumber}
+                      onClick={() => setGroupInput(group.groupNumber)}
+                      className="cursor-pointer"
+                    >
+                      <TableCell className="font-medium">
+                        {group.groupNumber}
+                        {group.groupName && (
+                          <span className="text-gray-500">
+                            {" "}
+                            · {group.groupName}
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell>{group.totalMeetings}</TableCell>
+                      <TableCell>
+                        {group.averageMeetingsPerWeek.toFixed(1)}
+                      </TableCell>
+                      <TableCell>{group.lastMeeting ?? "—"}</TableCell>
+                      <TableCell>{group.mostActiveSpeaker ?? "—"}</TableCell>
+                    </TableRow>
+                  ))}
+                  {statistics.groups.length === 0 && (
+                    <TableRow>
+                      <TableCell
+                        colSpan={5}
+                        className="text-center text-gray-500 py-8"
+                      >
+                        No meetings in this period.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
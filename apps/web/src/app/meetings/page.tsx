@@ -0,0 +1,417 @@
+// apps/web/src/app/meetings/page.tsx
+"use client";
+
+import { Suspense, useEffect, useState } from "react";
+import Link from "next/link";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  ArrowDown,
+  ArrowUp,
+  ChevronLeft,
+  ChevronRight,
+  Download,
+  Mic,
+  XCircle,
+} from "lucide-react";
+import { MeetingDetailDrawer } from "@/components/MeetingDetailDrawer";
+import { useMeetings } from "@/hooks/useMeetings";
+import { useDebounce } from "@/hooks/useDebounce";
+import { getMeeting, getMeetingsExportUrl } from "@/lib/api";
+import { cn } from "@/lib/utils";
+import {
+  MeetingExportFormat,
+  MeetingRecord,
+  MeetingSortField,
+  MeetingsQuery,
+  RecordingStatus,
+} from "@packages/shared/types";
+
+const PAGE_SIZE = 20;
+const FILTER_DEBOUNCE_MS = 400;
+const EXPORT_FORMATS: Array<{ value: MeetingExportFormat; label: string }> = [
+  { value: "csv", label: "CSV" },
+  { value: "xlsx", label: "Excel" },
+  { value: "json", label: "JSON" },
+  { value: "ndjson", label: "NDJSON" },
+];
+
+const COLUMNS: Array<{ label: string; sortBy?: MeetingSortField }> = [
+  { label: "Date", sortBy: "recordingDate" },
+  { label: "Time", sortBy: "recordingDateTime" },
+  { label: "Speaker", sortBy: "speakerName" },
+  { label: "Group", sortBy: "groupNumber" },
+  { label: "Person Met" },
+  { label: "Location" },
+  { label: "Status" },
+  { label: "Sheets" },
+];
+
+// Keys kept in the URL, so a filtered view can be bookmarked or shared
+type UrlState = MeetingsQuery & { record?: string };
+
+function readUrlState(params: URLSearchParams): UrlState {
+  const page = Number(params.get("page"));
+  return {
+    page: page > 0 ? page : 1,
+    groupNumber: params.get("groupNumber") || undefined,
+    speakerName: params.get("speakerName") || undefined,
+    startDate: params.get("startDate") || undefined,
+    endDate: params.get("endDate") || undefined,
+    status: (params.get("status") as RecordingStatus) || undefined,
+    sortBy: (params.get("sortBy") as MeetingSortField) || undefined,
+    sortOrder: (params.get("sortOrder") as "asc" | "desc") || undefined,
+    record: params.get("record") || undefined,
+  };
+}
+
+function toSearchString(state: UrlState): string {
+  const params = new URLSearchParams();
+  Object.entries(state).forEach(([key, value]) => {
+    // Defaults are left out to keep shared links short
+    const isDefault = key === "page" && value === 1;
+    if (value !== undefined && value !== "" && !isDefault) {
+      params.set(key, String(value));
+    }
+  });
+  const search = params.toString();
+  return search ? `?${search}` : "";
+}
+
+export default function MeetingsPage() {
+  // useSearchParams needs a Suspense boundary for static rendering
+  return (
+    <Suspense>
+      <MeetingsBrowser />
+    </Suspense>
+  );
+}
+
+function MeetingsBrowser() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const state = readUrlState(new URLSearchParams(searchParams.toString()));
+  const { record: selectedId, ...query } = state;
+
+  const { meetings, pagination, isLoading, error } = useMeetings({
+    ...query,
+    limit: PAGE_SIZE,
+  });
+
+  const update = (patch: Partial<UrlState>) => {
+    // Filter and sort changes start again from the first page, closed
+    const next = { ...state, page: 1, record: undefined, ...patch };
+    router.replace(`${pathname}${toSearchString(next)}`, { scroll: false });
+  };
+
+  // Text filters are applied once the user stops typing
+  const [groupInput, setGroupInput] = useState(query.groupNumber ?? "");
+  const [speakerInput, setSpeakerInput] = useState(query.speakerName ?? "");
+  const groupFilter = useDebounce(groupInput.trim(), FILTER_DEBOUNCE_MS);
+  const speakerFilter = useDebounce(speakerInput.trim(), FILTER_DEBOUNCE_MS);
+
+  useEffect(() => {
+    if (
+      groupFilter !== (query.groupNumber ?? "") ||
+      speakerFilter !== (query.speakerName ?? "")
+    ) {
+      update({
+        groupNumber: groupFilter || undefined,
+        speakerName: speakerFilter || undefined,
+      });
+    }
+    // Only the debounced inputs should trigger this
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [groupFilter, speakerFilter]);
+
+  const sortBy = query.sortBy ?? "recordingDate";
+  const sortOrder = query.sortOrder ?? "desc";
+
+  const handleSort = (field: MeetingSortField) => {
+    update({
+      sortBy: field,
+      sortOrder: field === sortBy && sortOrder === "desc" ? "asc" : "desc",
+    });
+  };
+
+  const handleClearFilters = () => {
+    setGroupInput("");
+    setSpeakerInput("");
+    router.replace(pathname, { scroll: false });
+  };
+
+  // A shared ?record= link may name a record that is not on this page
+  const listed = meetings.find((meeting) => meeting.id === selectedId);
+  const [linked, setLinked] = useState<MeetingRecord | null>(null);
+  const [linkError, setLinkError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLinkError(null);
+    if (!selectedId || listed || isLoading) return;
+
+    let cancelled = false;
+    getMeeting(selectedId)
+      .then((record) => {
+        if (!cancelled) setLinked(record);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error("Failed to load meeting:", err);
+        setLinkError(
+          err instanceof Error ? err.message : "Failed to load the record"
+        );
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedId, listed, isLoading]);
+
+  const selected = listed ?? (linked?.id === selectedId ? linked : null);
+
+  // Downloads every record matching the filters, not just this page
+  const [exportFormat, setExportFormat] = useState<MeetingExportFormat>("csv");
+  const { page: _page, ...filters } = query;
+  const exportUrl = getMeetingsExportUrl({ ...filters, format: exportFormat });
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 p-4">
+      <div className="max-w-6xl mx-auto space-y-6">
+        {/* Header */}
+        <Card className="border-0 shadow-lg bg-white/80 backdrop-blur-sm">
+          <CardHeader className="flex flex-row items-center justify-between gap-4">
+            <CardTitle className="text-3xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+              📚 Meeting History
+            </CardTitle>
+            <div className="flex gap-2">
+              <select
+                value={exportFormat}
+                onChange={(event) =>
+                  setExportFormat(event.target.value as MeetingExportFormat)
+                }
+                className="h-10 rounded-md border border-gray-200 bg-white px-3 text-sm"
+                aria-label="Download format"
+              >
+                {EXPORT_FORMATS.map(({ value, label }) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              <Button asChild variant="outline">
+                <a href={exportUrl} download>
+                  <Download className="w-4 h-4 mr-2" />
+                  Download
+                </a>
+              </Button>
+              <Button asChild variant="outline">
+                <Link href="/">
+                  <Mic className="w-4 h-4 mr-2" />
+                  Recorder
+                </Link>
+              </Button>
+            </div>
+          </CardHeader>
+        </Card>
+
+        {/* Filters */}
+        <Card className="border-0 shadow-lg bg-white/80 backdrop-blur-sm">
+          <CardContent className="pt-6">
+            <div className="grid gap-4 md:grid-cols-5 items-end">
+              <label className="space-y-1">
+                <span className="text-sm text-gray-600">From</span>
+                <Input
+                  type="date"
+                  value={query.startDate ?? ""}
+                  max={query.endDate}
+                  onChange={(event) =>
+                    update({ startDate: event.target.value || undefined })
+                  }
+                />
+              </label>
+              <label className="space-y-1">
+                <span className="text-sm text-gray-600">To</span>
+                <Input
+                  type="date"
+                  value={query.endDate ?? ""}
+                  min={query.startDate}
+                  onChange={(event) =>
+                    update({ endDate: event.target.value || undefined })
+                  }
+                />
+              </label>
+              <label className="space-y-1">
+                <span className="text-sm text-gray-600">Group</span>
+                <Input
+                  value={groupInput}
+                  onChange={(event) => setGroupInput(event.target.value)}
+                  placeholder="Any"
+                />
+              </label>
+              <label className="space-y-1">
+                <span className="text-sm text-gray-600">Speaker</span>
+                <Input
+                  value={speakerInput}
+                  onChange={(event) => setSpeakerInput(event.target.value)}
+                  placeholder="Any"
+                />
+              </label>
+              <div className="flex gap-2">
+                <select
+                  value={query.status ?? ""}
+                  onChange={(event) =>
+                    update({
+                      status:
+                        (event.target.value as RecordingStatus) || undefined,
+                    })
+                  }
+                  className="h-10 flex-1 rounded-md border border-gray-200 bg-white px-3 text-sm"
+                  aria-label="Status"
+                >
+                  <option value="">Any status</option>
+                  {Object.values(RecordingStatus).map((status) => (
+                    <option key={status} value={status}>
+                      {status}
+                    </option>
+                  ))}
+                </select>
+                <Button variant="outline" onClick={handleClearFilters}>
+                  Clear
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {(error || linkError) && (
+          <Alert className="border-red-200 bg-red-50">
+            <XCircle className="w-5 h-5 text-red-600" />
+            <AlertDescription className="text-red-800 font-medium">
+              {error ?? linkError}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {/* Records */}
+        <Card className="border-0 shadow-lg bg-white/80 backdrop-blur-sm">
+          <CardContent className="pt-6 space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {COLUMNS.map(({ label, sortBy: field }) => (
+                    <TableHead key={label}>
+                      {field ? (
+                        <button
+                          type="button"
+                          onClick={() => handleSort(field)}
+                          className="flex items-center gap-1 font-medium"
+                        >
+                          {label}
+                          {field === sortBy &&
+                            (sortOrder === "asc" ? (
+                              <ArrowUp className="w-3 h-3" />
+                            ) : (
+                              <ArrowDown className="w-3 h-3" />
+                            ))}
+                        </button>
+                      ) : (
+                        label
+                      )}
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody
+                className={cn(isLoading && "opacity-50 transition-opacity")}
+              >
+                {meetings.map((meeting) => (
+                  <TableRow
+                    key={meeting.id}
+                    onClick={() =>
+                      update({ page: query.page, record: meeting.id })
+                    }
+                    className="cursor-pointer"
+                  >
+                    <TableCell className="font-medium">
+                      {meeting.recordingDate}
+                    </TableCell>
+                    <TableCell>{meeting.recordingTime}</TableCell>
+                    <TableCell>{meeting.speakerName}</TableCell>
+                    <TableCell>{meeting.groupNumber}</TableCell>
+                    <TableCell>
+                      {meeting.personMet}
+                      {meeting.encounters.length > 1 &&
+                        ` +${meeting.encounters.length - 1}`}
+                    </TableCell>
+                    <TableCell>{meeting.location}</TableCell>
+                    <TableCell>
+                      <Badge variant="secondary">{meeting.status}</Badge>
+                    </TableCell>
+                    <TableCell>{meeting.syncedToSheets ? "✅" : "—"}</TableCell>
+                  </TableRow>
+                ))}
+                {!isLoading && meetings.length === 0 && (
+                  <TableRow>
+                    <TableCell
+                      colSpan={COLUMNS.length}
+                      className="text-center text-gray-500 py-8"
+                    >
+                      No meeting records match these filters.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+
+            {/* Pagination */}
+            {pagination && pagination.total > 0 && (
+              <div className="flex items-center justify-between text-sm text-gray-600">
+                <span>
+                  Page {pagination.page} of {pagination.totalPages} ·{" "}
+                  {pagination.total} records
+                </span>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={!pagination.hasPrev || isLoading}
+                    onClick={() => update({ page: pagination.page - 1 })}
+                  >
+                    <ChevronLeft className="w-4 h-4" />
+                    Previous
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={!pagination.hasNext || isLoading}
+                    onClick={() => update({ page: pagination.page + 1 })}
+                  >
+                    Next
+                    <ChevronRight className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <MeetingDetailDrawer
+        record={selected}
+        onClose={() => update({ page: query.page, record: undefined })}
+      />
+    </div>
+  );
+}
@@ -1,16 +1,18 @@
 // apps/web/src/app/page.tsx
 "use client";
 
-import { useState } from "react";
+import { useCallback, useState } from "react";
+import Link from "next/link";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import {
   Mic,
   Square,
   Play,
+  Pause,
+  Trash2,
   Calendar,
   Clock,
   User,
@@ -18,23 +20,64 @@ import {
   MapPin,
   CheckCircle,
   XCircle,
+  FileText,
+  Keyboard,
+  History,
+  BarChart3,
 } from "lucide-react";
-import { cn } from "@/lib/utils";
+import { cn, getBrowserLocale, localizeError } from "@/lib/utils";
+import { APP_CONFIG, FEEDBACK_TEXT } from "@/lib/constants";
+import { toAudioFile } from "@/lib/recorder";
+import {
+  DEFAULT_TEMPLATES,
+  SUPPORTED_LOCALES,
+  describeTemplate,
+} from "@/lib/validation";
 import { useVoiceRecording } from "@/hooks/useVoiceRecording";
 import { useTranscriptionValidation } from "@/hooks/useTranscriptionValidation";
+import { useAutoTranscription } from "@/hooks/useAutoTranscription";
+import { useLocalStorage } from "@/hooks/useLocalStorage";
+import { PendingUploadsPanel } from "@/components/PendingUploadsPanel";
+import { TranscriptionEditor } from "@/components/TranscriptionEditor";
+import { ManualEntryForm } from "@/components/ManualEntryForm";
 import { formatDateDisplay, formatTimeDisplay } from "@/lib/dateUtils";
-import type { RecordingFormState } from "@packages/shared/types";
+import { EntryMode } from "@packages/shared/types";
+import type { Locale, RecordingFormState } from "@packages/shared/types";
 
 export default function VoiceRecorderPage() {
+  // Language of the validation feedback and the hint for transcription
+  const [locale, setLocale] = useLocalStorage<Locale>(
+    APP_CONFIG.STORAGE.LANGUAGE_KEY,
+    getBrowserLocale()
+  );
+  const text = FEEDBACK_TEXT[locale];
+  // Typing the fields is for people who cannot or would rather not speak
+  const [entryMode, setEntryMode] = useState<EntryMode>(EntryMode.VOICE);
+  const [manualFormKey, setManualFormKey] = useState(0);
+
   const {
     isRecording,
+    isPaused,
     recordingDuration,
     audioData,
     isProcessing,
+    error: recordingError,
+    upload,
+    audioLevel,
+    waveform,
+    isSilent,
+    stopReason,
+    takes,
+    selectedTakeId,
     startRecording,
+    pauseRecording,
+    resumeRecording,
     stopRecording,
     resetRecording,
-  } = useVoiceRecording();
+    selectTake,
+    discardTake,
+    waitForUpload,
+  } = useVoiceRecording({ autoStopOnSilence: true });
 
   const {
     transcription,
@@ -43,14 +86,31 @@ export default function VoiceRecorderPage() {
     extractedData,
     isSubmitting,
     submitSuccess,
+    submitQueued,
     error,
     submitRecord,
     resetForm,
-  } = useTranscriptionValidation();
+  } = useTranscriptionValidation({ locale });
+
+  const handleTranscriptionStart = useCallback(
+    () => setTranscription(""),
+    [setTranscription]
+  );
+
+  const { isTranscribing, error: transcriptionError } = useAutoTranscription({
+    audioData,
+    language: locale,
+    onTranscriptionStart: handleTranscriptionStart,
+    onTranscriptionComplete: setTranscription,
+  });
 
   const currentDate = formatDateDisplay(new Date());
   const currentTime = formatTimeDisplay(new Date());
 
+  const isUncertain = (field: string) =>
+    (validationResult.fieldConfidence?.[field] ?? 1) <
+    APP_CONFIG.VALIDATION.LOW_CONFIDENCE;
+
   const handleToggleRecording = async () => {
     if (isRecording) {
       stopRecording();
@@ -59,15 +119,40 @@ export default function VoiceRecorderPage() {
     }
   };
 
+  const handleEntryModeChange = (mode: EntryMode) => {
+    if (mode === entryMode) return;
+    if (isRecording) stopRecording();
+    resetRecording();
+    resetForm();
+    setEntryMode(mode);
+  };
+
   const handleSubmit = async () => {
-    if (!validationResult.isValid || !extractedData || !audioData) return;
+    if (!validationResult.isValid || !extractedData) return;
+
+    if (entryMode === EntryMode.MANUAL) {
+      await submitRecord({
+        fullTranscription: transcription,
+        recordingDuration: "00:00",
+        entryMode: EntryMode.MANUAL,
+        metadata: {
+          userAgent: navigator.userAgent,
+        },
+      });
+      return;
+    }
+
+    if (!audioData) return;
+
+    // Prefer the audio already streamed to the server. The whole recording
+    // is kept too, so the offline outbox can resend it if that upload is gone
+    const uploadId = await waitForUpload();
 
     await submitRecord({
       fullTranscription: transcription,
-      recordingDuration,
-      audioFile: new File([audioData.blob], `recording-${Date.now()}.wav`, {
-        type: "audio/wav",
-      }),
+      recordingDuration: audioData.duration,
+      uploadId: uploadId ?? undefined,
+      audioFile: toAudioFile(audioData.blob, audioData.mimeType),
       metadata: {
         userAgent: navigator.userAgent,
       },
@@ -77,6 +162,7 @@ export default function VoiceRecorderPage() {
   const handleReset = () => {
     resetRecording();
     resetForm();
+    setManualFormKey((key) => key + 1);
   };
 
   return (
@@ -97,85 +183,269 @@ export default function VoiceRecorderPage() {
                 <Clock className="w-4 h-4" />
                 <span>{currentTime}</span>
               </div>
+              <Link
+                href="/meetings"
+                className="flex items-center gap-2 text-blue-600 hover:underline"
+              >
+                <History className="w-4 h-4" />
+                <span>History</span>
+              </Link>
+              <Link
+                href="/dashboard"
+                className="flex items-center gap-2 text-blue-600 hover:underline"
+              >
+                <BarChart3 className="w-4 h-4" />
+                <span>Dashboard</span>
+              </Link>
             </div>
           </CardHeader>
         </Card>
 
         {/* Required Format Template */}
         <Card className="border-0 shadow-lg bg-gradient-to-r from-pink-500 to-rose-500 text-white">
-          <CardHeader>
+          <CardHeader className="flex flex-row items-center justify-between gap-4">
             <CardTitle className="text-xl font-semibold flex items-center gap-2">
-              📝 Required Message Format
+              📝 {text.FORMAT_TITLE}
             </CardTitle>
+            <div className="flex gap-1">
+              {SUPPORTED_LOCALES.map((option) => (
+                <Button
+                  key={option}
+                  size="sm"
+                  variant={option === locale ? "secondary" : "ghost"}
+                  className={cn(option !== locale && "text-white")}
+                  onClick={() => setLocale(option)}
+                >
+                  {FEEDBACK_TEXT[option].LANGUAGE_NAME}
+                </Button>
+              ))}
+            </div>
           </CardHeader>
           <CardContent>
             <div className="bg-white/20 rounded-lg p-4 backdrop-blur-sm border border-white/30">
-              <p className="text-lg font-medium mb-2">Please say exactly:</p>
+              <p className="text-lg font-medium mb-2">{text.SAY_EXACTLY}</p>
               <p className="text-xl font-bold">
-                "My name is <span className="text-yellow-300">[your name]</span>{" "}
-                and I belong to group{" "}
-                <span className="text-yellow-300">[#]</span> and today I met{" "}
-                <span className="text-yellow-300">[person's name]</span> at{" "}
-                <span className="text-yellow-300">[location]</span>."
+                "
+                {describeTemplate(DEFAULT_TEMPLATES[locale])
+                  .split(/(\[[^\]]+\])/)
+                  .map((part, index) =>
+                    part.startsWith("[") ? (
+                      <span key={index} className="text-yellow-300">
+                        {part}
+                      </span>
+                    ) : (
+                      part
+                    )
+                  )}
+                ."
               </p>
             </div>
           </CardContent>
         </Card>
 
+        {/* Entry Mode */}
+        <div className="flex justify-center gap-2">
+          <Button
+            variant={entryMode === EntryMode.VOICE ? "default" : "outline"}
+            onClick={() => handleEntryModeChange(EntryMode.VOICE)}
+          >
+            <Mic className="w-4 h-4 mr-2" />
+            Record
+          </Button>
+          <Button
+            variant={entryMode === EntryMode.MANUAL ? "default" : "outline"}
+            onClick={() => handleEntryModeChange(EntryMode.MANUAL)}
+          >
+            <Keyboard className="w-4 h-4 mr-2" />
+            Type instead
+          </Button>
+        </div>
+
         {/* Recording Section */}
-        <Card className="border-0 shadow-lg bg-white/80 backdrop-blur-sm">
-          <CardContent className="pt-8">
-            <div className="text-center space-y-6">
-              {/* Recording Button */}
-              <div className="relative">
-                <Button
-                  onClick={handleToggleRecording}
-                  disabled={isProcessing}
-                  className={cn(
-                    "w-32 h-32 rounded-full text-white text-xl font-semibold transition-all duration-300 shadow-lg",
-                    isRecording
-                      ? "bg-gradient-to-r from-red-500 to-red-600 hover:from-red-600 hover:to-red-700 animate-pulse scale-110"
-                      : "bg-gradient-to-r from-blue-500 to-blue-600 hover:from-blue-600 hover:to-blue-700 hover:scale-105"
-                  )}
-                >
-                  {isRecording ? (
-                    <Square className="w-8 h-8" />
-                  ) : (
-                    <Mic className="w-8 h-8" />
+        {entryMode === EntryMode.VOICE ? (
+          <Card className="border-0 shadow-lg bg-white/80 backdrop-blur-sm">
+            <CardContent className="pt-8">
+              <div className="text-center space-y-6">
+                {/* Recording Button */}
+                <div className="relative">
+                  <Button
+                    onClick={handleToggleRecording}
+                    disabled={isProcessing}
+                    className={cn(
+                      "w-32 h-32 rounded-full text-white text-xl font-semibold transition-all duration-300 shadow-lg",
+                      isRecording
+                        ? "bg-gradient-to-r from-red-500 to-red-600 hover:from-red-600 hover:to-red-700 animate-pulse scale-110"
+                        : "bg-gradient-to-r from-blue-500 to-blue-600 hover:from-blue-600 hover:to-blue-700 hover:scale-105"
+                    )}
+                  >
+                    {isRecording ? (
+                      <Square className="w-8 h-8" />
+                    ) : (
+                      <Mic className="w-8 h-8" />
+                    )}
+                  </Button>
+                  {isRecording && !isPaused && (
+                    <div className="absolute -inset-4 border-4 border-red-500 rounded-full animate-ping opacity-20" />
                   )}
-                </Button>
+                </div>
+
                 {isRecording && (
-                  <div className="absolute -inset-4 border-4 border-red-500 rounded-full animate-ping opacity-20" />
+                  <Button
+                    variant="outline"
+                    onClick={isPaused ? resumeRecording : pauseRecording}
+                  >
+                    {isPaused ? (
+                      <Play className="w-4 h-4 mr-2" />
+                    ) : (
+                      <Pause className="w-4 h-4 mr-2" />
+                    )}
+                    {isPaused ? "Resume" : "Pause"}
+                  </Button>
                 )}
-              </div>
 
-              {/* Status and Timer */}
-              <div className="space-y-2">
-                <p className="text-lg font-medium text-gray-700">
-                  {isRecording
-                    ? "Recording... Click to stop"
-                    : isProcessing
-                    ? "Processing audio..."
-                    : "Click to start recording"}
-                </p>
-                <div className="text-3xl font-mono font-bold text-gray-800">
-                  {recordingDuration}
+                {/* Status and Timer */}
+                <div className="space-y-2">
+                  <p className="text-lg font-medium text-gray-700">
+                    {isPaused
+                      ? "Paused. Resume or click to stop"
+                      : isRecording
+                      ? "Recording... Click to stop"
+                      : isProcessing
+                      ? "Processing audio..."
+                      : isTranscribing
+                      ? "Transcribing audio..."
+                      : "Click to start recording"}
+                  </p>
+                  <div className="text-3xl font-mono font-bold text-gray-800">
+                    {recordingDuration}
+                  </div>
+                  {isRecording && (
+                    <div className="space-y-2">
+                      {/* Live waveform */}
+                      <div className="flex items-center justify-center gap-[2px] h-12">
+                        {waveform.map((peak, index) => (
+                          <div
+                            key={index}
+                            className="w-1 rounded-full bg-blue-500"
+                            style={{ height: `${Math.max(4, peak * 100)}%` }}
+                          />
+                        ))}
+                      </div>
+                      {/* Input level */}
+                      <div className="mx-auto w-48 h-2 bg-gray-200 rounded-full overflow-hidden">
+                        <div
+                          className={cn(
+                            "h-full transition-all duration-75",
+                            isSilent ? "bg-gray-400" : "bg-green-500"
+                          )}
+                          style={{ width: `${audioLevel * 100}%` }}
+                        />
+                      </div>
+                      {isSilent && (
+                        <p className="text-sm text-amber-600">
+                          We can't hear you. Check that your microphone is on.
+                        </p>
+                      )}
+                    </div>
+                  )}
+                  {!isRecording && stopReason === "silence" && (
+                    <p className="text-sm text-gray-500">
+                      Recording stopped automatically after a pause.
+                    </p>
+                  )}
+                  {!isRecording && stopReason === "max-duration" && (
+                    <p className="text-sm text-gray-500">
+                      Recording stopped at the{" "}
+                      {APP_CONFIG.VALIDATION.MAX_RECORDING_DURATION / 60} minute
+                      limit.
+                    </p>
+                  )}
+                  {upload.status !== "idle" && (
+                    <p className="text-sm text-gray-500">
+                      {upload.status === "completed"
+                        ? "Audio uploaded"
+                        : upload.status === "failed"
+                        ? "Upload interrupted; audio will be sent on submit"
+                        : `Uploading audio (${upload.acknowledgedChunks}/${upload.totalChunks} chunks)`}
+                    </p>
+                  )}
                 </div>
-              </div>
 
-              {/* Audio Player */}
-              {audioData && (
-                <div className="flex justify-center">
-                  <audio
-                    controls
-                    src={audioData.url}
-                    className="w-full max-w-md"
-                  />
-                </div>
-              )}
-            </div>
-          </CardContent>
-        </Card>
+                {/* Takes */}
+                {takes.length > 0 && (
+                  <div className="space-y-3 max-w-md mx-auto">
+                    {takes.map((take) => (
+                      <div
+                        key={take.id}
+                        className={cn(
+                          "p-3 rounded-lg border-2 space-y-2",
+                          take.id === selectedTakeId
+                            ? "border-blue-500 bg-blue-50"
+                            : "border-gray-200 bg-white"
+                        )}
+                      >
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="font-medium text-gray-700">
+                            Take {take.number} · {take.audioData.duration}
+                          </span>
+                          <div className="flex gap-2">
+                            {take.id === selectedTakeId ? (
+                              <Badge variant="secondary">Selected</Badge>
+                            ) : (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => selectTake(take.id)}
+                                disabled={isRecording}
+                              >
+                                Use this take
+                              </Button>
+                            )}
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => discardTake(take.id)}
+                              disabled={isRecording}
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        </div>
+                        <audio
+                          controls
+                          src={take.audioData.url}
+                          className="w-full"
+                        />
+                      </div>
+                    ))}
+                    {takes.length > 1 && (
+                      <p className="text-sm text-gray-500">
+                        Up to {APP_CONFIG.VALIDATION.MAX_TAKES} takes are kept.
+                        Record again to add another.
+                      </p>
+                    )}
+                  </div>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card className="border-0 shadow-lg bg-white/80 backdrop-blur-sm">
+            <CardHeader>
+              <CardTitle className="text-xl font-semibold">
+                Meeting Details
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ManualEntryForm
+                key={manualFormKey}
+                locale={locale}
+                onSentenceChange={setTranscription}
+                disabled={isSubmitting}
+              />
+            </CardContent>
+          </Card>
+        )}
 
         {/* Transcription Section */}
         <Card className="border-0 shadow-lg bg-white/80 backdrop-blur-sm">
@@ -185,13 +455,23 @@ export default function VoiceRecorderPage() {
             </CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
-            <Textarea
+            <TranscriptionEditor
               value={transcription}
-              onChange={(e) => setTranscription(e.target.value)}
+              onChange={setTranscription}
+              validationResult={validationResult}
+              disabled={isTranscribing}
               placeholder="Transcribed text will appear here and be validated against the required format..."
-              className="min-h-[120px] text-base"
             />
 
+            {transcriptionError && (
+              <Alert className="border-amber-200 bg-amber-50">
+                <AlertDescription className="text-amber-800 font-medium">
+                  Automatic transcription failed ({transcriptionError}). You
+                  can type the message instead.
+                </AlertDescription>
+              </Alert>
+            )}
+
             {/* Validation Status */}
             {transcription && (
               <Alert
@@ -255,6 +535,9 @@ export default function VoiceRecorderPage() {
                     <div className="text-sm text-gray-600">Speaker Name</div>
                     <div className="font-semibold">
                       {extractedData.speakerName}
+                      {isUncertain("speakerName") && (
+                        <UncertainBadge label={text.PLEASE_CHECK} />
+                      )}
                     </div>
                   </div>
                 </div>
@@ -266,6 +549,9 @@ export default function VoiceRecorderPage() {
                     <div className="text-sm text-gray-600">Group Number</div>
                     <div className="font-semibold">
                       {extractedData.groupNumber}
+                      {isUncertain("groupNumber") && (
+                        <UncertainBadge label={text.PLEASE_CHECK} />
+                      )}
                     </div>
                   </div>
                 </div>
@@ -277,6 +563,9 @@ export default function VoiceRecorderPage() {
                     <div className="text-sm text-gray-600">Person Met</div>
                     <div className="font-semibold">
                       {extractedData.personMet}
+                      {isUncertain("personMet") && (
+                        <UncertainBadge label={text.PLEASE_CHECK} />
+                      )}
                     </div>
                   </div>
                 </div>
@@ -288,9 +577,57 @@ export default function VoiceRecorderPage() {
                     <div className="text-sm text-gray-600">Location</div>
                     <div className="font-semibold">
                       {extractedData.location}
+                      {isUncertain("location") && (
+                        <UncertainBadge label={text.PLEASE_CHECK} />
+                      )}
                     </div>
                   </div>
                 </div>
+
+                {/* Extra slots from the group's sentence template */}
+                {Object.entries(validationResult.extraFields ?? {}).map(
+                  ([field, value]) => (
+                    <div
+                      key={field}
+                      className="flex items-center gap-3 p-3 bg-white rounded-lg border border-gray-200"
+                    >
+                      <FileText className="w-5 h-5 text-gray-600" />
+                      <div>
+                        <div className="text-sm text-gray-600">
+                          {formatFieldName(field)}
+                        </div>
+                        <div className="font-semibold">
+                          {value}
+                          {isUncertain(field) && (
+                            <UncertainBadge label={text.PLEASE_CHECK} />
+                          )}
+                        </div>
+                      </div>
+                    </div>
+                  )
+                )}
+
+                {/* Everyone met, when the message names several */}
+                {(validationResult.encounters?.length ?? 0) > 1 && (
+                  <div className="md:col-span-2 p-3 bg-white rounded-lg border border-gray-200">
+                    <div className="text-sm text-gray-600 mb-2">
+                      Meetings ({validationResult.encounters!.length})
+                    </div>
+                    <ul className="space-y-1">
+                      {validationResult.encounters!.map((encounter, index) => (
+                        <li
+                          key={index}
+                          className="flex items-center gap-2 font-semibold"
+                        >
+                          <User className="w-4 h-4 text-green-600" />
+                          {encounter.personMet}
+                          <MapPin className="w-4 h-4 text-red-600 ml-2" />
+                          {encounter.location}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
               </div>
             </CardContent>
           </Card>
@@ -328,6 +665,8 @@ export default function VoiceRecorderPage() {
           </CardContent>
         </Card>
 
+        <PendingUploadsPanel />
+
         {/* Success/Error Messages */}
         {submitSuccess && (
           <Alert className="border-green-200 bg-green-50">
@@ -339,11 +678,21 @@ export default function VoiceRecorderPage() {
           </Alert>
         )}
 
-        {error && (
+        {submitQueued && (
+          <Alert className="border-amber-200 bg-amber-50">
+            <AlertDescription className="text-amber-800 font-medium">
+              You appear to be offline. The recording has been saved on this
+              device and will be submitted automatically when the connection
+              returns.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {(recordingError || error) && (
           <Alert className="border-red-200 bg-red-50">
             <XCircle className="w-5 h-5 text-red-600" />
             <AlertDescription className="text-red-800 font-medium">
-              {error}
+              {localizeError(recordingError || error || "", locale)}
             </AlertDescription>
           </Alert>
         )}
@@ -351,3 +700,17 @@ export default function VoiceRecorderPage() {
     </div>
   );
 }
+
+function UncertainBadge({ label }: { label: string }) {
+  return (
+    <Badge variant="outline" className="ml-2 border-amber-300 text-amber-700">
+      {label}
+    </Badge>
+  );
+}
+
+// "meetingTopic" -> "Meeting topic"
+function formatFieldName(field: string): string {
+  const words = field.replace(/([A-Z])/g, " $1").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
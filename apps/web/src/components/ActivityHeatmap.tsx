@@ -0,0 +1,87 @@
+// apps/web/src/components/ActivityHeatmap.tsx
+"use client";
+
+import {
+  eachDayOfInterval,
+  endOfWeek,
+  format,
+  parseISO,
+  startOfWeek,
+} from "date-fns";
+import type { DailyStatistics } from "@packages/shared/types";
+import { cn } from "@/lib/utils";
+
+const LEVEL_COLORS = [
+  "bg-gray-100",
+  "bg-green-200",
+  "bg-green-400",
+  "bg-green-600",
+  "bg-green-800",
+];
+
+interface ActivityHeatmapProps {
+  daily: DailyStatistics[];
+  startDate: string; // YYYY-MM-DD
+  endDate: string;
+}
+
+/** Calendar of meetings per day: one column per week, Sunday at the top */
+export function ActivityHeatmap({
+  daily,
+  startDate,
+  endDate,
+}: ActivityHeatmapProps) {
+  const meetingsByDate = new Map(
+    daily.map((day) => [day.date, day.totalMeetings])
+  );
+  const busiest = Math.max(1, ...meetingsByDate.values());
+
+  const start = parseISO(startDate);
+  const end = parseISO(endDate);
+  const days = eachDayOfInterval({
+    start: startOfWeek(start),
+    end: endOfWeek(end),
+  });
+
+  const weeks: Date[][] = [];
+  for (let index = 0; index < days.length; index += 7) {
+    weeks.push(days.slice(index, index + 7));
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-1 overflow-x-auto">
+        {weeks.map((week) => (
+          <div key={week[0].toISOString()} className="flex flex-col gap-1">
+            {week.map((day) => {
+              const date = format(day, "yyyy-MM-dd");
+              const inRange = day >= start && day <= end;
+              const meetings = meetingsByDate.get(date) ?? 0;
+              const level = meetings
+                ? Math.ceil((meetings / busiest) * (LEVEL_COLORS.length - 1))
+                : 0;
+
+              return (
+                <div
+                  key={date}
+                  title={inRange ? `${date}: ${meetings} meetings` : undefined}
+                  className={cn(
+                    "w-3 h-3 rounded-sm",
+                    inRange ? LEVEL_COLORS[level] : "bg-transparent"
+                  )}
+                />
+              );
+            })}
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center gap-1 text-xs text-gray-500">
+        Less
+        {LEVEL_COLORS.map((color) => (
+          <div key={color} className={cn("w-3 h-3 rounded-sm", color)} />
+        ))}
+        More
+      </div>
+    </div>
+  );
+}
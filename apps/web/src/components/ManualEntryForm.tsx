@@ -0,0 +1,127 @@
+// apps/web/src/components/ManualEntryForm.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { getMeetings } from "@/lib/api";
+import { DEFAULT_TEMPLATES, composeSentence } from "@/lib/validation";
+import type {
+  Locale,
+  MeetingRecord,
+  VoiceMessage,
+} from "@packages/shared/types";
+
+type EntryField = keyof VoiceMessage;
+
+const FIELDS: Array<{ name: EntryField; label: string; placeholder: string }> =
+  [
+    { name: "speakerName", label: "Your name", placeholder: "John Smith" },
+    { name: "groupNumber", label: "Group number", placeholder: "5" },
+    { name: "personMet", label: "Person met", placeholder: "Sarah Johnson" },
+    { name: "location", label: "Location", placeholder: "the coffee shop" },
+  ];
+
+const EMPTY_VALUES: VoiceMessage = {
+  speakerName: "",
+  groupNumber: "",
+  personMet: "",
+  location: "",
+};
+
+// How many recent records to draw suggestions from (the API's page limit)
+const SUGGESTION_SOURCE_SIZE = 100;
+
+interface ManualEntryFormProps {
+  locale: Locale;
+  /** The canonical sentence, or "" until every field is filled in */
+  onSentenceChange: (sentence: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Typed alternative to recording: the fields are turned into the canonical
+ * sentence, which is then validated and submitted like a transcription.
+ */
+export function ManualEntryForm({
+  locale,
+  onSentenceChange,
+  disabled,
+}: ManualEntryFormProps) {
+  const [values, setValues] = useState<VoiceMessage>(EMPTY_VALUES);
+  const [suggestions, setSuggestions] = useState<Record<EntryField, string[]>>({
+    speakerName: [],
+    groupNumber: [],
+    personMet: [],
+    location: [],
+  });
+
+  // Suggestions are a convenience; the form works without them
+  useEffect(() => {
+    getMeetings({ limit: SUGGESTION_SOURCE_SIZE })
+      .then((response) => setSuggestions(collectSuggestions(response.data)))
+      .catch((err) => console.warn("Could not load suggestions:", err));
+  }, []);
+
+  useEffect(() => {
+    const complete = FIELDS.every(({ name }) => values[name].trim());
+    onSentenceChange(
+      complete ? composeSentence(DEFAULT_TEMPLATES[locale], { ...values }) : ""
+    );
+  }, [values, locale, onSentenceChange]);
+
+  return (
+    <div className="grid gap-4 md:grid-cols-2">
+      {FIELDS.map(({ name, label, placeholder }) => (
+        <label key={name} className="space-y-1 text-left">
+          <span className="text-sm text-gray-600">{label}</span>
+          <Input
+            value={values[name]}
+            onChange={(event) =>
+              setValues((current) => ({
+                ...current,
+                [name]: event.target.value,
+              }))
+            }
+            placeholder={placeholder}
+            list={`manual-entry-${name}`}
+            inputMode={name === "groupNumber" ? "numeric" : undefined}
+            disabled={disabled}
+          />
+          <datalist id={`manual-entry-${name}`}>
+            {suggestions[name].map((value) => (
+              <option key={value} value={value} />
+            ))}
+          </datalist>
+        </label>
+      ))}
+    </div>
+  );
+}
+
+/** Distinct values per field, most recent first */
+function collectSuggestions(
+  records: MeetingRecord[] = []
+): Record<EntryField, string[]> {
+  const seen: Record<EntryField, Set<string>> = {
+    speakerName: new Set(),
+    groupNumber: new Set(),
+    personMet: new Set(),
+    location: new Set(),
+  };
+
+  for (const record of records) {
+    seen.speakerName.add(record.speakerName);
+    seen.groupNumber.add(record.groupNumber);
+    for (const encounter of record.encounters ?? [record]) {
+      seen.personMet.add(encounter.personMet);
+      seen.location.add(encounter.location);
+    }
+  }
+
+  return {
+    speakerName: [...seen.speakerName],
+    groupNumber: [...seen.groupNumber],
+    personMet: [...seen.personMet],
+    location: [...seen.location],
+  };
+}
@@ -0,0 +1,154 @@
+// apps/web/src/components/MeetingDetailDrawer.tsx
+"use client";
+
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Badge } from "@/components/ui/badge";
+import { Calendar, MapPin, User, Users } from "lucide-react";
+import { EntryMode, MeetingRecord } from "@packages/shared/types";
+import { resolveApiUrl } from "@/lib/api";
+import { FEEDBACK_TEXT } from "@/lib/constants";
+
+interface MeetingDetailDrawerProps {
+  record: MeetingRecord | null;
+  onClose: () => void;
+}
+
+/** Everything stored for one record: audio, transcript and sync state */
+export function MeetingDetailDrawer({
+  record,
+  onClose,
+}: MeetingDetailDrawerProps) {
+  return (
+    <Sheet open={!!record} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+        {record && (
+          <div className="space-y-6">
+            <SheetHeader>
+              <SheetTitle className="flex items-center gap-2">
+                <Calendar className="w-5 h-5 text-orange-600" />
+                {record.recordingDateDisplay}
+              </SheetTitle>
+              <SheetDescription>
+                {record.recordingTime} · {record.recordingDuration} ·{" "}
+                {FEEDBACK_TEXT[record.language]?.LANGUAGE_NAME ??
+                  record.language}
+              </SheetDescription>
+            </SheetHeader>
+
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="secondary">{record.status}</Badge>
+              <Badge variant="outline">{record.processingStatus}</Badge>
+              {record.entryMode === EntryMode.MANUAL && (
+                <Badge variant="outline">Typed</Badge>
+              )}
+            </div>
+
+            {/* Audio */}
+            {record.audioFileUrl ? (
+              <section className="space-y-2">
+                <h3 className="text-sm font-semibold text-gray-700">
+                  Recording
+                </h3>
+                <audio
+                  controls
+                  preload="none"
+                  src={resolveApiUrl(record.audioFileUrl)}
+                  className="w-full"
+                />
+                {record.normalizedAudioUrl && (
+                  <>
+                    <h3 className="text-sm font-semibold text-gray-700">
+                      Normalized
+                    </h3>
+                    <audio
+                      controls
+                      preload="none"
+                      src={resolveApiUrl(record.normalizedAudioUrl)}
+                      className="w-full"
+                    />
+                  </>
+                )}
+              </section>
+            ) : (
+              <p className="text-sm text-gray-500">No audio stored.</p>
+            )}
+
+            {/* Extracted fields */}
+            <section className="space-y-2">
+              <h3 className="text-sm font-semibold text-gray-700">
+                Extracted Information
+              </h3>
+              <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+                <dt className="text-gray-600 flex items-center gap-1">
+                  <User className="w-4 h-4" /> Speaker
+                </dt>
+                <dd className="font-medium">{record.speakerName}</dd>
+                <dt className="text-gray-600 flex items-center gap-1">
+                  <Users className="w-4 h-4" /> Group
+                </dt>
+                <dd className="font-medium">{record.groupNumber}</dd>
+                {Object.entries(record.extraFields ?? {}).map(
+                  ([field, value]) => (
+                    <div key={field} className="contents">
+                      <dt className="text-gray-600">{field}</dt>
+                      <dd className="font-medium">{value}</dd>
+                    </div>
+                  )
+                )}
+              </dl>
+              <ul className="space-y-1 text-sm">
+                {record.encounters.map((encounter, index) => (
+                  <li key={index} className="flex items-center gap-2">
+                    <User className="w-4 h-4 text-green-600" />
+                    {encounter.personMet}
+                    <MapPin className="w-4 h-4 text-red-600 ml-2" />
+                    {encounter.location}
+                  </li>
+                ))}
+              </ul>
+            </section>
+
+            {/* Transcript */}
+            <section className="space-y-2">
+              <h3 className="text-sm font-semibold text-gray-700">
+                Transcription
+              </h3>
+              <p className="text-sm text-gray-800 whitespace-pre-wrap bg-gray-50 rounded-lg p-3 border border-gray-200">
+                {record.fullTranscription}
+              </p>
+              {record.validationScore != null && (
+                <p className="text-xs text-gray-500">
+                  Confidence {Math.round(record.validationScore * 100)}%
+                </p>
+              )}
+            </section>
+
+            {/* Sync status */}
+            <section className="space-y-1 text-sm">
+              <h3 className="text-sm font-semibold text-gray-700">
+                Google Sheets
+              </h3>
+              {record.syncedToSheets ? (
+                <p className="text-green-700">
+                  Synced
+                  {record.sheetsLastSync &&
+                    ` ${new Date(record.sheetsLastSync).toLocaleString()}`}
+                  {record.googleSheetsRowId &&
+                    ` (row ${record.googleSheetsRowId})`}
+                </p>
+              ) : (
+                <p className="text-amber-700">Not synced yet</p>
+              )}
+            </section>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
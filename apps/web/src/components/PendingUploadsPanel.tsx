@@ -0,0 +1,84 @@
+// apps/web/src/components/PendingUploadsPanel.tsx
+"use client";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { CloudOff, RotateCw, Trash2 } from "lucide-react";
+import { useOutbox } from "@/hooks/useOutbox";
+import { formatFileSize, truncateText } from "@/lib/utils";
+import { formatTimeDisplay } from "@/lib/dateUtils";
+
+/** Submissions saved offline, with per-item retry and discard */
+export function PendingUploadsPanel() {
+  const { items, retry, discard } = useOutbox();
+
+  if (items.length === 0) return null;
+
+  return (
+    <Card className="border-0 shadow-lg bg-white/80 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="text-xl font-semibold flex items-center gap-2">
+          <CloudOff className="w-5 h-5 text-amber-600" />
+          Pending uploads ({items.length})
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {items.map((item) => (
+          <div
+            key={item.id}
+            className="flex items-center justify-between gap-4 p-3 bg-white rounded-lg border border-gray-200"
+          >
+            <div className="min-w-0 space-y-1">
+              <div className="flex items-center gap-2">
+                <Badge
+                  variant={
+                    item.status === "failed" ? "destructive" : "secondary"
+                  }
+                >
+                  {item.status === "failed"
+                    ? "Needs attention"
+                    : item.status === "sending"
+                      ? "Sending..."
+                      : "Waiting for network"}
+                </Badge>
+                <span className="text-sm text-gray-500">
+                  {formatTimeDisplay(new Date(item.createdAt))} ·{" "}
+                  {item.recordingDuration}
+                  {item.audio && ` · ${formatFileSize(item.audio.size)}`}
+                </span>
+              </div>
+              <p className="text-sm text-gray-800 truncate">
+                {truncateText(item.fullTranscription, 80)}
+              </p>
+              {item.lastError && (
+                <p className="text-xs text-red-600">{item.lastError}</p>
+              )}
+            </div>
+
+            <div className="flex gap-2 shrink-0">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => retry(item.id)}
+                disabled={item.status === "sending"}
+              >
+                <RotateCw className="w-4 h-4 mr-1" />
+                Retry
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => discard(item.id)}
+                disabled={item.status === "sending"}
+              >
+                <Trash2 className="w-4 h-4 mr-1" />
+                Discard
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,148 @@
+// apps/web/src/components/TranscriptionEditor.tsx
+"use client";
+
+import { useRef } from "react";
+import { Textarea } from "@/components/ui/textarea";
+import { cn, truncateText } from "@/lib/utils";
+import type { ValidationResult } from "@packages/shared/types";
+
+interface TranscriptionEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  validationResult: ValidationResult;
+  disabled?: boolean;
+  placeholder?: string;
+}
+
+type Highlight = "phrase" | "value" | "invalid" | "divergence";
+
+interface Segment {
+  text: string;
+  highlight?: Highlight;
+}
+
+const HIGHLIGHT_CLASSES: Record<Highlight, string> = {
+  phrase: "bg-green-100",
+  value: "bg-green-200",
+  invalid: "bg-red-200",
+  divergence: "bg-amber-200",
+};
+
+/**
+ * The transcription textarea, with the clauses the validator recognised
+ * highlighted behind the text and a suggestion for each problem below it.
+ */
+export function TranscriptionEditor({
+  value,
+  onChange,
+  validationResult,
+  disabled,
+  placeholder,
+}: TranscriptionEditorProps) {
+  const backdropRef = useRef<HTMLDivElement>(null);
+  const { spans = [], divergence } = validationResult;
+
+  const suggestions = [
+    ...spans
+      .filter((span) => span.reason)
+      .map((span) => ({
+        key: span.field,
+        message: span.reason!,
+        excerpt: value.slice(span.valueStart, span.end),
+      })),
+    ...(divergence
+      ? [
+          {
+            key: "divergence",
+            message: divergence.message,
+            excerpt: truncateText(value.slice(divergence.offset).trim(), 40),
+          },
+        ]
+      : []),
+  ];
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        {/* Same box and font as the textarea, so the marks sit under the text */}
+        <div
+          ref={backdropRef}
+          aria-hidden
+          className="absolute inset-0 overflow-hidden whitespace-pre-wrap break-words rounded-md border border-transparent px-3 py-2 text-base text-transparent"
+        >
+          {toSegments(value, validationResult).map((segment, index) =>
+            segment.highlight ? (
+              <mark
+                key={index}
+                className={cn(
+                  "rounded-sm text-transparent",
+                  HIGHLIGHT_CLASSES[segment.highlight]
+                )}
+              >
+                {segment.text}
+              </mark>
+            ) : (
+              <span key={index}>{segment.text}</span>
+            )
+          )}
+          {/* Keeps a trailing newline from collapsing */}
+          {"\u200b"}
+        </div>
+        <Textarea
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onScroll={(e) => {
+            if (backdropRef.current) {
+              backdropRef.current.scrollTop = e.currentTarget.scrollTop;
+            }
+          }}
+          disabled={disabled}
+          placeholder={placeholder}
+          className="relative min-h-[120px] bg-transparent text-base"
+        />
+      </div>
+
+      {suggestions.length > 0 && (
+        <ul className="space-y-1 text-sm">
+          {suggestions.map((suggestion) => (
+            <li key={suggestion.key} className="text-red-700">
+              {suggestion.message}
+              {suggestion.excerpt && (
+                <span className="text-gray-500"> — "{suggestion.excerpt}"</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+/** Splits the text into plain and highlighted runs, in order */
+function toSegments(text: string, result: ValidationResult): Segment[] {
+  const ranges: Array<[number, number, Highlight]> = [];
+
+  for (const span of result.spans ?? []) {
+    ranges.push([span.start, span.valueStart, "phrase"]);
+    ranges.push([span.valueStart, span.end, span.valid ? "value" : "invalid"]);
+  }
+  if (result.divergence && result.divergence.offset < text.length) {
+    ranges.push([result.divergence.offset, text.length, "divergence"]);
+  }
+
+  const segments: Segment[] = [];
+  let position = 0;
+
+  for (const [start, end, highlight] of ranges) {
+    // Spans from a stale result may not fit the text any more
+    if (start < position || end > text.length) continue;
+    if (start > position) {
+      segments.push({ text: text.slice(position, start) });
+    }
+    segments.push({ text: text.slice(start, end), highlight });
+    position = end;
+  }
+  segments.push({ text: text.slice(position) });
+
+  return segments;
+}
@@ -1,133 +1,417 @@
 // apps/web/src/hooks/useVoiceRecording.ts
 import { useState, useRef, useCallback } from "react";
 import { AudioRecordingData } from "@packages/shared/types";
+import {
+  ChunkedUploader,
+  ChunkedUploadProgress,
+  INITIAL_UPLOAD_PROGRESS,
+} from "@/lib/chunkedUpload";
+import { monitorAudioLevel } from "@/lib/audioLevel";
+import { AudioRecorder, createAudioRecorder } from "@/lib/recorder";
+import { generateId } from "@/lib/utils";
+import { APP_CONFIG, ERROR_MESSAGES } from "@/lib/constants";
+
+export type RecordingStopReason = "manual" | "silence" | "max-duration";
+
+export interface RecordingTake {
+  id: string;
+  number: number; // 1-based, for display ("Take 2")
+  audioData: AudioRecordingData;
+  durationMs: number;
+  recordedAt: number;
+}
+
+interface UseVoiceRecordingOptions {
+  /** Stop automatically once the speaker has been silent for a while */
+  autoStopOnSilence?: boolean;
+  silenceTimeoutMs?: number;
+  /** Takes kept in memory for review; the oldest is dropped beyond this */
+  maxTakes?: number;
+}
 
 interface UseVoiceRecordingReturn {
   isRecording: boolean;
+  isPaused: boolean;
   recordingDuration: string;
+  /** The selected take's audio */
   audioData: AudioRecordingData | null;
   isProcessing: boolean;
   error: string | null;
+  upload: ChunkedUploadProgress;
+  /** Input level, 0..1 */
+  audioLevel: number;
+  /** Peak amplitude per bar, 0..1, for rendering a live waveform */
+  waveform: number[];
+  /** No input above the silence threshold for silenceTimeoutMs */
+  isSilent: boolean;
+  stopReason: RecordingStopReason | null;
+  takes: RecordingTake[];
+  selectedTakeId: string | null;
   startRecording: () => Promise<void>;
+  pauseRecording: () => void;
+  resumeRecording: () => void;
   stopRecording: () => void;
   resetRecording: () => void;
+  selectTake: (id: string) => void;
+  discardTake: (id: string) => void;
+  /** Resolves with the selected take's upload id, or null if streaming failed */
+  waitForUpload: () => Promise<string | null>;
+}
+
+interface TakeUpload {
+  uploader: ChunkedUploader;
+  result: Promise<string | null>;
 }
 
-export function useVoiceRecording(): UseVoiceRecordingReturn {
+const MIN_DURATION_MS = APP_CONFIG.VALIDATION.MIN_RECORDING_DURATION * 1000;
+const MAX_DURATION_MS = APP_CONFIG.VALIDATION.MAX_RECORDING_DURATION * 1000;
+
+function formatElapsed(elapsed: number): string {
+  const minutes = Math.floor(elapsed / 60000);
+  const seconds = Math.floor((elapsed % 60000) / 1000);
+  return `${minutes.toString().padStart(2, "0")}:${seconds
+    .toString()
+    .padStart(2, "0")}`;
+}
+
+export function useVoiceRecording(
+  options: UseVoiceRecordingOptions = {}
+): UseVoiceRecordingReturn {
+  const {
+    autoStopOnSilence = false,
+    silenceTimeoutMs = APP_CONFIG.VALIDATION.SILENCE_TIMEOUT_MS,
+    maxTakes = APP_CONFIG.VALIDATION.MAX_TAKES,
+  } = options;
+
   const [isRecording, setIsRecording] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
   const [recordingDuration, setRecordingDuration] = useState("00:00");
-  const [audioData, setAudioData] = useState<AudioRecordingData | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
-
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  const [uploads, setUploads] = useState<Record<string, ChunkedUploadProgress>>(
+    {}
+  );
+  const [audioLevel, setAudioLevel] = useState(0);
+  const [waveform, setWaveform] = useState<number[]>([]);
+  const [isSilent, setIsSilent] = useState(false);
+  const [stopReason, setStopReason] = useState<RecordingStopReason | null>(
+    null
+  );
+  const [takes, setTakes] = useState<RecordingTake[]>([]);
+  const [selectedTakeId, setSelectedTakeId] = useState<string | null>(null);
+
+  const takesRef = useRef<RecordingTake[]>([]);
+  const takeUploadsRef = useRef(new Map<string, TakeUpload>());
+  const takeCounterRef = useRef(0);
+  const currentTakeIdRef = useRef<string | null>(null);
+  const discardOnStopRef = useRef(false);
+  const recorderRef = useRef<AudioRecorder | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
-  const audioChunksRef = useRef<Blob[]>([]);
-  const startTimeRef = useRef<number | null>(null);
+  // Elapsed time is accumulated across pauses
+  const segmentStartRef = useRef<number | null>(null);
+  const accumulatedMsRef = useRef(0);
   const timerIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const maxDurationTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const stopMonitorRef = useRef<(() => void) | null>(null);
+  const silenceStartRef = useRef<number | null>(null);
+  const heardSpeechRef = useRef(false);
+  const isPausedRef = useRef(false);
+
+  const elapsedMs = useCallback(
+    () =>
+      accumulatedMsRef.current +
+      (segmentStartRef.current ? Date.now() - segmentStartRef.current : 0),
+    []
+  );
 
   const startTimer = useCallback(() => {
-    startTimeRef.current = Date.now();
+    segmentStartRef.current = Date.now();
     timerIntervalRef.current = setInterval(() => {
-      if (startTimeRef.current) {
-        const elapsed = Date.now() - startTimeRef.current;
-        const minutes = Math.floor(elapsed / 60000);
-        const seconds = Math.floor((elapsed % 60000) / 1000);
-        setRecordingDuration(
-          `${minutes.toString().padStart(2, "0")}:${seconds
-            .toString()
-            .padStart(2, "0")}`
-        );
-      }
+      setRecordingDuration(formatElapsed(elapsedMs()));
     }, 1000);
-  }, []);
+  }, [elapsedMs]);
 
   const stopTimer = useCallback(() => {
+    accumulatedMsRef.current = elapsedMs();
+    segmentStartRef.current = null;
+
     if (timerIntervalRef.current) {
       clearInterval(timerIntervalRef.current);
       timerIntervalRef.current = null;
     }
+    if (maxDurationTimerRef.current) {
+      clearTimeout(maxDurationTimerRef.current);
+      maxDurationTimerRef.current = null;
+    }
+  }, [elapsedMs]);
+
+  const stopMonitor = useCallback(() => {
+    stopMonitorRef.current?.();
+    stopMonitorRef.current = null;
+    silenceStartRef.current = null;
+    heardSpeechRef.current = false;
+    setAudioLevel(0);
+    setWaveform([]);
+    setIsSilent(false);
+  }, []);
+
+  const releaseTake = useCallback((id: string) => {
+    const take = takesRef.current.find((entry) => entry.id === id);
+    if (take) URL.revokeObjectURL(take.audioData.url);
+
+    takeUploadsRef.current.get(id)?.uploader.abort();
+    takeUploadsRef.current.delete(id);
+    setUploads(({ [id]: _released, ...rest }) => rest);
   }, []);
 
+  const addTake = useCallback(
+    (take: RecordingTake) => {
+      const kept = [...takesRef.current, take];
+      const evicted =
+        kept.length > maxTakes ? kept.splice(0, kept.length - maxTakes) : [];
+      evicted.forEach((entry) => releaseTake(entry.id));
+
+      takesRef.current = kept;
+      setTakes(kept);
+      setSelectedTakeId(take.id);
+    },
+    [maxTakes, releaseTake]
+  );
+
+  const finishRecording = useCallback(
+    (reason: RecordingStopReason) => {
+      const recorder = recorderRef.current;
+      if (!recorder || recorder.state === "inactive") return;
+
+      setStopReason(reason);
+      setIsProcessing(true);
+      stopTimer();
+      recorder.stop();
+      setIsRecording(false);
+      setIsPaused(false);
+      isPausedRef.current = false;
+      stopMonitor();
+    },
+    [stopTimer, stopMonitor]
+  );
+
+  const armMaxDurationTimer = useCallback(() => {
+    maxDurationTimerRef.current = setTimeout(
+      () => finishRecording("max-duration"),
+      Math.max(0, MAX_DURATION_MS - accumulatedMsRef.current)
+    );
+  }, [finishRecording]);
+
   const startRecording = useCallback(async () => {
+    let stream: MediaStream | null = null;
+
     try {
       setError(null);
+      setStopReason(null);
       setIsProcessing(true);
 
       // Request microphone access
-      const stream = await navigator.mediaDevices.getUserMedia({
+      stream = await navigator.mediaDevices.getUserMedia({
         audio: {
           echoCancellation: true,
           noiseSuppression: true,
           autoGainControl: true,
         },
       });
+    } catch (err) {
+      console.error("Error starting recording:", err);
+      setError(ERROR_MESSAGES.MICROPHONE_ACCESS);
+      setIsProcessing(false);
+      return;
+    }
 
+    try {
+      // MediaRecorder in the best supported format, or the WAV fallback
+      const recorder = await createAudioRecorder(stream);
+      recorderRef.current = recorder;
       streamRef.current = stream;
-      audioChunksRef.current = [];
-
-      // Create MediaRecorder
-      const mediaRecorder = new MediaRecorder(stream, {
-        mimeType: "audio/webm;codecs=opus",
+      accumulatedMsRef.current = 0;
+      discardOnStopRef.current = false;
+      setRecordingDuration("00:00");
+
+      // Each take streams its chunks to the server while recording
+      const takeId = generateId();
+      currentTakeIdRef.current = takeId;
+      const uploader = new ChunkedUploader(recorder.mimeType, (progress) =>
+        setUploads((previous) => ({ ...previous, [takeId]: progress }))
+      );
+      takeUploadsRef.current.set(takeId, {
+        uploader,
+        result: Promise.resolve(null),
       });
-      mediaRecorderRef.current = mediaRecorder;
 
       // Handle data available
-      mediaRecorder.ondataavailable = (event) => {
-        if (event.data.size > 0) {
-          audioChunksRef.current.push(event.data);
-        }
-      };
+      recorder.ondataavailable = (chunk) => uploader.append(chunk);
 
       // Handle recording stop
-      mediaRecorder.onstop = () => {
-        const audioBlob = new Blob(audioChunksRef.current, {
-          type: "audio/webm;codecs=opus",
+      recorder.onstop = (audioBlob) => {
+        // Cleanup stream
+        stream?.getTracks().forEach((track) => track.stop());
+        if (streamRef.current === stream) streamRef.current = null;
+        setIsProcessing(false);
+
+        const durationMs = accumulatedMsRef.current;
+        if (discardOnStopRef.current || durationMs < MIN_DURATION_MS) {
+          releaseTake(takeId);
+          if (!discardOnStopRef.current) {
+            setError(ERROR_MESSAGES.RECORDING_TOO_SHORT);
+          }
+          return;
+        }
+
+        const duration = formatElapsed(durationMs);
+
+        // The final chunk has been delivered by now
+        takeUploadsRef.current.set(takeId, {
+          uploader,
+          result: uploader.finish().then(
+            (session) => session.id,
+            (err) => {
+              console.error("Resumable upload failed:", err);
+              return null;
+            }
+          ),
         });
-        const audioUrl = URL.createObjectURL(audioBlob);
 
-        setAudioData({
-          blob: audioBlob,
-          url: audioUrl,
-          duration: recordingDuration,
-          size: audioBlob.size,
+        setRecordingDuration(duration);
+        addTake({
+          id: takeId,
+          number: (takeCounterRef.current += 1),
+          audioData: {
+            blob: audioBlob,
+            url: URL.createObjectURL(audioBlob),
+            duration,
+            size: audioBlob.size,
+            mimeType: recorder.mimeType,
+            codec: recorder.codec,
+            encoder: recorder.encoder,
+          },
+          durationMs,
+          recordedAt: Date.now(),
         });
+      };
 
-        // Cleanup stream
-        if (streamRef.current) {
-          streamRef.current.getTracks().forEach((track) => track.stop());
-          streamRef.current = null;
+      // Live level meter and silence detection
+      stopMonitorRef.current = monitorAudioLevel(stream, (frame) => {
+        setAudioLevel(frame.level);
+        setWaveform(frame.waveform);
+
+        // Silence while paused is expected
+        if (isPausedRef.current) {
+          silenceStartRef.current = null;
+          setIsSilent(false);
+          return;
         }
 
-        setIsProcessing(false);
-      };
+        const now = Date.now();
+        if (frame.decibels >= APP_CONFIG.VALIDATION.SILENCE_THRESHOLD_DB) {
+          heardSpeechRef.current = true;
+          silenceStartRef.current = null;
+          setIsSilent(false);
+          return;
+        }
+
+        silenceStartRef.current ??= now;
+        const silentLongEnough =
+          now - silenceStartRef.current >= silenceTimeoutMs;
+        setIsSilent(silentLongEnough);
+
+        // Only after the speaker has said something, so a quiet start
+        // does not end the recording before it begins
+        if (autoStopOnSilence && silentLongEnough && heardSpeechRef.current) {
+          finishRecording("silence");
+        }
+      });
 
       // Start recording
-      mediaRecorder.start(1000); // Collect data every second
+      recorder.start(APP_CONFIG.RECORDING.TIMESLICE_MS);
       setIsRecording(true);
+      setIsPaused(false);
+      isPausedRef.current = false;
       setIsProcessing(false);
       startTimer();
+      armMaxDurationTimer();
     } catch (err) {
       console.error("Error starting recording:", err);
-      setError("Could not access microphone. Please check permissions.");
+      stream.getTracks().forEach((track) => track.stop());
+      stopMonitor();
+      setError(
+        err instanceof Error &&
+          err.message === ERROR_MESSAGES.RECORDING_UNSUPPORTED
+          ? err.message
+          : ERROR_MESSAGES.RECORDING_FAILED
+      );
       setIsProcessing(false);
     }
-  }, [recordingDuration, startTimer]);
+  }, [
+    autoStopOnSilence,
+    silenceTimeoutMs,
+    finishRecording,
+    startTimer,
+    armMaxDurationTimer,
+    stopMonitor,
+    addTake,
+    releaseTake,
+  ]);
 
-  const stopRecording = useCallback(() => {
-    if (mediaRecorderRef.current && isRecording) {
-      setIsProcessing(true);
-      mediaRecorderRef.current.stop();
-      setIsRecording(false);
-      stopTimer();
+  const pauseRecording = useCallback(() => {
+    const recorder = recorderRef.current;
+    if (!recorder || recorder.state !== "recording") return;
+
+    recorder.pause();
+    stopTimer();
+    setRecordingDuration(formatElapsed(accumulatedMsRef.current));
+    setIsPaused(true);
+    isPausedRef.current = true;
+  }, [stopTimer]);
+
+  const resumeRecording = useCallback(() => {
+    const recorder = recorderRef.current;
+    if (!recorder || recorder.state !== "paused") return;
+
+    recorder.resume();
+    startTimer();
+    armMaxDurationTimer();
+    setIsPaused(false);
+    isPausedRef.current = false;
+  }, [startTimer, armMaxDurationTimer]);
+
+  const stopRecording = useCallback(
+    () => finishRecording("manual"),
+    [finishRecording]
+  );
+
+  const selectTake = useCallback((id: string) => {
+    if (takesRef.current.some((take) => take.id === id)) {
+      setSelectedTakeId(id);
     }
-  }, [isRecording, stopTimer]);
+  }, []);
+
+  const discardTake = useCallback(
+    (id: string) => {
+      releaseTake(id);
+      const remaining = takesRef.current.filter((take) => take.id !== id);
+      takesRef.current = remaining;
+      setTakes(remaining);
+      setSelectedTakeId((selected) =>
+        selected === id
+          ? (remaining[remaining.length - 1]?.id ?? null)
+          : selected
+      );
+    },
+    [releaseTake]
+  );
 
   const resetRecording = useCallback(() => {
-    // Stop any ongoing recording
-    if (isRecording) {
-      stopRecording();
-    }
+    // Stop any ongoing recording without keeping it as a take
+    discardOnStopRef.current = true;
+    finishRecording("manual");
+    stopMonitor();
 
     // Cleanup resources
     if (streamRef.current) {
@@ -135,33 +419,58 @@ export function useVoiceRecording(): UseVoiceRecordingReturn {
       streamRef.current = null;
     }
 
-    if (audioData?.url) {
-      URL.revokeObjectURL(audioData.url);
-    }
+    takesRef.current.forEach((take) => releaseTake(take.id));
+    takesRef.current = [];
 
     // Reset state
     setIsRecording(false);
+    setIsPaused(false);
+    isPausedRef.current = false;
     setRecordingDuration("00:00");
-    setAudioData(null);
+    setTakes([]);
+    setSelectedTakeId(null);
     setIsProcessing(false);
     setError(null);
+    setStopReason(null);
 
     // Clear refs
-    mediaRecorderRef.current = null;
-    audioChunksRef.current = [];
-    startTimeRef.current = null;
+    recorderRef.current = null;
+    accumulatedMsRef.current = 0;
     stopTimer();
-  }, [isRecording, stopRecording, audioData?.url, stopTimer]);
+  }, [finishRecording, stopMonitor, releaseTake, stopTimer]);
+
+  const waitForUpload = useCallback(
+    () =>
+      (selectedTakeId && takeUploadsRef.current.get(selectedTakeId)?.result) ||
+      Promise.resolve(null),
+    [selectedTakeId]
+  );
+
+  const selectedTake = takes.find((take) => take.id === selectedTakeId);
+  const uploadTakeId = isRecording ? currentTakeIdRef.current : selectedTakeId;
 
   return {
     isRecording,
+    isPaused,
     recordingDuration,
-    audioData,
+    audioData: selectedTake?.audioData ?? null,
     isProcessing,
     error,
+    upload: (uploadTakeId && uploads[uploadTakeId]) || INITIAL_UPLOAD_PROGRESS,
+    audioLevel,
+    waveform,
+    isSilent,
+    stopReason,
+    takes,
+    selectedTakeId,
     startRecording,
+    pauseRecording,
+    resumeRecording,
     stopRecording,
     resetRecording,
+    selectTake,
+    discardTake,
+    waitForUpload,
   };
 }
 
@@ -171,9 +480,18 @@ import {
   ValidationResult,
   VoiceMessage,
   CreateMeetingRecordDto,
+  GroupTemplate,
+  Locale,
 } from "@packages/shared/types";
 import { validateTranscription } from "@/lib/validation";
-import { submitMeetingRecord } from "@/lib/api";
+import { getGroupTemplates } from "@/lib/api";
+import { submitViaOutbox } from "@/lib/outbox";
+import { ERROR_MESSAGES } from "@/lib/constants";
+
+interface UseTranscriptionValidationOptions {
+  /** Language of the feedback; also tried first when detecting the message's */
+  locale?: Locale;
+}
 
 interface UseTranscriptionValidationReturn {
   transcription: string;
@@ -182,12 +500,16 @@ interface UseTranscriptionValidationReturn {
   extractedData: VoiceMessage | null;
   isSubmitting: boolean;
   submitSuccess: boolean;
+  /** Saved to the offline outbox; it will be sent when the network returns */
+  submitQueued: boolean;
   error: string | null;
   submitRecord: (data: CreateMeetingRecordDto) => Promise<void>;
   resetForm: () => void;
 }
 
-export function useTranscriptionValidation(): UseTranscriptionValidationReturn {
+export function useTranscriptionValidation({
+  locale = "en",
+}: UseTranscriptionValidationOptions = {}): UseTranscriptionValidationReturn {
   const [transcription, setTranscription] = useState("");
   const [validationResult, setValidationResult] = useState<ValidationResult>({
     isValid: false,
@@ -197,12 +519,25 @@ export function useTranscriptionValidation(): UseTranscriptionValidationReturn {
   const [extractedData, setExtractedData] = useState<VoiceMessage | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitSuccess, setSubmitSuccess] = useState(false);
+  const [submitQueued, setSubmitQueued] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [templates, setTemplates] = useState<GroupTemplate[]>([]);
+
+  // Groups with their own sentence template; the server re-checks anyway,
+  // so without them the form just validates against the default sentence
+  useEffect(() => {
+    getGroupTemplates()
+      .then(setTemplates)
+      .catch((err) => console.warn("Could not load group templates:", err));
+  }, []);
 
   // Validate transcription whenever it changes
   useEffect(() => {
     if (transcription.trim()) {
-      const result = validateTranscription(transcription);
+      const result = validateTranscription(transcription, {
+        templates,
+        locale,
+      });
       setValidationResult(result);
       setExtractedData(result.extractedData);
     } else {
@@ -213,29 +548,33 @@ export function useTranscriptionValidation(): UseTranscriptionValidationReturn {
       });
       setExtractedData(null);
     }
-  }, [transcription]);
+  }, [transcription, templates, locale]);
 
   const submitRecord = useCallback(
     async (data: CreateMeetingRecordDto) => {
       if (!validationResult.isValid || !extractedData) {
-        setError(
-          "Please ensure the transcription follows the required format."
-        );
+        setError(ERROR_MESSAGES.VALIDATION_ERROR);
         return;
       }
 
       setIsSubmitting(true);
       setError(null);
       setSubmitSuccess(false);
+      setSubmitQueued(false);
 
       try {
-        await submitMeetingRecord(data);
-        setSubmitSuccess(true);
+        const result = await submitViaOutbox(data);
+        if (result.status === "sent") {
+          setSubmitSuccess(true);
+        } else {
+          setSubmitQueued(true);
+        }
 
         // Reset form after successful submission
         setTimeout(() => {
           setTranscription("");
           setSubmitSuccess(false);
+          setSubmitQueued(false);
         }, 3000);
       } catch (err) {
         console.error("Failed to submit meeting record:", err);
@@ -261,6 +600,7 @@ export function useTranscriptionValidation(): UseTranscriptionValidationReturn {
     setExtractedData(null);
     setIsSubmitting(false);
     setSubmitSuccess(false);
+    setSubmitQueued(false);
     setError(null);
   }, []);
 
@@ -271,55 +611,58 @@ export function useTranscriptionValidation(): UseTranscriptionValidationReturn {
     extractedData,
     isSubmitting,
     submitSuccess,
+    submitQueued,
     error,
     submitRecord,
     resetForm,
   };
 }
 
-// apps/web/src/hooks/useMockTranscription.ts
+// apps/web/src/hooks/useTranscription.ts
 import { useState, useCallback } from "react";
+import {
+  TranscriptionRequestOptions,
+  TranscriptionResult,
+} from "@packages/shared/types";
+import { transcribeAudio as requestTranscription } from "@/lib/api";
 
-const MOCK_TRANSCRIPTIONS = [
-  "My name is John Smith and I belong to group 5 and today I met Sarah Johnson at the coffee shop.",
-  "My name is Maria Garcia and I belong to group 12 and today I met David Wilson at the library.",
-  "My name is Alex Chen and I belong to group 3 and today I met Emma Brown at the park.",
-  "My name is Michael Davis and I belong to group 8 and today I met Lisa Anderson at the office.",
-  "My name is Jennifer Taylor and I belong to group 1 and today I met Robert Martinez at the restaurant.",
-  "My name is Amy Rodriguez and I belong to group 7 and today I met Kevin Lee at the university.",
-  "My name is Robert Johnson and I belong to group 15 and today I met Michelle Wong at the gym.",
-  "My name is Lisa Zhang and I belong to group 4 and today I met James Miller at the bookstore.",
-];
-
-interface UseMockTranscriptionReturn {
+interface UseTranscriptionReturn {
   isTranscribing: boolean;
-  transcribeAudio: (audioBlob: Blob) => Promise<string>;
+  error: string | null;
+  transcribeAudio: (audioBlob: Blob) => Promise<TranscriptionResult>;
 }
 
-export function useMockTranscription(): UseMockTranscriptionReturn {
+export function useTranscription(
+  options: TranscriptionRequestOptions = {}
+): UseTranscriptionReturn {
   const [isTranscribing, setIsTranscribing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { provider, language } = options;
 
   const transcribeAudio = useCallback(
-    async (audioBlob: Blob): Promise<string> => {
+    async (audioBlob: Blob): Promise<TranscriptionResult> => {
       setIsTranscribing(true);
+      setError(null);
 
-      // Simulate API call delay
-      await new Promise((resolve) => setTimeout(resolve, 2000));
-
-      // Return random mock transcription
-      const randomIndex = Math.floor(
-        Math.random() * MOCK_TRANSCRIPTIONS.length
-      );
-      const transcription = MOCK_TRANSCRIPTIONS[randomIndex];
-
-      setIsTranscribing(false);
-      return transcription;
+      try {
+        return await requestTranscription(audioBlob, { provider, language });
+      } catch (err) {
+        setError(
+          err instanceof Error
+            ? err.message
+            : "Transcription failed. Please try again."
+        );
+        throw err;
+      } finally {
+        setIsTranscribing(false);
+      }
     },
-    []
+    [provider, language]
   );
 
   return {
     isTranscribing,
+    error,
     transcribeAudio,
   };
 }
@@ -327,34 +670,46 @@ export function useMockTranscription(): UseMockTranscriptionReturn {
 // apps/web/src/hooks/useAutoTranscription.ts
 import { useEffect } from "react";
 import { AudioRecordingData } from "@packages/shared/types";
-import { useMockTranscription } from "./useMockTranscription";
+import { useTranscription } from "./useTranscription";
 
 interface UseAutoTranscriptionProps {
   audioData: AudioRecordingData | null;
+  /** Language hint for the transcription provider */
+  language?: string;
   onTranscriptionComplete: (transcription: string) => void;
   onTranscriptionStart: () => void;
 }
 
 export function useAutoTranscription({
   audioData,
+  language,
   onTranscriptionComplete,
   onTranscriptionStart,
 }: UseAutoTranscriptionProps) {
-  const { isTranscribing, transcribeAudio } = useMockTranscription();
+  const { isTranscribing, error, transcribeAudio } = useTranscription({
+    language,
+  });
 
   useEffect(() => {
+    // Ignore a late result once another take has been selected
+    let isCurrent = true;
+
     if (audioData?.blob) {
       onTranscriptionStart();
 
       transcribeAudio(audioData.blob)
-        .then((transcription) => {
-          onTranscriptionComplete(transcription);
+        .then((result) => {
+          if (isCurrent) onTranscriptionComplete(result.text);
         })
         .catch((error) => {
+          // Surfaced through the returned error; the user can still type
           console.error("Transcription failed:", error);
-          // Handle error appropriately
         });
     }
+
+    return () => {
+      isCurrent = false;
+    };
   }, [
     audioData?.blob,
     transcribeAudio,
@@ -362,7 +717,7 @@ export function useAutoTranscription({
     onTranscriptionStart,
   ]);
 
-  return { isTranscribing };
+  return { isTranscribing, error };
 }
 
 // apps/web/src/hooks/useKeyboardShortcuts.ts
@@ -437,6 +792,74 @@ export function useKeyboardShortcuts({
   ]);
 }
 
+// apps/web/src/hooks/useOutbox.ts
+import { useState, useEffect, useCallback } from "react";
+import {
+  OutboxItem,
+  discardOutboxItem,
+  getOutboxItems,
+  registerOutboxWorker,
+  replayOutbox,
+  retryOutboxItem,
+  subscribeToOutbox,
+} from "@/lib/outbox";
+import { APP_CONFIG } from "@/lib/constants";
+
+interface UseOutboxReturn {
+  items: OutboxItem[];
+  retry: (id: string) => Promise<void>;
+  discard: (id: string) => Promise<void>;
+}
+
+/**
+ * Lists queued submissions and replays them with backoff while the page is
+ * open: immediately when the browser comes back online, then on a timer.
+ */
+export function useOutbox(): UseOutboxReturn {
+  const [items, setItems] = useState<OutboxItem[]>([]);
+
+  const refresh = useCallback(async () => {
+    try {
+      setItems(await getOutboxItems());
+    } catch (error) {
+      console.error("Failed to read outbox:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    registerOutboxWorker();
+    refresh();
+
+    const replay = () => replayOutbox().catch(() => undefined);
+    replay();
+
+    const unsubscribe = subscribeToOutbox(refresh);
+    const interval = setInterval(replay, APP_CONFIG.OUTBOX.POLL_INTERVAL);
+    window.addEventListener("online", replay);
+
+    return () => {
+      unsubscribe();
+      clearInterval(interval);
+      window.removeEventListener("online", replay);
+    };
+  }, [refresh]);
+
+  const retry = useCallback(async (id: string) => {
+    // Failures are recorded on the item and shown in the panel
+    await retryOutboxItem(id).catch(() => undefined);
+  }, []);
+
+  const discard = useCallback(async (id: string) => {
+    await discardOutboxItem(id);
+  }, []);
+
+  return {
+    items,
+    retry,
+    discard,
+  };
+}
+
 // apps/web/src/hooks/useLocalStorage.ts
 import { useState, useEffect } from "react";
 
@@ -496,3 +919,121 @@ export function useDebounce<T>(value: T, delay: number): T {
 
   return debouncedValue;
 }
+
+// apps/web/src/hooks/useMeetings.ts
+import { useState, useEffect, useCallback } from "react";
+import {
+  MeetingRecord,
+  MeetingsQuery,
+  PaginatedResponse,
+} from "@packages/shared/types";
+import { getMeetings } from "@/lib/api";
+
+interface UseMeetingsReturn {
+  meetings: MeetingRecord[];
+  pagination: PaginatedResponse<MeetingRecord>["pagination"] | null;
+  isLoading: boolean;
+  error: string | null;
+  refresh: () => void;
+}
+
+/** One page of meeting records, refetched whenever the query changes */
+export function useMeetings(query: MeetingsQuery): UseMeetingsReturn {
+  const [meetings, setMeetings] = useState<MeetingRecord[]>([]);
+  const [pagination, setPagination] =
+    useState<UseMeetingsReturn["pagination"]>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reloads, setReloads] = useState(0);
+
+  // Compared by value, so callers can pass a fresh object on every render
+  const queryKey = JSON.stringify(query);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    getMeetings(JSON.parse(queryKey))
+      .then((response) => {
+        if (cancelled) return;
+        setMeetings(response.data ?? []);
+        setPagination(response.pagination);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error("Failed to load meetings:", err);
+        setError(
+          err instanceof Error ? err.message : "Failed to load meetings"
+        );
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    // A slower earlier request must not overwrite a newer page
+    return () => {
+      cancelled = true;
+    };
+  }, [queryKey, reloads]);
+
+  const refresh = useCallback(() => setReloads((count) => count + 1), []);
+
+  return {
+    meetings,
+    pagination,
+    isLoading,
+    error,
+    refresh,
+  };
+}
+
+// apps/web/src/hooks/useStatistics.ts
+import { useState, useEffect } from "react";
+import { MeetingStatistics, StatisticsQuery } from "@packages/shared/types";
+import { getMeetingStatistics } from "@/lib/api";
+
+interface UseStatisticsReturn {
+  statistics: MeetingStatistics | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+export function useStatistics(query: StatisticsQuery): UseStatisticsReturn {
+  const [statistics, setStatistics] = useState<MeetingStatistics | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const queryKey = JSON.stringify(query);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    getMeetingStatistics(JSON.parse(queryKey))
+      .then((result) => {
+        if (!cancelled) setStatistics(result);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error("Failed to load statistics:", err);
+        setError(
+          err instanceof Error ? err.message : "Failed to load statistics"
+        );
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [queryKey]);
+
+  return {
+    statistics,
+    isLoading,
+    error,
+  };
+}
@@ -1,102 +1,20 @@
 // apps/web/src/lib/validation.ts
-import { ValidationResult, VoiceMessage } from "@packages/shared/types";
-
-// Required message pattern - exactly as specified
-const REQUIRED_PATTERN =
-  /^my name is (.+?) and i belong to group (.+?) and today i met (.+?) at (.+?)\.?$/i;
-
-export function validateTranscription(text: string): ValidationResult {
-  const trimmedText = text.trim();
-
-  if (!trimmedText) {
-    return {
-      isValid: false,
-      message: "",
-      extractedData: null,
-    };
-  }
-
-  const match = trimmedText.match(REQUIRED_PATTERN);
-
-  if (match) {
-    const extractedData: VoiceMessage = {
-      speakerName: match[1].trim(),
-      groupNumber: match[2].trim(),
-      personMet: match[3].trim(),
-      location: match[4].trim(),
-    };
-
-    // Additional validation
-    const errors = validateExtractedData(extractedData);
-
-    if (errors.length > 0) {
-      return {
-        isValid: false,
-        message: "Format is correct but data has issues: " + errors.join(", "),
-        extractedData,
-        errors,
-      };
-    }
-
-    return {
-      isValid: true,
-      message: "✅ Perfect! The message follows the required format.",
-      extractedData,
-    };
-  } else {
-    return {
-      isValid: false,
-      message:
-        '❌ Please follow the exact format: "My name is [name] and I belong to group [#] and today I met [name] at [location]."',
-      extractedData: null,
-    };
-  }
-}
-
-function validateExtractedData(data: VoiceMessage): string[] {
-  const errors: string[] = [];
-
-  // Validate speaker name
-  if (!isValidName(data.speakerName)) {
-    errors.push("Invalid speaker name");
-  }
-
-  // Validate group number
-  if (!isValidGroupNumber(data.groupNumber)) {
-    errors.push("Group number must be a valid number");
-  }
-
-  // Validate person met
-  if (!isValidName(data.personMet)) {
-    errors.push("Invalid person name");
-  }
-
-  // Validate location
-  if (!isValidLocation(data.location)) {
-    errors.push("Invalid location");
-  }
-
-  return errors;
-}
-
-function isValidName(name: string): boolean {
-  return (
-    name.length >= 2 && name.length <= 100 && /^[a-zA-Z\s\-\.\']+$/.test(name)
-  );
-}
-
-function isValidGroupNumber(groupStr: string): boolean {
-  const groupNum = parseInt(groupStr, 10);
-  return !isNaN(groupNum) && groupNum > 0 && groupNum <= 999;
-}
-
-function isValidLocation(location: string): boolean {
-  return (
-    location.length >= 2 &&
-    location.length <= 200 &&
-    /^[a-zA-Z0-9\s\-\.\,\']+$/.test(location)
-  );
-}
+// The rules live in packages/shared so the API enforces exactly what the
+// form checks as the user types.
+export {
+  DEFAULT_TEMPLATES,
+  SUPPORTED_LOCALES,
+  VALIDATION_MESSAGES,
+  VALIDATION_RULES_VERSION,
+  composeSentence,
+  describeTemplate,
+  isValidGroupNumber,
+  isValidLocation,
+  isValidName,
+  parseGroupNumber,
+  validateExtractedData,
+  validateTranscription,
+} from "@packages/shared/validation";
 
 // apps/web/src/lib/dateUtils.ts
 export function formatDateDisplay(date: Date): string {
@@ -141,15 +59,29 @@ import {
   CreateMeetingRecordDto,
   ApiResponse,
   MeetingRecord,
+  TranscriptionRequestOptions,
+  TranscriptionResult,
+  UploadSession,
+  ErrorCodes,
+  GroupTemplate,
+  MeetingStatistics,
+  MeetingsExportQuery,
+  MeetingsQuery,
+  PaginatedResponse,
+  StatisticsQuery,
 } from "@packages/shared/types";
+import { VALIDATION_RULES_VERSION } from "@packages/shared/validation";
+import { ERROR_MESSAGES } from "@/lib/constants";
 
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
+export const API_BASE_URL =
+  process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
 
-class ApiError extends Error {
+export class ApiError extends Error {
   constructor(
     message: string,
     public statusCode: number,
-    public code?: string
+    public code?: string,
+    public details?: any
   ) {
     super(message);
     this.name = "ApiError";
@@ -176,7 +108,8 @@ async function fetchApi<T>(
     throw new ApiError(
       data.error?.message || "An error occurred",
       response.status,
-      data.error?.code
+      data.error?.code,
+      data.error?.details
     );
   }
 
@@ -191,14 +124,22 @@ export async function submitMeetingRecord(
   // Add text fields
   formData.append("fullTranscription", data.fullTranscription);
   formData.append("recordingDuration", data.recordingDuration);
+  if (data.clientSubmissionId) {
+    formData.append("clientSubmissionId", data.clientSubmissionId);
+  }
+  if (data.entryMode) {
+    formData.append("entryMode", data.entryMode);
+  }
 
   // Add metadata if provided
   if (data.metadata) {
     formData.append("metadata", JSON.stringify(data.metadata));
   }
 
-  // Add audio file if provided
-  if (data.audioFile) {
+  // Add audio: a completed resumable upload, or the whole file
+  if (data.uploadId) {
+    formData.append("uploadId", data.uploadId);
+  } else if (data.audioFile) {
     formData.append("audioFile", data.audioFile);
   }
 
@@ -209,9 +150,55 @@ export async function submitMeetingRecord(
 
   const result = await response.json();
 
+  // The server reports the rules it enforced; a different version means
+  // this page was loaded before a deploy and may disagree with the server
+  const serverRules =
+    result.meta?.validationRulesVersion ?? result.error?.details?.rulesVersion;
+  const staleRules = !!serverRules && serverRules !== VALIDATION_RULES_VERSION;
+  if (staleRules) {
+    console.warn(
+      `Validation rules ${VALIDATION_RULES_VERSION} differ from the server's ${serverRules}`
+    );
+  }
+
+  if (!response.ok) {
+    throw new ApiError(
+      staleRules && result.error?.code === ErrorCodes.INVALID_MESSAGE_FORMAT
+        ? ERROR_MESSAGES.VALIDATION_RULES_CHANGED
+        : result.error?.message || "Failed to submit meeting record",
+      response.status,
+      result.error?.code,
+      result.error?.details
+    );
+  }
+
+  return result.data;
+}
+
+export async function transcribeAudio(
+  audio: Blob,
+  options: TranscriptionRequestOptions = {}
+): Promise<TranscriptionResult> {
+  const formData = new FormData();
+  formData.append("audioFile", audio, `recording-${Date.now()}`);
+
+  if (options.provider) {
+    formData.append("provider", options.provider);
+  }
+  if (options.language) {
+    formData.append("language", options.language);
+  }
+
+  const response = await fetch(`${API_BASE_URL}/transcription`, {
+    method: "POST",
+    body: formData,
+  });
+
+  const result = await response.json();
+
   if (!response.ok) {
     throw new ApiError(
-      result.error?.message || "Failed to submit meeting record",
+      result.error?.message || "Failed to transcribe audio",
       response.status,
       result.error?.code
     );
@@ -220,13 +207,65 @@ export async function submitMeetingRecord(
   return result.data;
 }
 
-export async function getMeetings(params?: {
-  page?: number;
-  limit?: number;
-  groupNumber?: string;
-  startDate?: string;
-  endDate?: string;
-}) {
+export async function createUploadSession(
+  mimeType: string
+): Promise<UploadSession> {
+  const response = await fetchApi<UploadSession>("/uploads", {
+    method: "POST",
+    body: JSON.stringify({ mimeType }),
+  });
+  return response.data!;
+}
+
+export async function getUploadSession(id: string): Promise<UploadSession> {
+  const response = await fetchApi<UploadSession>(`/uploads/${id}`);
+  return response.data!;
+}
+
+export async function uploadChunk(
+  id: string,
+  index: number,
+  chunk: Blob
+): Promise<UploadSession> {
+  const formData = new FormData();
+  formData.append("chunk", chunk, `chunk-${index}`);
+
+  const response = await fetch(
+    `${API_BASE_URL}/uploads/${id}/chunks/${index}`,
+    {
+      method: "PUT",
+      body: formData,
+    }
+  );
+
+  const result = await response.json();
+
+  if (!response.ok) {
+    throw new ApiError(
+      result.error?.message || "Failed to upload chunk",
+      response.status,
+      result.error?.code,
+      result.error?.details
+    );
+  }
+
+  return result.data;
+}
+
+export async function completeUploadSession(
+  id: string,
+  totalChunks: number
+): Promise<UploadSession> {
+  const response = await fetchApi<UploadSession>(`/uploads/${id}/complete`, {
+    method: "POST",
+    body: JSON.stringify({ totalChunks }),
+  });
+  return response.data!;
+}
+
+export async function getMeetings(
+  params?: MeetingsQuery
+): Promise<PaginatedResponse<MeetingRecord>> {
   const searchParams = new URLSearchParams();
 
   if (params) {
@@ -237,12 +276,48 @@ export async function getMeetings(params?: {
     });
   }
 
-  return fetchApi<MeetingRecord[]>(`/meetings?${searchParams.toString()}`);
+  const response = await fetchApi<MeetingRecord[]>(
+    `/meetings?${searchParams.toString()}`
+  );
+  return response as PaginatedResponse<MeetingRecord>;
+}
+
+export async function getMeeting(id: string): Promise<MeetingRecord> {
+  const response = await fetchApi<MeetingRecord>(
+    `/meetings/${encodeURIComponent(id)}`
+  );
+  return response.data!;
+}
+
+/** Link to GET /meetings/export; the browser downloads the file itself */
+export function getMeetingsExportUrl(params: MeetingsExportQuery): string {
+  const searchParams = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== "") {
+      searchParams.append(key, value.toString());
+    }
+  });
+
+  return `${API_BASE_URL}/meetings/export?${searchParams.toString()}`;
 }
 
-export async function getMeetingStatistics(groupNumber?: string) {
-  const params = groupNumber ? `?groupNumber=${groupNumber}` : "";
-  return fetchApi(`/meetings/statistics${params}`);
+/** Audio URLs from the API are relative to it, e.g. /meetings/:id/audio */
+export function resolveApiUrl(url: string): string {
+  return url.startsWith("/") ? `${API_BASE_URL}${url}` : url;
+}
+
+export async function getMeetingStatistics(
+  params: StatisticsQuery = {}
+): Promise<MeetingStatistics> {
+  const searchParams = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value) searchParams.append(key, value);
+  });
+
+  const response = await fetchApi<MeetingStatistics>(
+    `/meetings/statistics?${searchParams.toString()}`
+  );
+  return response.data!;
 }
 
 export async function syncToGoogleSheets() {
@@ -251,9 +326,880 @@ export async function syncToGoogleSheets() {
   });
 }
 
+export async function getGroupTemplates(): Promise<GroupTemplate[]> {
+  const response = await fetchApi<GroupTemplate[]>("/groups/templates");
+  return response.data ?? [];
+}
+
+// apps/web/src/lib/chunkedUpload.ts
+import { UploadSession } from "@packages/shared/types";
+import {
+  ApiError,
+  completeUploadSession,
+  createUploadSession,
+  getUploadSession,
+  uploadChunk,
+} from "@/lib/api";
+import { APP_CONFIG } from "@/lib/constants";
+
+export type ChunkedUploadStatus =
+  "idle" | "uploading" | "completing" | "completed" | "failed";
+
+export interface ChunkedUploadProgress {
+  status: ChunkedUploadStatus;
+  uploadId: string | null;
+  acknowledgedChunks: number;
+  totalChunks: number;
+  error: string | null;
+}
+
+export const INITIAL_UPLOAD_PROGRESS: ChunkedUploadProgress = {
+  status: "idle",
+  uploadId: null,
+  acknowledgedChunks: 0,
+  totalChunks: 0,
+  error: null,
+};
+
+/**
+ * Streams recorder chunks to the resumable upload API while recording.
+ * Chunks are sent one at a time and in order. After a network drop the
+ * uploader asks the server which chunk it expects next and resumes from
+ * there, so nothing already acknowledged is sent twice.
+ */
+export class ChunkedUploader {
+  private session: UploadSession | null = null;
+  private readonly chunks: Blob[] = [];
+  private acknowledged = 0;
+  private draining: Promise<void> | null = null;
+  private failure: Error | null = null;
+  private aborted = false;
+
+  constructor(
+    private readonly mimeType: string,
+    private readonly onProgress: (progress: ChunkedUploadProgress) => void
+  ) {}
+
+  append(chunk: Blob): void {
+    if (this.aborted || this.failure) return;
+    this.chunks.push(chunk);
+    this.report("uploading");
+    void this.drain();
+  }
+
+  /** Waits for every chunk to be acknowledged, then completes the session */
+  async finish(): Promise<UploadSession> {
+    let attempt = 0;
+
+    for (;;) {
+      await this.drain();
+      if (this.failure) throw this.failure;
+      if (this.aborted) throw new Error("Upload cancelled");
+      if (!this.session) throw new Error("Nothing was recorded");
+
+      this.report("completing");
+      try {
+        const session = await completeUploadSession(
+          this.session.id,
+          this.chunks.length
+        );
+        this.session = session;
+        this.report("completed");
+        return session;
+      } catch (error) {
+        if (this.resyncFromError(error)) continue;
+        if (!isRetryable(error)) throw this.fail(error);
+        await waitBeforeRetry(attempt++);
+        await this.resync();
+      }
+    }
+  }
+
+  abort(): void {
+    this.aborted = true;
+  }
+
+  private drain(): Promise<void> {
+    if (!this.draining) {
+      this.draining = this.sendPending().finally(() => {
+        this.draining = null;
+        // A chunk may have been appended while the loop was exiting
+        if (this.hasPending()) void this.drain();
+      });
+    }
+    return this.draining;
+  }
+
+  private async sendPending(): Promise<void> {
+    let attempt = 0;
+
+    while (this.hasPending()) {
+      try {
+        if (!this.session) {
+          this.session = await createUploadSession(this.mimeType);
+        }
+
+        const index = this.acknowledged;
+        const session = await uploadChunk(
+          this.session.id,
+          index,
+          this.chunks[index]
+        );
+        this.acknowledge(session.nextChunkIndex);
+        attempt = 0;
+      } catch (error) {
+        if (this.resyncFromError(error)) continue;
+        if (!isRetryable(error)) {
+          this.fail(error);
+          return;
+        }
+        await waitBeforeRetry(attempt++);
+        await this.resync();
+      }
+    }
+  }
+
+  private hasPending(): boolean {
+    return (
+      !this.aborted && !this.failure && this.acknowledged < this.chunks.length
+    );
+  }
+
+  /** Asks the server which chunk it expects next; errors are retried later */
+  private async resync(): Promise<void> {
+    if (!this.session) return;
+    try {
+      const session = await getUploadSession(this.session.id);
+      this.acknowledge(session.nextChunkIndex);
+    } catch {
+      // Still offline
+    }
+  }
+
+  /** Out-of-order and incomplete responses carry the server's position */
+  private resyncFromError(error: unknown): boolean {
+    const next = error instanceof ApiError && error.details?.nextChunkIndex;
+    if (typeof next !== "number") return false;
+    this.acknowledge(next);
+    return true;
+  }
+
+  private acknowledge(nextChunkIndex: number): void {
+    this.acknowledged = Math.min(nextChunkIndex, this.chunks.length);
+    this.report(this.failure ? "failed" : "uploading");
+  }
+
+  private fail(error: unknown): Error {
+    this.failure = error instanceof Error ? error : new Error("Upload failed");
+    this.report("failed");
+    return this.failure;
+  }
+
+  private report(status: ChunkedUploadStatus): void {
+    this.onProgress({
+      status,
+      uploadId: this.session?.id ?? null,
+      acknowledgedChunks: this.acknowledged,
+      totalChunks: this.chunks.length,
+      error: this.failure?.message ?? null,
+    });
+  }
+}
+
+/** Network failures, server errors and rate limits are worth retrying */
+function isRetryable(error: unknown): boolean {
+  if (!(error instanceof ApiError)) return true;
+  return (
+    error.statusCode >= 500 ||
+    error.statusCode === 408 ||
+    error.statusCode === 429
+  );
+}
+
+/** Exponential backoff that ends early when the browser comes back online */
+function waitBeforeRetry(attempt: number): Promise<void> {
+  const delay = Math.min(
+    APP_CONFIG.API.MAX_RETRY_DELAY,
+    APP_CONFIG.API.RETRY_DELAY * 2 ** attempt
+  );
+
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      window.removeEventListener("online", done);
+      resolve();
+    };
+    const timer = setTimeout(done, delay);
+    window.addEventListener("online", done);
+  });
+}
+
+// apps/web/src/lib/outbox.ts
+import {
+  CreateMeetingRecordDto,
+  EntryMode,
+  MeetingRecord,
+} from "@packages/shared/types";
+import { API_BASE_URL, ApiError, submitMeetingRecord } from "@/lib/api";
+import { APP_CONFIG } from "@/lib/constants";
+
+// Shared with public/sw.js, which replays the same store in the background
+const DB_NAME = "voice-recorder-outbox";
+const STORE_NAME = "submissions";
+const SYNC_TAG = "outbox-replay";
+
+export type OutboxItemStatus = "pending" | "sending" | "failed";
+
+export interface OutboxItem {
+  id: string; // Also sent as clientSubmissionId, so replays are idempotent
+  createdAt: number;
+  status: OutboxItemStatus;
+  attempts: number;
+  nextAttemptAt: number;
+  sendingSince: number | null; // Lease taken by the page or worker sending it
+  lastError: string | null;
+  endpoint: string; // Full POST /meetings URL, read by the service worker
+  fullTranscription: string;
+  recordingDuration: string;
+  uploadId: string | null;
+  audio: Blob | null;
+  audioName: string | null;
+  entryMode: EntryMode;
+  metadata: CreateMeetingRecordDto["metadata"] | null;
+}
+
+export type OutboxSubmitResult =
+  { status: "sent"; record: MeetingRecord } | { status: "queued" };
+
+const listeners = new Set<() => void>();
+
+export function subscribeToOutbox(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+function notify(): void {
+  listeners.forEach((listener) => listener());
+}
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = run(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export async function getOutboxItems(): Promise<OutboxItem[]> {
+  if (typeof indexedDB === "undefined") return [];
+  const items = await withStore<OutboxItem[]>("readonly", (store) =>
+    store.getAll()
+  );
+  return items.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+async function putOutboxItem(item: OutboxItem): Promise<void> {
+  await withStore("readwrite", (store) => store.put(item));
+  notify();
+}
+
+export async function discardOutboxItem(id: string): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(id));
+  notify();
+}
+
+/**
+ * Persists the submission before sending it, so nothing is lost if the
+ * request fails or the tab is closed. Network and server errors leave it
+ * queued for replay; rejections such as validation errors are thrown and
+ * the item is kept as failed for the user to retry or discard.
+ */
+export async function submitViaOutbox(
+  data: CreateMeetingRecordDto
+): Promise<OutboxSubmitResult> {
+  const item: OutboxItem = {
+    id: crypto.randomUUID(),
+    createdAt: Date.now(),
+    status: "sending",
+    attempts: 0,
+    nextAttemptAt: Date.now(),
+    sendingSince: Date.now(),
+    lastError: null,
+    endpoint: `${API_BASE_URL}/meetings`,
+    fullTranscription: data.fullTranscription,
+    recordingDuration: data.recordingDuration,
+    uploadId: data.uploadId ?? null,
+    audio: data.audioFile ?? null,
+    audioName: data.audioFile?.name ?? null,
+    entryMode: data.entryMode ?? EntryMode.VOICE,
+    metadata: data.metadata ?? null,
+  };
+
+  await putOutboxItem(item);
+  return sendOutboxItem(item);
+}
+
+export async function retryOutboxItem(id: string): Promise<OutboxSubmitResult> {
+  const item = await claimOutboxItem(id, () => true);
+  if (!item) throw new Error("This submission is already sent or sending");
+  return sendOutboxItem({ ...item, attempts: 0 });
+}
+
+/** Sends every pending item that is due; called when connectivity returns */
+export async function replayOutbox(): Promise<void> {
+  const now = Date.now();
+  const due = (await getOutboxItems()).filter(
+    (item) => item.status !== "failed" && item.nextAttemptAt <= now
+  );
+
+  for (const { id } of due) {
+    const item = await claimOutboxItem(
+      id,
+      (entry) => entry.status !== "failed" && entry.nextAttemptAt <= now
+    );
+    if (item) await sendOutboxItem(item).catch(() => undefined);
+  }
+}
+
+/**
+ * Marks an item as sending in a single transaction, so the page, other
+ * tabs and the service worker never send it at the same time. Null when the
+ * item is gone, another sender holds its lease, or `ready` rejects it. A
+ * lease older than SENDING_LEASE belonged to a sender that was closed
+ * mid-request and is taken over.
+ */
+async function claimOutboxItem(
+  id: string,
+  ready: (item: OutboxItem) => boolean
+): Promise<OutboxItem | null> {
+  if (typeof indexedDB === "undefined") return null;
+  const db = await openDb();
+
+  try {
+    const claimed = await new Promise<OutboxItem | null>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, "readwrite");
+      const store = transaction.objectStore(STORE_NAME);
+      const request = store.get(id);
+      let result: OutboxItem | null = null;
+
+      request.onsuccess = () => {
+        const item = request.result as OutboxItem | undefined;
+        const now = Date.now();
+        if (!item || isLeased(item, now) || !ready(item)) return;
+        result = { ...item, status: "sending", sendingSince: now };
+        store.put(result);
+      };
+      transaction.oncomplete = () => resolve(result);
+      transaction.onerror = () => reject(transaction.error);
+    });
+    if (claimed) notify();
+    return claimed;
+  } finally {
+    db.close();
+  }
+}
+
+function isLeased(item: OutboxItem, now: number): boolean {
+  return (
+    item.status === "sending" &&
+    now - (item.sendingSince ?? 0) < APP_CONFIG.OUTBOX.SENDING_LEASE
+  );
+}
+
+// Expects the item to be claimed; every outcome releases the lease
+async function sendOutboxItem(item: OutboxItem): Promise<OutboxSubmitResult> {
+  try {
+    const record = await submitMeetingRecord({
+      fullTranscription: item.fullTranscription,
+      recordingDuration: item.recordingDuration,
+      uploadId: item.uploadId ?? undefined,
+      audioFile: item.audio
+        ? new File([item.audio], item.audioName ?? "recording", {
+            type: item.audio.type,
+          })
+        : undefined,
+      entryMode: item.entryMode,
+      metadata: item.metadata ?? undefined,
+      clientSubmissionId: item.id,
+    });
+
+    await discardOutboxItem(item.id);
+    return { status: "sent", record };
+  } catch (error) {
+    // The streamed upload expired or was lost; fall back to the saved blob
+    if (
+      error instanceof ApiError &&
+      error.code === "INVALID_UPLOAD_STATE" &&
+      item.uploadId &&
+      item.audio
+    ) {
+      return sendOutboxItem({ ...item, uploadId: null });
+    }
+
+    const message =
+      error instanceof Error ? error.message : "Failed to submit recording";
+
+    if (isPermanentFailure(error)) {
+      await putOutboxItem({
+        ...item,
+        status: "failed",
+        sendingSince: null,
+        lastError: message,
+      });
+      throw error;
+    }
+
+    const delay = Math.min(
+      APP_CONFIG.OUTBOX.MAX_RETRY_DELAY,
+      APP_CONFIG.OUTBOX.RETRY_DELAY * 2 ** item.attempts
+    );
+    await putOutboxItem({
+      ...item,
+      status: "pending",
+      attempts: item.attempts + 1,
+      nextAttemptAt: Date.now() + delay,
+      sendingSince: null,
+      lastError: message,
+    });
+    await requestBackgroundSync();
+    return { status: "queued" };
+  }
+}
+
+/** 4xx responses (other than timeouts and rate limits) will not succeed on replay */
+function isPermanentFailure(error: unknown): boolean {
+  return (
+    error instanceof ApiError &&
+    error.statusCode >= 400 &&
+    error.statusCode < 500 &&
+    error.statusCode !== 408 &&
+    error.statusCode !== 429
+  );
+}
+
+/**
+ * Registers the service worker that replays the outbox via Background Sync.
+ * Browsers without it (Safari, Firefox) rely on useOutbox's online listener.
+ */
+export async function registerOutboxWorker(): Promise<void> {
+  if (!("serviceWorker" in navigator)) return;
+
+  try {
+    await navigator.serviceWorker.register("/sw.js");
+    navigator.serviceWorker.addEventListener("message", (event) => {
+      if (event.data?.type === "outbox-updated") notify();
+    });
+  } catch (error) {
+    console.error("Service worker registration failed:", error);
+  }
+}
+
+// Background Sync is not in the standard DOM typings yet
+interface SyncManager {
+  register(tag: string): Promise<void>;
+}
+
+async function requestBackgroundSync(): Promise<void> {
+  if (!("serviceWorker" in navigator)) return;
+
+  try {
+    const registration = await navigator.serviceWorker.getRegistration();
+    if (registration && "sync" in registration) {
+      await (registration.sync as SyncManager).register(SYNC_TAG);
+    }
+  } catch {
+    // Unsupported or denied; the page replays when it comes back online
+  }
+}
+
+// apps/web/src/lib/audioLevel.ts
+export interface AudioLevelFrame {
+  level: number; // 0..1, RMS mapped from -60..0 dBFS
+  decibels: number; // RMS in dBFS
+  waveform: number[]; // Peak amplitude (0..1) per bar
+}
+
+/**
+ * Samples a live stream through a Web Audio AnalyserNode and reports the
+ * input level and a coarse waveform. Returns a function that stops
+ * sampling and releases the AudioContext.
+ */
+export function monitorAudioLevel(
+  stream: MediaStream,
+  onFrame: (frame: AudioLevelFrame) => void,
+  options: { intervalMs?: number; bars?: number } = {}
+): () => void {
+  const { intervalMs = 50, bars = 48 } = options;
+
+  const context = new AudioContext();
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 2048;
+  context.createMediaStreamSource(stream).connect(analyser);
+
+  const samples = new Float32Array(analyser.fftSize);
+  const bucketSize = Math.floor(samples.length / bars);
+
+  // setInterval rather than requestAnimationFrame so silence detection
+  // keeps running while the tab is in the background
+  const timer = setInterval(() => {
+    analyser.getFloatTimeDomainData(samples);
+
+    let sumSquares = 0;
+    const waveform: number[] = [];
+    for (let bar = 0; bar < bars; bar++) {
+      let peak = 0;
+      for (let i = bar * bucketSize; i < (bar + 1) * bucketSize; i++) {
+        sumSquares += samples[i] * samples[i];
+        peak = Math.max(peak, Math.abs(samples[i]));
+      }
+      waveform.push(Math.min(1, peak));
+    }
+
+    const rms = Math.sqrt(sumSquares / (bars * bucketSize));
+    const decibels = rms > 0 ? 20 * Math.log10(rms) : -Infinity;
+
+    onFrame({
+      level: Math.max(0, Math.min(1, (decibels + 60) / 60)),
+      decibels,
+      waveform,
+    });
+  }, intervalMs);
+
+  return () => {
+    clearInterval(timer);
+    void context.close();
+  };
+}
+
+// apps/web/src/lib/recorder.ts
+import type { AudioEncoder } from "@packages/shared/types";
+import { APP_CONFIG, ERROR_MESSAGES } from "@/lib/constants";
+
+/** Tried in order; Safari and iOS only record MP4/AAC */
+const PREFERRED_MIME_TYPES = [
+  "audio/webm;codecs=opus",
+  "audio/ogg;codecs=opus",
+  "audio/mp4;codecs=mp4a.40.2",
+  "audio/mp4",
+  "audio/webm",
+];
+
+const WAV_MIME_TYPE = "audio/wav";
+const PCM_CODEC = "pcm_s16le";
+const PCM_WORKLET_URL = "/pcm-capture-worklet.js";
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  "audio/webm": "webm",
+  "audio/ogg": "ogg",
+  "audio/mp4": "m4a",
+  "audio/wav": "wav",
+};
+
+/**
+ * The part of the MediaRecorder API the recording hook relies on, so the
+ * PCM fallback can stand in for it. `onstop` receives the finished file,
+ * which for the fallback is not simply the streamed chunks concatenated.
+ */
+export interface AudioRecorder {
+  readonly mimeType: string;
+  readonly codec: string | null;
+  readonly encoder: AudioEncoder;
+  readonly state: RecordingState;
+  ondataavailable: ((chunk: Blob) => void) | null;
+  onstop: ((recording: Blob) => void) | null;
+  start(timeslice: number): void;
+  pause(): void;
+  resume(): void;
+  stop(): void;
+}
+
+/** First supported entry of the preference list, or null */
+export function negotiateMimeType(): string | null {
+  if (
+    typeof MediaRecorder === "undefined" ||
+    typeof MediaRecorder.isTypeSupported !== "function"
+  ) {
+    return null;
+  }
+  return (
+    PREFERRED_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) ??
+    null
+  );
+}
+
+/**
+ * Records with MediaRecorder in the best supported format, or with the
+ * AudioWorklet PCM encoder when none is usable or FORCE_PCM is set.
+ */
+export async function createAudioRecorder(
+  stream: MediaStream
+): Promise<AudioRecorder> {
+  const mimeType = APP_CONFIG.RECORDING.FORCE_PCM ? null : negotiateMimeType();
+  if (mimeType) {
+    return new MediaRecorderAdapter(new MediaRecorder(stream, { mimeType }));
+  }
+
+  if (
+    typeof AudioContext === "undefined" ||
+    typeof AudioWorkletNode === "undefined"
+  ) {
+    throw new Error(ERROR_MESSAGES.RECORDING_UNSUPPORTED);
+  }
+  return PcmWavRecorder.create(stream, APP_CONFIG.RECORDING.PCM_SAMPLE_RATE);
+}
+
+/** Wraps a recording for multipart upload with a truthful name and type */
+export function toAudioFile(blob: Blob, mimeType: string): File {
+  const baseType = mimeType.split(";")[0].trim();
+  const extension = FILE_EXTENSIONS[baseType] ?? "bin";
+  return new File([blob], `recording-${Date.now()}.${extension}`, {
+    type: baseType,
+  });
+}
+
+function codecOf(mimeType: string): string | null {
+  const match = /codecs="?([^";]+)"?/i.exec(mimeType);
+  return match ? match[1] : null;
+}
+
+class MediaRecorderAdapter implements AudioRecorder {
+  readonly encoder = "media-recorder";
+  ondataavailable: ((chunk: Blob) => void) | null = null;
+  onstop: ((recording: Blob) => void) | null = null;
+  private readonly chunks: Blob[] = [];
+
+  constructor(private readonly recorder: MediaRecorder) {
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        this.chunks.push(event.data);
+        this.ondataavailable?.(event.data);
+      }
+    };
+    recorder.onstop = () => {
+      this.onstop?.(new Blob(this.chunks, { type: this.mimeType }));
+    };
+  }
+
+  // Browsers may refine the requested type, e.g. add the codec they chose
+  get mimeType(): string {
+    return this.recorder.mimeType;
+  }
+
+  get codec(): string | null {
+    return codecOf(this.recorder.mimeType);
+  }
+
+  get state(): RecordingState {
+    return this.recorder.state;
+  }
+
+  start(timeslice: number): void {
+    this.recorder.start(timeslice);
+  }
+
+  pause(): void {
+    this.recorder.pause();
+  }
+
+  resume(): void {
+    this.recorder.resume();
+  }
+
+  stop(): void {
+    this.recorder.stop();
+  }
+}
+
+/**
+ * 16-bit mono PCM captured through an AudioWorklet. Chunks are streamed as
+ * a WAV with placeholder sizes in the header (the server fills them in on
+ * completion); the file handed to `onstop` carries the real sizes.
+ */
+class PcmWavRecorder implements AudioRecorder {
+  readonly mimeType = WAV_MIME_TYPE;
+  readonly codec = PCM_CODEC;
+  readonly encoder = "pcm-wav";
+  ondataavailable: ((chunk: Blob) => void) | null = null;
+  onstop: ((recording: Blob) => void) | null = null;
+  state: RecordingState = "inactive";
+
+  private pending: Float32Array[] = [];
+  private readonly encoded: Blob[] = [];
+  private dataBytes = 0;
+  private flushTimer: ReturnType<typeof setInterval> | null = null;
+  private stopping = false;
+
+  private constructor(
+    private readonly context: AudioContext,
+    private readonly source: MediaStreamAudioSourceNode,
+    private readonly node: AudioWorkletNode,
+    private readonly sampleRate: number
+  ) {
+    node.port.onmessage = (
+      event: MessageEvent<{ samples: Float32Array; final: boolean }>
+    ) => {
+      if (this.state === "recording" || this.stopping) {
+        this.pending.push(event.data.samples);
+      }
+      if (event.data.final && this.stopping) this.finish();
+    };
+  }
+
+  static async create(
+    stream: MediaStream,
+    targetSampleRate: number
+  ): Promise<PcmWavRecorder> {
+    const context = new AudioContext();
+    try {
+      await context.audioWorklet.addModule(PCM_WORKLET_URL);
+      const source = context.createMediaStreamSource(stream);
+      const node = new AudioWorkletNode(context, "pcm-capture", {
+        processorOptions: { targetSampleRate },
+      });
+      source.connect(node);
+      // The processor writes no output; connecting keeps it rendering
+      node.connect(context.destination);
+
+      return new PcmWavRecorder(
+        context,
+        source,
+        node,
+        Math.min(targetSampleRate, context.sampleRate)
+      );
+    } catch (error) {
+      void context.close();
+      throw error;
+    }
+  }
+
+  start(timeslice: number): void {
+    if (this.state !== "inactive") return;
+    this.state = "recording";
+    void this.context.resume();
+    this.flushTimer = setInterval(() => this.emitPending(), timeslice);
+  }
+
+  pause(): void {
+    if (this.state === "recording") this.state = "paused";
+  }
+
+  resume(): void {
+    if (this.state === "paused") this.state = "recording";
+  }
+
+  stop(): void {
+    if (this.state === "inactive") return;
+    this.state = "inactive";
+    this.stopping = true;
+    // The worklet answers with its partial batch, marked final
+    this.node.port.postMessage("flush");
+  }
+
+  private finish(): void {
+    this.stopping = false;
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.emitPending();
+
+    this.source.disconnect();
+    this.node.disconnect();
+    this.node.port.onmessage = null;
+    void this.context.close();
+
+    const recording = new Blob(
+      [this.wavHeader(this.dataBytes), ...this.encoded],
+      { type: WAV_MIME_TYPE }
+    );
+    this.onstop?.(recording);
+  }
+
+  private emitPending(): void {
+    const sampleCount = this.pending.reduce(
+      (sum, batch) => sum + batch.length,
+      0
+    );
+    if (sampleCount === 0) return;
+
+    const pcm = new DataView(new ArrayBuffer(sampleCount * 2));
+    let offset = 0;
+    for (const batch of this.pending) {
+      for (const sample of batch) {
+        const clamped = Math.max(-1, Math.min(1, sample));
+        pcm.setInt16(
+          offset,
+          clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff,
+          true
+        );
+        offset += 2;
+      }
+    }
+    this.pending = [];
+
+    const encoded = new Blob([pcm.buffer]);
+    const isFirst = this.dataBytes === 0;
+    this.encoded.push(encoded);
+    this.dataBytes += pcm.byteLength;
+
+    this.ondataavailable?.(
+      isFirst ? new Blob([this.wavHeader(null), encoded]) : encoded
+    );
+  }
+
+  /** Canonical 44-byte header; null sizes mark a stream of unknown length */
+  private wavHeader(dataBytes: number | null): ArrayBuffer {
+    const header = new DataView(new ArrayBuffer(44));
+    const writeAscii = (offset: number, text: string) => {
+      for (let i = 0; i < text.length; i++) {
+        header.setUint8(offset + i, text.charCodeAt(i));
+      }
+    };
+
+    writeAscii(0, "RIFF");
+    header.setUint32(4, dataBytes === null ? 0xffffffff : 36 + dataBytes, true);
+    writeAscii(8, "WAVE");
+    writeAscii(12, "fmt ");
+    header.setUint32(16, 16, true); // fmt chunk size
+    header.setUint16(20, 1, true); // PCM
+    header.setUint16(22, 1, true); // Mono
+    header.setUint32(24, this.sampleRate, true);
+    header.setUint32(28, this.sampleRate * 2, true); // Byte rate
+    header.setUint16(32, 2, true); // Block align
+    header.setUint16(34, 16, true); // Bits per sample
+    writeAscii(36, "data");
+    header.setUint32(40, dataBytes === null ? 0xffffffff : dataBytes, true);
+
+    return header.buffer;
+  }
+}
+
 // apps/web/src/lib/utils.ts
 import { type ClassValue, clsx } from "clsx";
 import { twMerge } from "tailwind-merge";
+import type { Locale } from "@packages/shared/types";
+import { SUPPORTED_LOCALES } from "./validation";
+import { ERROR_MESSAGES, TRANSLATED_ERROR_MESSAGES } from "./constants";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -307,6 +1253,25 @@ export function debounce<T extends (...args: any[]) => any>(
   };
 }
 
+/** The browser's language if messages can be validated in it */
+export function getBrowserLocale(): Locale {
+  if (typeof navigator === "undefined") return "en";
+  const language = navigator.language.split("-")[0].toLowerCase() as Locale;
+  return SUPPORTED_LOCALES.includes(language) ? language : "en";
+}
+
+/**
+ * Translates one of the ERROR_MESSAGES; hooks report them in English.
+ * Other messages, e.g. from the API, are returned unchanged.
+ */
+export function localizeError(message: string, locale: Locale): string {
+  if (locale === "en") return message;
+  const key = (
+    Object.keys(ERROR_MESSAGES) as Array<keyof typeof ERROR_MESSAGES>
+  ).find((candidate) => ERROR_MESSAGES[candidate] === message);
+  return key ? TRANSLATED_ERROR_MESSAGES[locale][key] : message;
+}
+
 export function throttle<T extends (...args: any[]) => any>(
   func: T,
   limit: number
@@ -323,12 +1288,18 @@ export function throttle<T extends (...args: any[]) => any>(
 }
 
 // apps/web/src/lib/constants.ts
+import type { Locale } from "@packages/shared/types";
+
 export const APP_CONFIG = {
   VALIDATION: {
     MAX_TRANSCRIPTION_LENGTH: 1000,
     MIN_RECORDING_DURATION: 1, // seconds
     MAX_RECORDING_DURATION: 300, // 5 minutes
     MAX_AUDIO_SIZE_MB: 10,
+    SILENCE_THRESHOLD_DB: -50, // RMS below this counts as silence
+    SILENCE_TIMEOUT_MS: 4000,
+    MAX_TAKES: 3, // Re-takes kept for review before submitting
+    LOW_CONFIDENCE: 0.8, // Extracted fields below this are flagged for review
     ALLOWED_AUDIO_FORMATS: ["audio/webm", "audio/wav", "audio/mp3"],
   },
 
@@ -343,10 +1314,26 @@ export const APP_CONFIG = {
     TIMEOUT: 30000, // 30 seconds
     RETRY_ATTEMPTS: 3,
     RETRY_DELAY: 1000,
+    MAX_RETRY_DELAY: 30000,
+  },
+
+  OUTBOX: {
+    RETRY_DELAY: 5000,
+    MAX_RETRY_DELAY: 300000, // 5 minutes
+    POLL_INTERVAL: 15000,
+    SENDING_LEASE: 120000, // Longer than a request can take
+  },
+
+  RECORDING: {
+    // Lets an admin require the WAV encoder, e.g. for providers without Opus
+    FORCE_PCM: process.env.NEXT_PUBLIC_RECORDING_FORCE_PCM === "true",
+    PCM_SAMPLE_RATE: 16000, // Keeps 5 minutes of WAV under the 10MB limit
+    TIMESLICE_MS: 1000,
   },
 
   STORAGE: {
     SETTINGS_KEY: "voice-recorder-settings",
+    LANGUAGE_KEY: "voice-recorder-language",
     CACHE_TTL: 3600000, // 1 hour
   },
 } as const;
@@ -354,14 +1341,93 @@ export const APP_CONFIG = {
 export const ERROR_MESSAGES = {
   MICROPHONE_ACCESS: "Could not access microphone. Please check permissions.",
   RECORDING_FAILED: "Recording failed. Please try again.",
+  RECORDING_TOO_SHORT: "Recording is too short. Please try again.",
+  RECORDING_UNSUPPORTED: "Audio recording is not supported in this browser.",
   TRANSCRIPTION_FAILED: "Transcription failed. Please try again.",
   SUBMIT_FAILED: "Failed to submit meeting record. Please try again.",
   NETWORK_ERROR: "Network error. Please check your connection.",
   VALIDATION_ERROR: "Please ensure the message follows the required format.",
+  VALIDATION_RULES_CHANGED:
+    "The message rules have been updated. Please reload the page and try again.",
   FILE_TOO_LARGE: "Audio file is too large. Maximum size is 10MB.",
   UNSUPPORTED_FORMAT: "Unsupported audio format.",
 } as const;
 
+export const TRANSLATED_ERROR_MESSAGES: Record<
+  Exclude<Locale, "en">,
+  Record<keyof typeof ERROR_MESSAGES, string>
+> = {
+  es: {
+    MICROPHONE_ACCESS:
+      "No se pudo acceder al micrófono. Por favor revisa los permisos.",
+    RECORDING_FAILED: "La grabación falló. Por favor inténtalo de nuevo.",
+    RECORDING_TOO_SHORT:
+      "La grabación es demasiado corta. Por favor inténtalo de nuevo.",
+    RECORDING_UNSUPPORTED: "Este navegador no permite grabar audio.",
+    TRANSCRIPTION_FAILED:
+      "La transcripción falló. Por favor inténtalo de nuevo.",
+    SUBMIT_FAILED:
+      "No se pudo enviar el registro de la reunión. Por favor inténtalo de nuevo.",
+    NETWORK_ERROR: "Error de red. Por favor revisa tu conexión.",
+    VALIDATION_ERROR:
+      "Por favor asegúrate de que el mensaje sigue el formato requerido.",
+    VALIDATION_RULES_CHANGED:
+      "Las reglas del mensaje han cambiado. Por favor recarga la página e inténtalo de nuevo.",
+    FILE_TOO_LARGE:
+      "El archivo de audio es demasiado grande. El tamaño máximo es 10MB.",
+    UNSUPPORTED_FORMAT: "Formato de audio no compatible.",
+  },
+  fr: {
+    MICROPHONE_ACCESS:
+      "Impossible d'accéder au microphone. Veuillez vérifier les autorisations.",
+    RECORDING_FAILED: "L'enregistrement a échoué. Veuillez réessayer.",
+    RECORDING_TOO_SHORT: "L'enregistrement est trop court. Veuillez réessayer.",
+    RECORDING_UNSUPPORTED:
+      "L'enregistrement audio n'est pas pris en charge par ce navigateur.",
+    TRANSCRIPTION_FAILED: "La transcription a échoué. Veuillez réessayer.",
+    SUBMIT_FAILED:
+      "Impossible d'envoyer le compte rendu de la rencontre. Veuillez réessayer.",
+    NETWORK_ERROR: "Erreur réseau. Veuillez vérifier votre connexion.",
+    VALIDATION_ERROR:
+      "Veuillez vérifier que le message respecte le format demandé.",
+    VALIDATION_RULES_CHANGED:
+      "Les règles du message ont changé. Veuillez recharger la page et réessayer.",
+    FILE_TOO_LARGE:
+      "Le fichier audio est trop volumineux. La taille maximale est de 10 Mo.",
+    UNSUPPORTED_FORMAT: "Format audio non pris en charge.",
+  },
+};
+
+// Text around the validation feedback on the recorder page
+export const FEEDBACK_TEXT: Record<
+  Locale,
+  {
+    LANGUAGE_NAME: string;
+    FORMAT_TITLE: string;
+    SAY_EXACTLY: string;
+    PLEASE_CHECK: string;
+  }
+> = {
+  en: {
+    LANGUAGE_NAME: "English",
+    FORMAT_TITLE: "Required Message Format",
+    SAY_EXACTLY: "Please say exactly:",
+    PLEASE_CHECK: "Please check",
+  },
+  es: {
+    LANGUAGE_NAME: "Español",
+    FORMAT_TITLE: "Formato requerido del mensaje",
+    SAY_EXACTLY: "Por favor di exactamente:",
+    PLEASE_CHECK: "Por favor revisa",
+  },
+  fr: {
+    LANGUAGE_NAME: "Français",
+    FORMAT_TITLE: "Format de message requis",
+    SAY_EXACTLY: "Veuillez dire exactement :",
+    PLEASE_CHECK: "À vérifier",
+  },
+};
+
 export const SUCCESS_MESSAGES = {
   RECORDING_COMPLETE: "Recording completed successfully!",
   TRANSCRIPTION_COMPLETE: "Transcription completed successfully!",
@@ -7,6 +7,12 @@ export interface VoiceMessage {
   location: string;
 }
 
+// One person met at one place; a message may report several
+export interface Encounter {
+  personMet: string;
+  location: string;
+}
+
 export interface MeetingRecord {
   id: string;
 
@@ -16,13 +22,18 @@ export interface MeetingRecord {
   recordingDateDisplay: string; // Human readable: "Friday, July 27, 2025"
   recordingTime: string; // HH:MM:SS AM/PM
 
-  // Voice message data
+  // Voice message data; personMet and location are the first encounter's
   speakerName: string;
   groupNumber: string;
   personMet: string;
   location: string;
+  encounters: Encounter[];
+  extraFields?: ExtraFields; // Slots from the group's sentence template
+  language: Locale; // Language the message was spoken in
+  entryMode: EntryMode;
   fullTranscription: string;
   recordingDuration: string; // MM:SS format
+  audioDurationMs?: number; // Measured from the uploaded audio
 
   // Date components for queries
   year: number;
@@ -35,6 +46,8 @@ export interface MeetingRecord {
   processingStatus: ProcessingStatus;
   validationScore?: number;
   audioFileUrl?: string;
+  normalizedAudioUrl?: string;
+  normalizedAudioDurationMs?: number;
 
   // External integration
   googleSheetsRowId?: string;
@@ -46,18 +59,90 @@ export interface MeetingRecord {
   updatedAt: string;
 }
 
+// Keyed by slot name; template slots beyond the core four are included
+export type FieldConfidence = Record<keyof VoiceMessage, number> &
+  Record<string, number>;
+
+export type ExtraFields = Record<string, string | number>;
+
+export type Locale = "en" | "es" | "fr";
+
 export interface ValidationResult {
   isValid: boolean;
   message: string;
   extractedData: VoiceMessage | null;
+  encounters?: Encounter[]; // Every person and place; the first is in extractedData
+  extraFields?: ExtraFields;
   errors?: string[];
+  confidence?: number; // 0..1, the least certain field
+  fieldConfidence?: FieldConfidence;
+  rulesVersion?: string; // VALIDATION_RULES_VERSION of the engine used
+  locale?: Locale; // Language of the sentence template that matched
+  spans?: ClauseSpan[]; // Recognised clauses, in order
+  divergence?: FormatDivergence; // Set when the text does not follow the format
+}
+
+// Character offsets are into the text that was validated; ends are exclusive
+export interface ClauseSpan {
+  field: string; // Slot name
+  start: number; // Start of the clause's phrase, e.g. "my name is"
+  valueStart: number;
+  end: number;
+  valid: boolean;
+  reason?: string; // Why the value was rejected, e.g. "location contains '@'"
+}
+
+export interface FormatDivergence {
+  offset: number; // Where the text stops following the format
+  field: string; // Slot expected at that point
+  expected: string; // e.g. "and I belong to group [#]"
+  message: string; // e.g. 'Expected "and I belong to group [#]" here'
+}
+
+// ===== Sentence templates (stored in Group.requiredFields) =====
+
+export type SlotValidatorType =
+  "name" | "groupNumber" | "location" | "text" | "number" | "duration"; // Spoken durations, stored in minutes
+
+export interface TemplateSlot {
+  name: string; // speakerName, groupNumber, personMet, location or any extra
+  label?: string; // Placeholder in the format description, e.g. "[topic]"
+  phrases: string[]; // Words before the value; the first is the canonical one
+  joiner?: string; // Word the canonical sentence puts before this slot, e.g. "and"
+  validator: SlotValidatorType;
+  optional?: boolean;
+  min?: number; // number
+  max?: number; // number
+  maxLength?: number; // text
+  pattern?: string; // text; case-insensitive regular expression
+  message?: string; // Error shown when the value is invalid
 }
 
+export interface SentenceTemplate {
+  locale?: Locale; // Language the sentence is spoken in; defaults to "en"
+  slots: TemplateSlot[];
+}
+
+export interface GroupTemplate {
+  groupNumber: string;
+  template: SentenceTemplate;
+}
+
+export interface TemplatePreview {
+  format: string; // "My name is [name] and I belong to group [#] ..."
+  results: Array<ValidationResult & { sentence: string }>;
+}
+
+export type AudioEncoder = "media-recorder" | "pcm-wav";
+
 export interface AudioRecordingData {
   blob: Blob;
   url: string;
   duration: string;
   size: number;
+  mimeType: string; // Including the codecs parameter when known
+  codec: string | null;
+  encoder: AudioEncoder;
 }
 
 export interface TranscriptionResult {
@@ -69,6 +154,49 @@ export interface TranscriptionResult {
   cost?: number;
 }
 
+export interface TranscriptionJob {
+  id: string;
+  meetingRecordId: string;
+  status: JobStatus;
+  provider: string;
+  language?: string;
+
+  // Results
+  transcriptionText?: string;
+  confidence?: number;
+  processingTime?: number; // milliseconds
+
+  // Retries
+  errorMessage?: string;
+  retryCount: number;
+  maxRetries: number;
+  runAt: string; // Next attempt for queued jobs
+
+  // Timestamps
+  startedAt?: string;
+  completedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface UploadSession {
+  id: string;
+  status: UploadSessionStatus;
+  mimeType: string;
+  nextChunkIndex: number; // Chunks 0..nextChunkIndex-1 are acknowledged
+  bytesReceived: number;
+  durationMs?: number;
+  meetingRecordId?: string;
+  expiresAt: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TranscriptionRequestOptions {
+  provider?: TranscriptionProvider;
+  language?: string;
+}
+
 // ===== ENUMS =====
 
 export enum RecordingStatus {
@@ -87,11 +215,37 @@ export enum ProcessingStatus {
   RETRYING = "RETRYING",
 }
 
+export enum EntryMode {
+  VOICE = "VOICE", // Spoken and transcribed
+  MANUAL = "MANUAL", // Typed into the form; no audio
+}
+
+export enum AudioVariant {
+  ORIGINAL = "original", // The upload exactly as received
+  NORMALIZED = "normalized", // Canonical WAV produced by the job worker
+}
+
+export enum UploadSessionStatus {
+  OPEN = "OPEN", // Accepting chunks
+  COMPLETED = "COMPLETED", // Assembled, verified and stored
+  EXPIRED = "EXPIRED",
+}
+
+export enum JobStatus {
+  QUEUED = "QUEUED",
+  PROCESSING = "PROCESSING",
+  COMPLETED = "COMPLETED",
+  FAILED = "FAILED",
+  CANCELLED = "CANCELLED",
+}
+
 export enum TranscriptionProvider {
   OPENAI = "openai",
   GOOGLE = "google",
   AZURE = "azure",
   AWS = "aws",
+  LOCAL = "local", // On-premise CPU model (whisper.cpp), works air-gapped
+  FIXTURE = "fixture", // Deterministic offline provider for local testing
 }
 
 export enum IntegrationService {
@@ -99,6 +253,15 @@ export enum IntegrationService {
   DATABASE = "database",
   TRANSCRIPTION = "transcription",
   EMAIL = "email",
+  FILE_EXPORT = "file_export",
+}
+
+export enum IntegrationStatus {
+  PENDING = "PENDING",
+  SUCCESS = "SUCCESS",
+  FAILED = "FAILED",
+  RETRYING = "RETRYING", // Failed; tried again after a backoff
+  DEAD_LETTER = "DEAD_LETTER", // Failed permanently; replayed by an admin
 }
 
 // ===== API TYPES =====
@@ -107,12 +270,47 @@ export interface CreateMeetingRecordDto {
   fullTranscription: string;
   recordingDuration: string;
   audioFile?: File;
+  uploadId?: string; // Completed resumable upload, used instead of audioFile
+  clientSubmissionId?: string; // Idempotency key so replayed submissions are not duplicated
+  entryMode?: EntryMode; // Defaults to VOICE; MANUAL records carry no audio
   metadata?: {
     ipAddress?: string;
     userAgent?: string;
   };
 }
 
+export type MeetingSortField =
+  | "recordingDate"
+  | "recordingDateTime"
+  | "speakerName"
+  | "groupNumber"
+  | "createdAt";
+
+// Query string of GET /meetings
+export interface MeetingsQuery {
+  page?: number;
+  limit?: number;
+  groupNumber?: string;
+  speakerName?: string; // Case-insensitive substring
+  startDate?: string; // YYYY-MM-DD, inclusive
+  endDate?: string;
+  status?: RecordingStatus;
+  entryMode?: EntryMode;
+  sortBy?: MeetingSortField;
+  sortOrder?: "asc" | "desc";
+}
+
+export type MeetingExportFormat = "csv" | "xlsx" | "json" | "ndjson";
+
+// Query string of GET /meetings/export: the GET /meetings filters and sort
+export interface MeetingsExportQuery extends Omit<
+  MeetingsQuery,
+  "page" | "limit"
+> {
+  format?: MeetingExportFormat; // Defaults to csv
+  fields?: GoogleSheetsField[]; // Defaults to the Google Sheets layout's columns
+}
+
 export interface ApiResponse<T = any> {
   success: boolean;
   data?: T;
@@ -124,6 +322,7 @@ export interface ApiResponse<T = any> {
   meta?: {
     timestamp: string;
     requestId: string;
+    validationRulesVersion?: string; // Set when the request was validated
   };
 }
 
@@ -140,21 +339,17 @@ export interface PaginatedResponse<T> extends ApiResponse<T[]> {
 
 // ===== GOOGLE SHEETS TYPES =====
 
+// Sheet layout, stored in SystemConfig under "googleSheets.layout"
 export interface GoogleSheetsConfig {
-  spreadsheetId: string;
-  worksheetName: string;
-  headerRow: number;
-  columns: {
-    date: string; // Column A
-    time: string; // Column B
-    speakerName: string; // Column C
-    groupNumber: string; // Column D
-    personMet: string; // Column E
-    location: string; // Column F
-    dayOfWeek: string; // Column G
-    transcription: string; // Column H
-    duration: string; // Column I
-  };
+  // Tab each row goes to; may use {groupNumber}, {year} and {month}, e.g.
+  // "Group {groupNumber}" for a tab per group or "{year}-{month}" per month
+  worksheet: string;
+  columns: GoogleSheetsColumn[]; // From column A on; must include recordId
+}
+
+export interface GoogleSheetsColumn {
+  field: GoogleSheetsField;
+  header: string;
 }
 
 export interface GoogleSheetsRow {
@@ -167,6 +362,120 @@ export interface GoogleSheetsRow {
   dayOfWeek: string;
   transcription: string;
   duration: string;
+  recordId: string; // Row key: the record id, then "id:1", "id:2" for later encounters
+  status: string;
+  validationScore: string;
+  entryMode: string;
+  language: string;
+  recordLink: string; // Opens the record in the meeting history page
+}
+
+export type GoogleSheetsField = keyof GoogleSheetsRow;
+
+export type SheetsChangeType =
+  | "append" // Not in the sheet yet
+  | "update-sheet" // Changed in the database since the last sync
+  | "update-database" // Edited in the sheet; passed validation
+  | "conflict" // Changed on both sides; left alone until resolved
+  | "rejected"; // Edited in the sheet, but the new values are invalid
+
+export interface SheetsFieldChange {
+  field: keyof GoogleSheetsRow;
+  database?: string;
+  sheet?: string;
+}
+
+export interface SheetsChange {
+  type: SheetsChangeType;
+  meetingRecordId: string;
+  rowKey: string;
+  worksheet?: string; // Tab the row is in; absent for appends
+  rowNumber?: number; // 1-based; absent for appends
+  fields: SheetsFieldChange[];
+  errors?: string[]; // Why a sheet edit was rejected
+}
+
+export interface SheetsReconciliation {
+  dryRun: boolean;
+  changes: SheetsChange[];
+  summary: Record<SheetsChangeType, number>;
+}
+
+// One external call, or a retry decision about a record
+export interface IntegrationLog {
+  id: string;
+  meetingRecordId?: string;
+  service: IntegrationService;
+  action: string;
+  status: IntegrationStatus;
+  requestData?: unknown;
+  responseData?: unknown;
+  errorMessage?: string;
+  durationMs?: number;
+  createdAt: string;
+}
+
+export interface SheetsRelayout {
+  reconciliation: SheetsReconciliation; // Run first to keep sheet edits
+  worksheets: Array<{ name: string; rows: number }>;
+}
+
+// ===== EXPORT SINK TYPES =====
+
+export enum ExportSinkType {
+  GOOGLE_SHEETS = "GOOGLE_SHEETS", // The spreadsheet configured with GOOGLE_SHEETS_*
+  FILE = "FILE", // CSV or Parquet files in a folder or S3 bucket
+  POSTGRES = "POSTGRES",
+  SQLITE = "SQLITE",
+}
+
+export interface FileSinkSettings {
+  format: "csv" | "parquet";
+  target: string; // Folder, or s3://bucket/prefix
+  fields?: GoogleSheetsField[]; // Default: all of them
+}
+
+export interface DatabaseSinkSettings {
+  url: string; // postgres://... for POSTGRES, a file path for SQLITE
+  table?: string; // Default: meeting_exports
+  fields?: GoogleSheetsField[];
+}
+
+export interface ExportSink {
+  id: string;
+  name: string;
+  type: ExportSinkType;
+  groupNumber?: string; // Only this group's records; unset exports all
+  settings: Record<string, unknown>; // Passwords in URLs are masked
+  intervalMinutes?: number; // Unset exports records as they arrive
+  isActive: boolean;
+  cursor?: { createdAt: string; recordId: string }; // Last record exported
+  exportedCount: number;
+  status: IntegrationStatus;
+  attempts: number;
+  nextRunAt?: string;
+  lastRunAt?: string;
+  lastSuccessAt?: string;
+  lastError?: string;
+  deadLetters: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ExportDeadLetter {
+  sinkId: string;
+  meetingRecordId: string;
+  recordingDate: string;
+  speakerName: string;
+  groupNumber: string;
+  attempts: number;
+  errorMessage?: string;
+  createdAt: string;
+}
+
+export interface ExportReplay {
+  replayed: number; // Exported and removed from the dead letters
+  failed: number; // Still dead letters
 }
 
 // ===== ANALYTICS TYPES =====
@@ -174,6 +483,7 @@ export interface GoogleSheetsRow {
 export interface DailyStatistics {
   date: string;
   totalRecordings: number;
+  totalMeetings: number; // Encounters; a recording may report several
   successfulRecordings: number;
   failedRecordings: number;
   uniqueGroups: number;
@@ -194,6 +504,26 @@ export interface GroupStatistics {
   }>;
 }
 
+// Query string of GET /meetings/statistics; the range defaults to 30 days
+export interface StatisticsQuery {
+  groupNumber?: string;
+  startDate?: string; // YYYY-MM-DD, inclusive
+  endDate?: string;
+}
+
+export interface MeetingStatistics {
+  range: { startDate: string; endDate: string };
+  daily: DailyStatistics[]; // Days with activity only
+  groups: GroupStatistics[];
+  totals: {
+    totalMeetings: number;
+    manualEntries: number;
+    totalGroups: number;
+    totalSpeakers: number;
+    avgMeetingsPerDay: number;
+  };
+}
+
 // ===== CONFIGURATION TYPES =====
 
 export interface AppConfig {
@@ -235,21 +565,35 @@ export enum ErrorCodes {
   INVALID_MESSAGE_FORMAT = "INVALID_MESSAGE_FORMAT",
   MISSING_REQUIRED_FIELDS = "MISSING_REQUIRED_FIELDS",
   INVALID_AUDIO_FORMAT = "INVALID_AUDIO_FORMAT",
+  INVALID_TEMPLATE = "INVALID_TEMPLATE",
+  INVALID_ENTRY_MODE = "INVALID_ENTRY_MODE",
+  INVALID_DATE_RANGE = "INVALID_DATE_RANGE",
+  INVALID_SHEETS_LAYOUT = "INVALID_SHEETS_LAYOUT",
+  INVALID_EXPORT_SINK = "INVALID_EXPORT_SINK",
   AUDIO_TOO_LARGE = "AUDIO_TOO_LARGE",
 
   // Transcription Errors
   TRANSCRIPTION_FAILED = "TRANSCRIPTION_FAILED",
   TRANSCRIPTION_TIMEOUT = "TRANSCRIPTION_TIMEOUT",
   TRANSCRIPTION_QUOTA_EXCEEDED = "TRANSCRIPTION_QUOTA_EXCEEDED",
+  INVALID_JOB_STATE = "INVALID_JOB_STATE",
 
   // Database Errors
   DATABASE_CONNECTION_FAILED = "DATABASE_CONNECTION_FAILED",
   RECORD_NOT_FOUND = "RECORD_NOT_FOUND",
   DUPLICATE_RECORD = "DUPLICATE_RECORD",
 
+  // Storage Errors
+  INVALID_SIGNED_URL = "INVALID_SIGNED_URL",
+  STORAGE_ERROR = "STORAGE_ERROR",
+  UPLOAD_CHUNK_OUT_OF_ORDER = "UPLOAD_CHUNK_OUT_OF_ORDER",
+  INVALID_UPLOAD_STATE = "INVALID_UPLOAD_STATE",
+
   // Integration Errors
   GOOGLE_SHEETS_ERROR = "GOOGLE_SHEETS_ERROR",
   EXTERNAL_API_ERROR = "EXTERNAL_API_ERROR",
+  EXPORT_SINK_ERROR = "EXPORT_SINK_ERROR",
+  EXPORT_SINK_BUSY = "EXPORT_SINK_BUSY",
 
   // System Errors
   INTERNAL_SERVER_ERROR = "INTERNAL_SERVER_ERROR",
@@ -0,0 +1,119 @@
+// packages/shared/src/validation/index.spec.ts
+import { validateTranscription } from "./index";
+
+const INTRO = "My name is Anna and I belong to group 3 and ";
+
+function validate(rest: string) {
+  return validateTranscription(INTRO + rest);
+}
+
+describe("validateTranscription", () => {
+  it("accepts the exact format", () => {
+    const result = validate("today I met Sarah at the library");
+
+    expect(result.isValid).toBe(true);
+    expect(result.confidence).toBe(1);
+    expect(result.extractedData).toEqual({
+      speakerName: "Anna",
+      groupNumber: "3",
+      personMet: "Sarah",
+      location: "the library",
+    });
+    expect(result.encounters).toEqual([
+      { personMet: "Sarah", location: "the library" },
+    ]);
+  });
+
+  it("rejects text that does not follow the format", () => {
+    expect(validateTranscription("hello there").isValid).toBe(false);
+  });
+});
+
+describe("encounters", () => {
+  it("splits people and places into encounters", () => {
+    const result = validate(
+      "today I met Sarah and David at the library and Emma at the cafe"
+    );
+
+    expect(result.isValid).toBe(true);
+    expect(result.encounters).toEqual([
+      { personMet: "Sarah", location: "the library" },
+      { personMet: "David", location: "the library" },
+      { personMet: "Emma", location: "the cafe" },
+    ]);
+  });
+
+  it("adds a stop for the same people", () => {
+    const result = validate(
+      "today I met Sarah at the library and then at the park"
+    );
+
+    expect(result.encounters).toEqual([
+      { personMet: "Sarah", location: "the library" },
+      { personMet: "Sarah", location: "the park" },
+    ]);
+  });
+
+  it("drops a repeated personMet phrase from a later encounter", () => {
+    const result = validate(
+      "today I met Sarah at the library and I met Tom at the park"
+    );
+
+    expect(result.encounters).toEqual([
+      { personMet: "Sarah", location: "the library" },
+      { personMet: "Tom", location: "the park" },
+    ]);
+  });
+
+  it("keeps a place naming a shop and its town together", () => {
+    const result = validate("today I met Sarah at Barnes and Noble in Chicago");
+
+    expect(result.encounters).toEqual([
+      { personMet: "Sarah", location: "Barnes and Noble in Chicago" },
+    ]);
+    expect(result.fieldConfidence?.location).toBeLessThan(0.8);
+  });
+
+  it("keeps a place containing 'and' together", () => {
+    const result = validate(
+      "today I met Sarah at the bed and breakfast in town"
+    );
+
+    expect(result.encounters).toEqual([
+      { personMet: "Sarah", location: "the bed and breakfast in town" },
+    ]);
+    expect(result.fieldConfidence?.location).toBeLessThan(0.8);
+  });
+
+  it("does not read a common noun as a name", () => {
+    const result = validate(
+      "today I met Sarah at the bed and breakfast at the corner"
+    );
+
+    expect(result.encounters).toHaveLength(1);
+    expect(result.confidence).toBeLessThan(0.8);
+  });
+
+  it("still splits after a place containing 'and'", () => {
+    const result = validate(
+      "today I met Sarah at Barnes and Noble in Chicago and Emma at the cafe"
+    );
+
+    expect(result.encounters).toEqual([
+      { personMet: "Sarah", location: "Barnes and Noble in Chicago" },
+      { personMet: "Emma", location: "the cafe" },
+    ]);
+  });
+
+  it("splits Spanish encounters marked with 'a'", () => {
+    const result = validateTranscription(
+      "Me llamo Ana y pertenezco al grupo 3 y hoy conocí a María en la biblioteca y a Luis en el café",
+      { locale: "es" }
+    );
+
+    expect(result.encounters).toEqual([
+      { personMet: "María", location: "la biblioteca" },
+      { personMet: "Luis", location: "el café" },
+    ]);
+  });
+});
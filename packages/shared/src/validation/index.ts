@@ -0,0 +1,1705 @@
+// packages/shared/src/validation/index.ts
+//
+// The transcript validation engine shared by the web app (live feedback)
+// and the API (the rules it enforces on submission). Sentences are parsed
+// with a template of slots; groups may store their own template, and every
+// other group uses DEFAULT_TEMPLATE.
+import {
+  ClauseSpan,
+  Encounter,
+  ExtraFields,
+  FieldConfidence,
+  GroupTemplate,
+  Locale,
+  SentenceTemplate,
+  SlotValidatorType,
+  TemplateSlot,
+  ValidationResult,
+  VoiceMessage,
+} from "../types";
+
+/**
+ * Bump whenever a change can make the same text validate differently or
+ * extract different values. The API reports the version it enforced so
+ * clients can notice they are running stale rules.
+ */
+export const VALIDATION_RULES_VERSION = "1.3.1";
+
+export const SUPPORTED_LOCALES: Locale[] = ["en", "es", "fr"];
+
+export interface ValidationMessages {
+  EXACT_MATCH: string;
+  UNDERSTOOD: string;
+  WRONG_FORMAT: string;
+  DATA_ISSUES: string;
+  GROUP_FORMAT: string; // {group} is replaced with the group number
+  INVALID_SPEAKER_NAME: string;
+  INVALID_GROUP_NUMBER: string;
+  INVALID_PERSON_MET: string;
+  INVALID_LOCATION: string;
+  INVALID_FIELD: string; // {field} is replaced with the slot's label
+  // Why a value was rejected; {field} is the field's name
+  TOO_SHORT: string;
+  TOO_LONG: string;
+  CONTAINS: string; // {text} is the offending character
+  NOT_A_NUMBER: string;
+  TOO_SMALL: string; // {min}
+  TOO_LARGE: string; // {max}
+  NOT_A_DURATION: string;
+  NO_PATTERN_MATCH: string;
+  EXPECTED: string; // {expected} is the clause the template expects next
+  FIELD_NAMES: Record<keyof VoiceMessage, string>;
+}
+
+type MessageKey = Exclude<keyof ValidationMessages, "FIELD_NAMES">;
+
+export const LOCALIZED_MESSAGES: Record<Locale, ValidationMessages> = {
+  en: {
+    EXACT_MATCH: "✅ Perfect! The message follows the required format.",
+    UNDERSTOOD: "✅ Message understood. Please check the extracted details.",
+    WRONG_FORMAT: "❌ Please follow the exact format:",
+    DATA_ISSUES: "Format is correct but data has issues: ",
+    GROUP_FORMAT: "❌ Group {group} uses its own format:",
+    INVALID_SPEAKER_NAME: "Invalid speaker name",
+    INVALID_GROUP_NUMBER: "Group number must be a valid number",
+    INVALID_PERSON_MET: "Invalid person name",
+    INVALID_LOCATION: "Invalid location",
+    INVALID_FIELD: "Invalid {field}",
+    TOO_SHORT: "{field} is too short",
+    TOO_LONG: "{field} is too long",
+    CONTAINS: "{field} contains '{text}'",
+    NOT_A_NUMBER: "{field} is not a number",
+    TOO_SMALL: "{field} must be at least {min}",
+    TOO_LARGE: "{field} must be at most {max}",
+    NOT_A_DURATION: "{field} is not a duration",
+    NO_PATTERN_MATCH: "{field} is not in the expected form",
+    EXPECTED: 'Expected "{expected}" here',
+    FIELD_NAMES: {
+      speakerName: "your name",
+      groupNumber: "group number",
+      personMet: "the person's name",
+      location: "location",
+    },
+  },
+  es: {
+    EXACT_MATCH: "✅ ¡Perfecto! El mensaje sigue el formato requerido.",
+    UNDERSTOOD: "✅ Mensaje entendido. Por favor revisa los datos extraídos.",
+    WRONG_FORMAT: "❌ Por favor sigue exactamente el formato:",
+    DATA_ISSUES: "El formato es correcto pero hay problemas con los datos: ",
+    GROUP_FORMAT: "❌ El grupo {group} usa su propio formato:",
+    INVALID_SPEAKER_NAME: "Nombre del hablante no válido",
+    INVALID_GROUP_NUMBER: "El número de grupo debe ser un número válido",
+    INVALID_PERSON_MET: "Nombre de la persona no válido",
+    INVALID_LOCATION: "Lugar no válido",
+    INVALID_FIELD: "{field} no válido",
+    TOO_SHORT: "{field} es demasiado corto",
+    TOO_LONG: "{field} es demasiado largo",
+    CONTAINS: "{field} contiene '{text}'",
+    NOT_A_NUMBER: "{field} no es un número",
+    TOO_SMALL: "{field} debe ser al menos {min}",
+    TOO_LARGE: "{field} debe ser como máximo {max}",
+    NOT_A_DURATION: "{field} no es una duración",
+    NO_PATTERN_MATCH: "{field} no tiene el formato esperado",
+    EXPECTED: 'Se esperaba "{expected}" aquí',
+    FIELD_NAMES: {
+      speakerName: "tu nombre",
+      groupNumber: "el número de grupo",
+      personMet: "el nombre de la persona",
+      location: "el lugar",
+    },
+  },
+  fr: {
+    EXACT_MATCH: "✅ Parfait ! Le message respecte le format demandé.",
+    UNDERSTOOD:
+      "✅ Message compris. Veuillez vérifier les informations extraites.",
+    WRONG_FORMAT: "❌ Veuillez respecter exactement le format :",
+    DATA_ISSUES: "Le format est correct mais les données posent problème : ",
+    GROUP_FORMAT: "❌ Le groupe {group} utilise son propre format :",
+    INVALID_SPEAKER_NAME: "Nom de l'intervenant invalide",
+    INVALID_GROUP_NUMBER: "Le numéro de groupe doit être un nombre valide",
+    INVALID_PERSON_MET: "Nom de la personne invalide",
+    INVALID_LOCATION: "Lieu invalide",
+    INVALID_FIELD: "{field} invalide",
+    TOO_SHORT: "{field} est trop court",
+    TOO_LONG: "{field} est trop long",
+    CONTAINS: "{field} contient « {text} »",
+    NOT_A_NUMBER: "{field} n'est pas un nombre",
+    TOO_SMALL: "{field} doit être au moins {min}",
+    TOO_LARGE: "{field} doit être au plus {max}",
+    NOT_A_DURATION: "{field} n'est pas une durée",
+    NO_PATTERN_MATCH: "{field} n'a pas la forme attendue",
+    EXPECTED: "« {expected} » attendu ici",
+    FIELD_NAMES: {
+      speakerName: "votre nom",
+      groupNumber: "le numéro de groupe",
+      personMet: "le nom de la personne",
+      location: "le lieu",
+    },
+  },
+};
+
+export const VALIDATION_MESSAGES = LOCALIZED_MESSAGES.en;
+
+// Speech recognisers paraphrase the connecting phrases, drop "and" and add
+// fillers, so each slot accepts several phrasings. The first phrase of a
+// slot is the wording the format asks for.
+export const DEFAULT_TEMPLATES: Record<Locale, SentenceTemplate> = {
+  en: {
+    locale: "en",
+    slots: [
+      {
+        name: "speakerName",
+        label: "name",
+        phrases: ["my name is", "this is", "i am"],
+        validator: "name",
+      },
+      {
+        name: "groupNumber",
+        label: "#",
+        joiner: "and",
+        phrases: [
+          "i belong to group",
+          "i am part of group",
+          "i am from group",
+          "i am in group",
+          "belong to group",
+          "from group",
+          "in group",
+        ],
+        validator: "groupNumber",
+      },
+      {
+        name: "personMet",
+        label: "name",
+        joiner: "and",
+        phrases: [
+          "today i met",
+          "today i met with",
+          "i met with",
+          "i met",
+          "today i saw",
+          "i saw",
+        ],
+        validator: "name",
+      },
+      {
+        name: "location",
+        phrases: ["at", "in"],
+        validator: "location",
+      },
+    ],
+  },
+  es: {
+    locale: "es",
+    slots: [
+      {
+        name: "speakerName",
+        label: "nombre",
+        phrases: ["me llamo", "mi nombre es", "soy"],
+        validator: "name",
+      },
+      {
+        name: "groupNumber",
+        label: "#",
+        joiner: "y",
+        phrases: [
+          "pertenezco al grupo",
+          "soy del grupo",
+          "estoy en el grupo",
+          "formo parte del grupo",
+          "del grupo",
+          "en el grupo",
+        ],
+        validator: "groupNumber",
+      },
+      {
+        name: "personMet",
+        label: "nombre",
+        joiner: "y",
+        phrases: [
+          "hoy conocí a",
+          "hoy me reuní con",
+          "hoy vi a",
+          "conocí a",
+          "me reuní con",
+          "vi a",
+        ],
+        validator: "name",
+      },
+      {
+        name: "location",
+        label: "lugar",
+        phrases: ["en"],
+        validator: "location",
+      },
+    ],
+  },
+  fr: {
+    locale: "fr",
+    slots: [
+      {
+        name: "speakerName",
+        label: "nom",
+        phrases: ["je m'appelle", "mon nom est", "je suis"],
+        validator: "name",
+      },
+      {
+        name: "groupNumber",
+        label: "#",
+        joiner: "et",
+        phrases: [
+          "j'appartiens au groupe",
+          "je fais partie du groupe",
+          "je suis du groupe",
+          "je suis dans le groupe",
+          "du groupe",
+          "au groupe",
+        ],
+        validator: "groupNumber",
+      },
+      {
+        name: "personMet",
+        label: "nom",
+        joiner: "et",
+        phrases: [
+          "aujourd'hui j'ai rencontré",
+          "aujourd'hui j'ai vu",
+          "j'ai rencontré",
+          "j'ai vu",
+        ],
+        validator: "name",
+      },
+      {
+        name: "location",
+        label: "lieu",
+        phrases: ["à", "au", "chez"],
+        validator: "location",
+      },
+    ],
+  },
+};
+
+export const DEFAULT_TEMPLATE = DEFAULT_TEMPLATES.en;
+
+// Every template must fill the MeetingRecord columns
+const CORE_FIELDS: Array<keyof VoiceMessage> = [
+  "speakerName",
+  "groupNumber",
+  "personMet",
+  "location",
+];
+
+const CORE_FIELD_MESSAGES: Record<keyof VoiceMessage, MessageKey> = {
+  speakerName: "INVALID_SPEAKER_NAME",
+  groupNumber: "INVALID_GROUP_NUMBER",
+  personMet: "INVALID_PERSON_MET",
+  location: "INVALID_LOCATION",
+};
+
+const SLOT_VALIDATOR_TYPES: SlotValidatorType[] = [
+  "name",
+  "groupNumber",
+  "location",
+  "text",
+  "number",
+  "duration",
+];
+
+// Multiplied into a field's confidence for each deviation from the format
+const PARAPHRASE_FACTOR = 0.9;
+const MISSING_AND_FACTOR = 0.95;
+const NOISE_FACTOR = 0.95;
+// An "and ... at" inside a place that may or may not start another encounter
+const AMBIGUOUS_STOP_FACTOR = 0.7;
+
+// Latin letters including the accented ones Spanish and French need
+const LETTERS =
+  "A-Za-z\\u00C0-\\u00D6\\u00D8-\\u00F6\\u00F8-\\u00FF\\u0152\\u0153";
+const NAME_CHARS = `${LETTERS}\\s\\-.'`;
+const LOCATION_CHARS = `${LETTERS}0-9\\s\\-.,'`;
+const NAME_PATTERN = new RegExp(`^[${NAME_CHARS}]+$`);
+const LOCATION_PATTERN = new RegExp(`^[${LOCATION_CHARS}]+$`);
+const PHRASE_PATTERN = new RegExp(`^[${LETTERS}']+( [${LETTERS}']+)*$`);
+const WORD_PATTERN = new RegExp(`^[${LETTERS}]+$`);
+
+// Words joining the people or places of one message
+const CONJUNCTIONS: Record<Locale, string[]> = {
+  en: ["and", "&"],
+  es: ["y", "e", "&"],
+  fr: ["et", "&"],
+};
+
+// Spanish marks people met with "a": "conocí a María y a Luis"
+const PERSON_MARKERS: Partial<Record<Locale, RegExp>> = {
+  es: /^al?\s+/i,
+};
+
+// Words that may open a later encounter: "and then I met Tom at the park"
+const CLAUSE_LEADS: Record<Locale, string[]> = {
+  en: ["then", "also", "later"],
+  es: ["luego", "después", "también"],
+  fr: ["puis", "ensuite", "aussi"],
+};
+
+// Words that start a place rather than a name: "the bed and breakfast"
+const DETERMINERS: Record<Locale, string[]> = {
+  en: ["the", "a", "an", "my", "our", "his", "her", "their", "this", "that"],
+  es: ["el", "la", "los", "las", "un", "una", "mi", "su", "este", "esta"],
+  fr: ["le", "la", "les", "un", "une", "mon", "ma", "mes", "son", "sa"],
+};
+
+const CONTRACTIONS: Array<[RegExp, string]> = [
+  [/\bname'?s\b/gi, "name is"],
+  [/\bi'?m\b/gi, "I am"],
+];
+const FILLERS = /\b(?:u+m+|u+h+m*|e+r+m+|e+r|a+h+|h+m+|m{2,}|euh+)\b/gi;
+const ABBREVIATIONS = /\b(?:mr|mrs|ms|dr|st|jr|sr|mt|ave|sra?|mme|mlle)$/i;
+
+interface NumberWords {
+  units: Record<string, number>;
+  tens: Record<string, number>;
+  hundreds: Record<string, number>; // Multiplied after a unit: "deux cents"
+  and: string; // Ignored between number words
+  homophones: Record<string, number>; // Words recognisers return for a digit
+  rewrites?: Array<[RegExp, string]>; // Joins multi-word numbers into one
+  teensAfter?: number[]; // Tens that take 10..19 after them (French 70, 90)
+}
+
+// Keys are without accents; spoken numbers are folded before lookup
+const NUMBER_WORDS: Record<Locale, NumberWords> = {
+  en: {
+    units: {
+      zero: 0,
+      one: 1,
+      two: 2,
+      three: 3,
+      four: 4,
+      five: 5,
+      six: 6,
+      seven: 7,
+      eight: 8,
+      nine: 9,
+      ten: 10,
+      eleven: 11,
+      twelve: 12,
+      thirteen: 13,
+      fourteen: 14,
+      fifteen: 15,
+      sixteen: 16,
+      seventeen: 17,
+      eighteen: 18,
+      nineteen: 19,
+    },
+    tens: {
+      twenty: 20,
+      thirty: 30,
+      forty: 40,
+      fifty: 50,
+      sixty: 60,
+      seventy: 70,
+      eighty: 80,
+      ninety: 90,
+    },
+    hundreds: { hundred: 100 },
+    and: "and",
+    homophones: { won: 1, to: 2, too: 2, for: 4, fore: 4, ate: 8 },
+    rewrites: [[/^a hundred\b/, "one hundred"]],
+  },
+  es: {
+    units: {
+      cero: 0,
+      uno: 1,
+      un: 1,
+      una: 1,
+      dos: 2,
+      tres: 3,
+      cuatro: 4,
+      cinco: 5,
+      seis: 6,
+      siete: 7,
+      ocho: 8,
+      nueve: 9,
+      diez: 10,
+      once: 11,
+      doce: 12,
+      trece: 13,
+      catorce: 14,
+      quince: 15,
+      dieciseis: 16,
+      diecisiete: 17,
+      dieciocho: 18,
+      diecinueve: 19,
+      veinte: 20,
+      veintiuno: 21,
+      veintiun: 21,
+      veintidos: 22,
+      veintitres: 23,
+      veinticuatro: 24,
+      veinticinco: 25,
+      veintiseis: 26,
+      veintisiete: 27,
+      veintiocho: 28,
+      veintinueve: 29,
+    },
+    tens: {
+      treinta: 30,
+      cuarenta: 40,
+      cincuenta: 50,
+      sesenta: 60,
+      setenta: 70,
+      ochenta: 80,
+      noventa: 90,
+    },
+    hundreds: {
+      cien: 100,
+      ciento: 100,
+      doscientos: 200,
+      trescientos: 300,
+      cuatrocientos: 400,
+      quinientos: 500,
+      seiscientos: 600,
+      setecientos: 700,
+      ochocientos: 800,
+      novecientos: 900,
+    },
+    and: "y",
+    homophones: {},
+  },
+  fr: {
+    units: {
+      zero: 0,
+      un: 1,
+      une: 1,
+      deux: 2,
+      trois: 3,
+      quatre: 4,
+      cinq: 5,
+      six: 6,
+      sept: 7,
+      huit: 8,
+      neuf: 9,
+      dix: 10,
+      onze: 11,
+      douze: 12,
+      treize: 13,
+      quatorze: 14,
+      quinze: 15,
+      seize: 16,
+      dixsept: 17,
+      dixhuit: 18,
+      dixneuf: 19,
+    },
+    tens: {
+      vingt: 20,
+      trente: 30,
+      quarante: 40,
+      cinquante: 50,
+      soixante: 60,
+      quatrevingt: 80,
+    },
+    hundreds: { cent: 100, cents: 100 },
+    and: "et",
+    homophones: {},
+    rewrites: [
+      [/\bdix (sept|huit|neuf)\b/g, "dix$1"],
+      [/\bquatre vingts?\b/g, "quatrevingt"],
+    ],
+    teensAfter: [60, 80],
+  },
+};
+
+export interface ValidationOptions {
+  /** Group-specific templates; other groups use DEFAULT_TEMPLATES */
+  templates?: GroupTemplate[];
+  /**
+   * Language of the feedback messages. Its default sentence is also tried
+   * first when detecting the language the message was spoken in.
+   */
+  locale?: Locale;
+}
+
+export function validateTranscription(
+  text: string,
+  options: ValidationOptions = {}
+): ValidationResult {
+  const trimmedText = text.trim();
+  const locale = options.locale ?? "en";
+  const messages = LOCALIZED_MESSAGES[locale];
+
+  if (!trimmedText) {
+    return {
+      isValid: false,
+      message: "",
+      extractedData: null,
+      rulesVersion: VALIDATION_RULES_VERSION,
+    };
+  }
+
+  // A group's own template applies only when the sentence names that group
+  const templates = options.templates ?? [];
+  let best: ValidationResult | null = null;
+
+  for (const { groupNumber, template } of templates) {
+    const result = validateWithTemplate(text, template, locale);
+    if (
+      result.extractedData &&
+      isSameGroup(result.extractedData.groupNumber, groupNumber) &&
+      (!best || rank(result) > rank(best))
+    ) {
+      best = result;
+    }
+  }
+  if (best) return best;
+
+  // Otherwise detect the language from the default sentences, preferring
+  // the user's own when several match equally well. If none matches, the
+  // one followed furthest explains what went wrong
+  let nearest: ValidationResult | null = null;
+
+  for (const language of [
+    locale,
+    ...SUPPORTED_LOCALES.filter((other) => other !== locale),
+  ]) {
+    const result = validateWithTemplate(
+      text,
+      DEFAULT_TEMPLATES[language],
+      locale
+    );
+    if (result.extractedData && (!best || rank(result) > rank(best))) {
+      best = result;
+    }
+    if (
+      !result.extractedData &&
+      (!nearest ||
+        (result.divergence?.offset ?? 0) > (nearest.divergence?.offset ?? 0))
+    ) {
+      nearest = result;
+    }
+  }
+
+  if (!best) return nearest!;
+
+  const custom = templates.find(({ groupNumber }) =>
+    isSameGroup(best!.extractedData!.groupNumber, groupNumber)
+  );
+
+  if (custom) {
+    return {
+      ...best,
+      isValid: false,
+      message: `${fill(messages.GROUP_FORMAT, {
+        group: custom.groupNumber,
+      })} "${describeTemplate(custom.template)}."`,
+    };
+  }
+  return best;
+}
+
+/**
+ * Parses text with one template, tolerating speech-recognition noise. Text
+ * that follows the template exactly gets confidence 1; every repair
+ * (fillers, contractions, paraphrased phrases, spoken numbers) lowers it.
+ * Spans are character offsets into `text` as given.
+ */
+export function validateWithTemplate(
+  text: string,
+  template: SentenceTemplate,
+  messageLocale: Locale = template.locale ?? "en"
+): ValidationResult {
+  const compiled = compileTemplate(template);
+  const { slots } = template;
+  const locale = template.locale ?? "en";
+
+  const lead = text.length - text.replace(/^\s+/, "").length;
+  const exact = text.trim().match(compiled.exact);
+  if (exact) {
+    const values = slots.map((slot, index) =>
+      exact[index * 2 + 2] === undefined
+        ? null
+        : checkSlot(slot, exact[index * 2 + 2], locale)
+    );
+    if (values.every((value) => !value || value.confidence === 1)) {
+      const located = locateSlots(slots, exact, 2).map(
+        (slot) =>
+          slot && {
+            start: slot.start + lead,
+            valueStart: slot.valueStart + lead,
+            end: slot.end + lead,
+          }
+      );
+      return buildResult(
+        template,
+        text,
+        values,
+        values.map(() => 1),
+        located,
+        messageLocale
+      );
+    }
+  }
+
+  const cleaned = cleanTranscription(text);
+  const match = cleaned.text.match(compiled.tolerant);
+
+  if (!match) {
+    return describeDivergence(template, cleaned, messageLocale);
+  }
+
+  const noise = cleaned.noisy ? NOISE_FACTOR : 1;
+  const confidences: number[] = [];
+  const values = slots.map((slot, index) => {
+    const [joiner, phrase, raw] = match.slice(index * 3 + 1, index * 3 + 4);
+    if (phrase === undefined) {
+      confidences.push(0);
+      return null;
+    }
+
+    const value = checkSlot(slot, raw, locale);
+    confidences.push(
+      noise *
+        (slot.joiner && !joiner ? MISSING_AND_FACTOR : 1) *
+        (normalizePhrase(phrase) === normalizePhrase(slot.phrases[0])
+          ? 1
+          : PARAPHRASE_FACTOR) *
+        value.confidence
+    );
+    return value;
+  });
+
+  const located = locateSlots(slots, match, 3).map(
+    (slot) => slot && toOriginal(cleaned, slot)
+  );
+  return buildResult(
+    template,
+    text,
+    values,
+    confidences,
+    located,
+    messageLocale
+  );
+}
+
+/** Problems that would stop a template from compiling or being usable */
+export function checkTemplate(template: unknown): string[] {
+  const problems: string[] = [];
+  const slots = (template as SentenceTemplate | null)?.slots;
+
+  if (!Array.isArray(slots) || slots.length === 0 || slots.length > 12) {
+    return ["slots must be a list of 1 to 12 slots"];
+  }
+
+  const { locale } = template as SentenceTemplate;
+  if (locale !== undefined && !SUPPORTED_LOCALES.includes(locale)) {
+    problems.push(`locale must be one of ${SUPPORTED_LOCALES.join(", ")}`);
+  }
+
+  const names = new Set<string>();
+  slots.forEach((slot: TemplateSlot, index) => {
+    const at = `slots[${index}]`;
+
+    if (
+      typeof slot?.name !== "string" ||
+      !/^[A-Za-z]\w{0,49}$/.test(slot.name)
+    ) {
+      problems.push(`${at}.name must be an identifier`);
+    } else if (names.has(slot.name)) {
+      problems.push(`${at}.name "${slot.name}" is used twice`);
+    } else {
+      names.add(slot.name);
+    }
+
+    if (
+      !Array.isArray(slot.phrases) ||
+      slot.phrases.length === 0 ||
+      !slot.phrases.every(
+        (phrase) => typeof phrase === "string" && PHRASE_PATTERN.test(phrase)
+      )
+    ) {
+      problems.push(`${at}.phrases must be a non-empty list of words`);
+    }
+    if (!SLOT_VALIDATOR_TYPES.includes(slot.validator)) {
+      problems.push(
+        `${at}.validator must be one of ${SLOT_VALIDATOR_TYPES.join(", ")}`
+      );
+    }
+    if (
+      slot.joiner !== undefined &&
+      (typeof slot.joiner !== "string" || !WORD_PATTERN.test(slot.joiner))
+    ) {
+      problems.push(`${at}.joiner must be a single word`);
+    }
+    if (slot.optional && index === 0) {
+      problems.push(`${at} is the first slot and cannot be optional`);
+    }
+    if (slot.pattern !== undefined) {
+      try {
+        new RegExp(slot.pattern, "i");
+      } catch {
+        problems.push(`${at}.pattern is not a valid regular expression`);
+      }
+    }
+  });
+
+  for (const field of CORE_FIELDS) {
+    const slot = slots.find((entry: TemplateSlot) => entry?.name === field);
+    if (!slot || slot.optional) {
+      problems.push(`A required "${field}" slot is missing`);
+    }
+  }
+  const group = slots.find(
+    (slot: TemplateSlot) => slot?.name === "groupNumber"
+  );
+  if (group && group.validator !== "groupNumber") {
+    problems.push('The "groupNumber" slot must use the groupNumber validator');
+  }
+
+  return problems;
+}
+
+/** The canonical sentence, e.g. "My name is [name] and I belong to ..." */
+export function describeTemplate(template: SentenceTemplate): string {
+  const sentence = template.slots
+    .map((slot) => {
+      const words = describeClause(template, slot);
+      return slot.optional ? `(${words})` : words;
+    })
+    .join(" ");
+
+  return sentence.charAt(0).toUpperCase() + sentence.slice(1);
+}
+
+/**
+ * The canonical sentence with the given values filled in, for people who
+ * type the fields instead of speaking: "My name is John and I belong to
+ * group 5 ...". Optional slots without a value are left out.
+ */
+export function composeSentence(
+  template: SentenceTemplate,
+  values: Record<string, string | number | undefined>
+): string {
+  const sentence = template.slots
+    .map((slot) => {
+      const value = String(values[slot.name] ?? "")
+        .replace(/\s+/g, " ")
+        .trim();
+      if (!value && slot.optional) return "";
+
+      const placeholder = `[${slot.label ?? slot.name}]`;
+      return describeClause(template, slot).replace(placeholder, () => value);
+    })
+    .filter(Boolean)
+    .join(" ");
+
+  return `${sentence.charAt(0).toUpperCase()}${sentence.slice(1)}.`;
+}
+
+/** One slot of the canonical sentence, e.g. "and I belong to group [#]" */
+function describeClause(
+  template: SentenceTemplate,
+  slot: TemplateSlot
+): string {
+  const words = [slot.joiner, slot.phrases[0], `[${slot.label ?? slot.name}]`]
+    .filter(Boolean)
+    .join(" ");
+
+  return (template.locale ?? "en") === "en"
+    ? words.replace(/\bi\b/g, "I")
+    : words;
+}
+
+// Why a value is invalid: a message key and its placeholders
+type Problem = [MessageKey, Record<string, string | number>?];
+
+interface SlotValue {
+  value: string | number;
+  confidence: number; // How sure the value was read correctly
+  valid: boolean;
+  problem?: Problem;
+}
+
+interface SlotLocation {
+  start: number; // Where the slot's phrase begins, after any joiner
+  valueStart: number;
+  end: number; // Exclusive
+}
+
+interface CompiledTemplate {
+  exact: RegExp; // Two groups per slot: phrase, value
+  tolerant: RegExp; // Three groups per slot: joiner, phrase, value
+  // Per slot, the tolerant pattern of the slots before it followed by this
+  // slot's joiner and phrase; null for optional slots
+  probes: Array<RegExp | null>;
+  format: string;
+}
+
+const compiledTemplates = new WeakMap<SentenceTemplate, CompiledTemplate>();
+
+function compileTemplate(template: SentenceTemplate): CompiledTemplate {
+  const cached = compiledTemplates.get(template);
+  if (cached) return cached;
+
+  // Slots after the first are preceded by whitespace; optional slots may
+  // be left out entirely
+  const exact = template.slots.map((slot, index) => {
+    const joiner = slot.joiner ? `${slot.joiner} ` : "";
+    const source = `${index ? " " : ""}${joiner}(${escapeRegExp(
+      slot.phrases[0]
+    )}) (.+?)`;
+    return slot.optional ? `(?:${source})?` : source;
+  });
+
+  const tolerant = template.slots.map((slot, index) => {
+    // An empty group keeps three groups per slot when there is no joiner
+    const joiner = slot.joiner ? `(${slot.joiner}\\s+)?` : "()";
+    const source = `${index ? "\\s+" : ""}${joiner}(${alternation(
+      slot.phrases
+    )})\\s+(.+?)`;
+    return slot.optional ? `(?:${source})?` : source;
+  });
+
+  const probes = template.slots.map((slot, index) => {
+    if (slot.optional) return null;
+    const joiner = slot.joiner ? `(${slot.joiner}\\s+)?` : "()";
+    return new RegExp(
+      `^${tolerant.slice(0, index).join("")}${
+        index ? "\\s+" : ""
+      }${joiner}(${alternation(slot.phrases)})(?=\\s|$)`,
+      "i"
+    );
+  });
+
+  const compiled = {
+    exact: new RegExp(`^${exact.join("")}\\.?$`, "i"),
+    tolerant: new RegExp(`^${tolerant.join("")}$`, "i"),
+    probes,
+    format: describeTemplate(template),
+  };
+  compiledTemplates.set(template, compiled);
+  return compiled;
+}
+
+const SLOT_VALIDATORS: Record<
+  SlotValidatorType,
+  (raw: string, slot: TemplateSlot, locale: Locale) => SlotValue
+> = {
+  name: (raw) => {
+    const value = raw.trim();
+    return withProblem(
+      { value, confidence: 1 },
+      lengthProblem(value, 2, 100) ?? characterProblem(value, NAME_CHARS)
+    );
+  },
+  location: (raw) => {
+    const value = raw.trim();
+    return withProblem(
+      { value, confidence: 1 },
+      lengthProblem(value, 2, 200) ?? characterProblem(value, LOCATION_CHARS)
+    );
+  },
+  groupNumber: (raw, _slot, locale) => {
+    const parsed = parseGroupNumber(raw, locale);
+    return parsed
+      ? withProblem(parsed, rangeProblem(Number(parsed.value), 1, 999))
+      : withProblem({ value: raw.trim(), confidence: 0 }, ["NOT_A_NUMBER"]);
+  },
+  number: (raw, slot, locale) => {
+    const parsed = parseGroupNumber(raw, locale);
+    if (!parsed) {
+      return withProblem({ value: raw.trim(), confidence: 0 }, [
+        "NOT_A_NUMBER",
+      ]);
+    }
+
+    const value = Number(parsed.value);
+    return withProblem(
+      { value, confidence: parsed.confidence },
+      rangeProblem(value, slot.min ?? 0, slot.max)
+    );
+  },
+  // Spoken durations are only understood in English for now
+  duration: (raw) => {
+    const parsed = parseDurationMinutes(raw);
+    return parsed
+      ? withProblem(parsed, rangeProblem(parsed.value, 1))
+      : withProblem({ value: raw.trim(), confidence: 0 }, ["NOT_A_DURATION"]);
+  },
+  text: (raw, slot) => {
+    const value = raw.trim();
+    return withProblem(
+      { value, confidence: 1 },
+      lengthProblem(value, 1, slot.maxLength ?? 200) ??
+        (slot.pattern && !new RegExp(slot.pattern, "i").test(value)
+          ? ["NO_PATTERN_MATCH"]
+          : undefined)
+    );
+  },
+};
+
+function withProblem(
+  value: Omit<SlotValue, "valid" | "problem">,
+  problem: Problem | undefined
+): SlotValue {
+  return problem
+    ? { ...value, valid: false, problem }
+    : { ...value, valid: true };
+}
+
+function lengthProblem(
+  value: string,
+  min: number,
+  max: number
+): Problem | undefined {
+  if (value.length < min) return ["TOO_SHORT"];
+  if (value.length > max) return ["TOO_LONG"];
+  return undefined;
+}
+
+function characterProblem(value: string, allowed: string): Problem | undefined {
+  const pattern = new RegExp(`[${allowed}]`);
+  const invalid = Array.from(value).find((char) => !pattern.test(char));
+  return invalid === undefined ? undefined : ["CONTAINS", { text: invalid }];
+}
+
+function rangeProblem(
+  value: number,
+  min: number,
+  max?: number
+): Problem | undefined {
+  if (value < min) return ["TOO_SMALL", { min }];
+  if (max !== undefined && value > max) return ["TOO_LARGE", { max }];
+  return undefined;
+}
+
+function checkSlot(slot: TemplateSlot, raw: string, locale: Locale): SlotValue {
+  return SLOT_VALIDATORS[slot.validator](raw, slot, locale);
+}
+
+function buildResult(
+  template: SentenceTemplate,
+  text: string,
+  slotValues: Array<SlotValue | null>,
+  slotConfidences: number[],
+  locations: Array<SlotLocation | null>,
+  messageLocale: Locale
+): ValidationResult {
+  const messages = LOCALIZED_MESSAGES[messageLocale];
+  const { values, confidences, encounters } = splitEncounters(
+    template,
+    text,
+    slotValues,
+    slotConfidences,
+    locations
+  );
+  const fields: ExtraFields = {};
+  const fieldConfidence: Record<string, number> = {};
+  const errors: string[] = [];
+  const spans: ClauseSpan[] = [];
+
+  template.slots.forEach((slot, index) => {
+    const value = values[index];
+    if (!value) return; // Optional slot left out
+
+    fields[slot.name] = value.value;
+    fieldConfidence[slot.name] = Math.round(confidences[index] * 100) / 100;
+    const reason = describeProblem(slot, value, messages);
+    if (!value.valid) {
+      const core = CORE_FIELD_MESSAGES[slot.name as keyof VoiceMessage];
+      errors.push(
+        slot.message ??
+          reason ??
+          (core
+            ? messages[core]
+            : fill(messages.INVALID_FIELD, { field: slot.label ?? slot.name }))
+      );
+    }
+    if (locations[index]) {
+      spans.push({
+        field: slot.name,
+        ...locations[index]!,
+        valid: value.valid,
+        reason,
+      });
+    }
+  });
+
+  const { speakerName, groupNumber, personMet, location, ...extraFields } =
+    fields;
+  const extractedData: VoiceMessage = {
+    speakerName: String(speakerName),
+    groupNumber: String(groupNumber),
+    personMet: String(personMet),
+    location: String(location),
+  };
+  // The least certain field
+  const confidence = Math.min(...Object.values(fieldConfidence));
+  const extras = Object.keys(extraFields).length ? { extraFields } : {};
+  const encounterList = encounters ?? [
+    { personMet: extractedData.personMet, location: extractedData.location },
+  ];
+
+  if (errors.length > 0) {
+    return {
+      isValid: false,
+      message: messages.DATA_ISSUES + errors.join(", "),
+      extractedData,
+      encounters: encounterList,
+      ...extras,
+      locale: template.locale ?? "en",
+      errors,
+      spans,
+      confidence,
+      fieldConfidence: fieldConfidence as FieldConfidence,
+      rulesVersion: VALIDATION_RULES_VERSION,
+    };
+  }
+
+  return {
+    isValid: true,
+    message: confidence === 1 ? messages.EXACT_MATCH : messages.UNDERSTOOD,
+    extractedData,
+    encounters: encounterList,
+    ...extras,
+    locale: template.locale ?? "en",
+    spans,
+    confidence,
+    fieldConfidence: fieldConfidence as FieldConfidence,
+    rulesVersion: VALIDATION_RULES_VERSION,
+  };
+}
+
+/**
+ * Splits a message naming several people or places into encounters:
+ * "today I met Sarah and David at the library and Emma at the cafe". People
+ * are separated by commas or "and"; "and [people] at [place]" starts a new
+ * group and "and at [place]" adds a stop for the same people. The combined
+ * values replace the personMet and location ones, reporting the first of
+ * each and the first problem found. Splits from the original text, since
+ * cleaning drops the commas.
+ *
+ * Place names contain "and" too ("Barnes and Noble in Chicago", "the bed
+ * and breakfast in town"), so a clause only starts an encounter when it
+ * reads as names followed by the place phrase the message opened with, or
+ * repeats the personMet phrase ("and I met Tom at the park"). Any other
+ * "and ... at" stays in the place and lowers the location's confidence.
+ */
+function splitEncounters(
+  template: SentenceTemplate,
+  text: string,
+  values: Array<SlotValue | null>,
+  confidences: number[],
+  locations: Array<SlotLocation | null>
+): {
+  values: Array<SlotValue | null>;
+  confidences: number[];
+  encounters: Encounter[] | null;
+} {
+  const { slots } = template;
+  const locale = template.locale ?? "en";
+  const people = slots.findIndex((slot) => slot.name === "personMet");
+  const places = slots.findIndex((slot) => slot.name === "location");
+  const peopleAt = locations[people];
+  const placesAt = locations[places];
+
+  // Stops only make sense when the place directly follows the people
+  if (!peopleAt || !placesAt || places !== people + 1) {
+    return { values, confidences, encounters: null };
+  }
+
+  const and = `(?:${CONJUNCTIONS[locale].map(escapeRegExp).join("|")})`;
+  const separator = `(?:\\s*,\\s*(?:${and}\\s+)?|\\s+${and}\\s+)`;
+  const nextStop = new RegExp(
+    `${separator}(?:(.+?)\\s+)?(${alternation(slots[places].phrases)})\\s+`,
+    "gi"
+  );
+  const lead = new RegExp(
+    `^(?:${alternation(CLAUSE_LEADS[locale])})(?:\\s+|$)`,
+    "i"
+  );
+  const metPhrase = new RegExp(
+    `^(?:${alternation(slots[people].phrases)})(?:\\s+|$)`,
+    "i"
+  );
+  const splitList = (list: string) =>
+    list
+      .split(new RegExp(separator, "i"))
+      .map((part) => cleanTranscription(part).text)
+      .filter(Boolean);
+
+  const placeText = text.slice(placesAt.valueStart, placesAt.end);
+  const opening = normalizePhrase(
+    text.slice(placesAt.start, placesAt.valueStart).trim()
+  );
+  let group = splitList(text.slice(peopleAt.valueStart, peopleAt.end));
+  // Recognisers that capitalise names capitalise all of them
+  const cased = group.every(isCapitalized);
+
+  // The people a clause names; [] for the same people, null if it is not
+  // an encounter of its own
+  const readClause = (clause: string, phrase: string): string[] | null => {
+    let rest = clause.replace(lead, "");
+    const restated = metPhrase.test(rest);
+    rest = rest
+      .replace(metPhrase, "")
+      .replace(PERSON_MARKERS[locale] ?? /^$/, "");
+    if (!restated && normalizePhrase(phrase) !== opening) return null;
+
+    const names = splitList(rest);
+    if (restated && !names.length) return null;
+    const isName = (name: string) =>
+      NAME_PATTERN.test(name) &&
+      !DETERMINERS[locale].includes(name.split(/\s+/)[0].toLowerCase()) &&
+      (!cased || isCapitalized(name));
+    return names.every(isName) ? names : null;
+  };
+
+  const pairs: Array<[string, string]> = [];
+  let ambiguous = false;
+  let last = 0;
+  let stop: RegExpExecArray | null;
+
+  while ((stop = nextStop.exec(placeText))) {
+    const clause = readClause(stop[1] ?? "", stop[2]);
+    if (!clause) {
+      // Part of the place; a later "and" may still start an encounter
+      ambiguous = true;
+      nextStop.lastIndex = stop.index + 1;
+      continue;
+    }
+
+    const place = cleanTranscription(placeText.slice(last, stop.index)).text;
+    group.forEach((person) => pairs.push([person, place]));
+    if (clause.length) group = clause;
+    last = stop.index + stop[0].length;
+  }
+  const place = cleanTranscription(placeText.slice(last)).text;
+  group.forEach((person) => pairs.push([person, place]));
+
+  const adjusted = [...confidences];
+  if (ambiguous) adjusted[places] *= AMBIGUOUS_STOP_FACTOR;
+  if (pairs.length < 2) {
+    return { values, confidences: adjusted, encounters: null };
+  }
+
+  const combine = (slot: TemplateSlot, parts: string[]): SlotValue => {
+    const checked = parts.map((part) => checkSlot(slot, part, locale));
+    return {
+      value: checked[0].value,
+      confidence: Math.min(...checked.map((value) => value.confidence)),
+      valid: checked.every((value) => value.valid),
+      problem: checked.find((value) => value.problem)?.problem,
+    };
+  };
+
+  const combined = [...values];
+  combined[people] = combine(
+    slots[people],
+    pairs.map(([person]) => person)
+  );
+  combined[places] = combine(
+    slots[places],
+    pairs.map(([, place]) => place)
+  );
+
+  return {
+    values: combined,
+    confidences: adjusted,
+    encounters: pairs.map(([personMet, location]) => ({
+      personMet,
+      location,
+    })),
+  };
+}
+
+function isCapitalized(name: string): boolean {
+  return name.charAt(0) !== name.charAt(0).toLowerCase();
+}
+
+/** A specific reason for an invalid value, e.g. "location contains '@'" */
+function describeProblem(
+  slot: TemplateSlot,
+  value: SlotValue,
+  messages: ValidationMessages
+): string | undefined {
+  if (!value.problem) return undefined;
+  const [key, values] = value.problem;
+  const field =
+    messages.FIELD_NAMES[slot.name as keyof VoiceMessage] ??
+    slot.label ??
+    slot.name;
+  return fill(messages[key], { field, ...values });
+}
+
+/**
+ * Explains text that does not follow the template: the clauses recognised
+ * before it stops following the template, and where that happens. Each
+ * required slot's phrase is looked for in turn; the value after the last
+ * one found is taken to run for as long as it stays valid.
+ */
+function describeDivergence(
+  template: SentenceTemplate,
+  cleaned: MappedText,
+  messageLocale: Locale
+): ValidationResult {
+  const messages = LOCALIZED_MESSAGES[messageLocale];
+  const { probes, format } = compileTemplate(template);
+  const { slots } = template;
+  const locale = template.locale ?? "en";
+
+  let found = -1;
+  let probe: RegExpMatchArray | null = null;
+  for (let index = 0; index < slots.length; index++) {
+    const pattern = probes[index];
+    if (!pattern) continue;
+    const match = cleaned.text.match(pattern);
+    if (!match) break;
+    found = index;
+    probe = match;
+  }
+
+  const spans: ClauseSpan[] = [];
+  let offset = 0;
+  let expected = slots[0];
+  let missingValue = false;
+
+  if (probe) {
+    const located = locateSlots(slots.slice(0, found + 1), probe, 3);
+    located.forEach((location, index) => {
+      if (!location) return;
+      const slot = slots[index];
+      const end =
+        index === found
+          ? valueExtent(cleaned.text, location.valueStart, slot, slots, locale)
+          : location.end;
+      const value = checkSlot(
+        slot,
+        cleaned.text.slice(location.valueStart, end),
+        locale
+      );
+
+      if (end > location.valueStart) {
+        spans.push({
+          field: slot.name,
+          ...toOriginal(cleaned, { ...location, end }),
+          valid: value.valid,
+          reason: describeProblem(slot, value, messages),
+        });
+      }
+      if (index === found) {
+        offset = Math.min(end + 1, cleaned.text.length);
+        missingValue = end <= location.valueStart;
+        expected =
+          (missingValue
+            ? slot
+            : slots.slice(found + 1).find((next) => !next.optional)) ?? slot;
+      }
+    });
+  }
+
+  const clause = missingValue
+    ? `[${expected.label ?? expected.name}]`
+    : describeClause(template, expected);
+  const suggestion =
+    expected === slots[0]
+      ? clause.charAt(0).toUpperCase() + clause.slice(1)
+      : clause;
+  const position =
+    offset < cleaned.text.length
+      ? cleaned.offsets[offset]
+      : cleaned.offsets[cleaned.text.length];
+
+  return {
+    isValid: false,
+    message: `${messages.WRONG_FORMAT} "${format}."`,
+    extractedData: null,
+    confidence: 0,
+    spans,
+    divergence: {
+      offset: position,
+      field: expected.name,
+      expected: suggestion,
+      message: fill(messages.EXPECTED, { expected: suggestion }),
+    },
+    rulesVersion: VALIDATION_RULES_VERSION,
+  };
+}
+
+/**
+ * Where a value ends when the rest of the sentence did not match: at the
+ * next slot's joiner or first word, or once another word would make it
+ * invalid. Always takes at least one word.
+ */
+function valueExtent(
+  text: string,
+  from: number,
+  slot: TemplateSlot,
+  slots: TemplateSlot[],
+  locale: Locale
+): number {
+  const next = slots[slots.indexOf(slot) + 1];
+  const stops = next
+    ? [next.joiner, ...next.phrases.map((phrase) => phrase.split(" ")[0])]
+        .filter((word): word is string => !!word)
+        .map(normalizePhrase)
+    : [];
+
+  const words = /\S+/g;
+  words.lastIndex = from;
+  let end = from;
+  let word: RegExpExecArray | null;
+
+  while ((word = words.exec(text))) {
+    const wordEnd = word.index + word[0].length;
+    if (end > from) {
+      if (stops.includes(normalizePhrase(word[0]))) break;
+      if (!checkSlot(slot, text.slice(from, wordEnd), locale).valid) break;
+    }
+    end = wordEnd;
+  }
+  return end;
+}
+
+/**
+ * Offsets of each matched slot, relative to the matched text. Relies on
+ * slots being separated by single spaces, which holds for the exact
+ * pattern and for cleaned text. A slot matched without a value (a probe)
+ * gets an empty one.
+ */
+function locateSlots(
+  slots: TemplateSlot[],
+  match: RegExpMatchArray,
+  groupsPerSlot: 2 | 3
+): Array<SlotLocation | null> {
+  let position = 0;
+
+  return slots.map((slot, index) => {
+    const groups = match.slice(
+      index * groupsPerSlot + 1,
+      (index + 1) * groupsPerSlot + 1
+    );
+    // The exact pattern has the joiner outside the groups
+    const [joiner, phrase, raw = ""] =
+      groupsPerSlot === 3
+        ? groups
+        : [slot.joiner ? `${slot.joiner} ` : "", ...groups];
+    if (phrase === undefined) return null;
+
+    if (index > 0) position += 1;
+    position += joiner?.length ?? 0;
+    const start = position;
+    const valueStart = start + phrase.length + 1;
+    position = valueStart + raw.length;
+    return { start, valueStart, end: position };
+  });
+}
+
+/** Maps a location in cleaned text back to the text it was cleaned from */
+function toOriginal(cleaned: MappedText, location: SlotLocation): SlotLocation {
+  const { offsets } = cleaned;
+  return {
+    start: offsets[location.start],
+    valueStart: offsets[location.valueStart],
+    end:
+      location.end > location.valueStart
+        ? offsets[location.end - 1] + 1
+        : offsets[location.valueStart],
+  };
+}
+
+function fill(
+  message: string,
+  values: Record<string, string | number | undefined>
+): string {
+  return message.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    values[name] === undefined ? placeholder : String(values[name])
+  );
+}
+
+// Text with the offset in the original of each character, plus one for
+// the end of the text
+interface MappedText {
+  text: string;
+  offsets: number[];
+  noisy: boolean;
+}
+
+/** Expands contractions and strips fillers and punctuation, keeping case */
+function cleanTranscription(text: string): MappedText {
+  let cleaned = replaceMapped(
+    { text, offsets: Array.from({ length: text.length + 1 }, (_, i) => i) },
+    /[‘’]/g,
+    () => "'"
+  );
+
+  for (const [pattern, replacement] of CONTRACTIONS) {
+    cleaned = replaceMapped(cleaned, pattern, () => replacement);
+  }
+
+  cleaned = replaceMapped(cleaned, FILLERS, () => " ");
+  cleaned = replaceMapped(cleaned, /[,;:!?"“”()…]+/g, () => " ");
+  // Sentence periods, but not those ending an abbreviation like "St."
+  cleaned = replaceMapped(cleaned, /(\S*)\.+(?=\s|$)/g, (word, stem) =>
+    ABBREVIATIONS.test(stem) ? word : stem
+  );
+  cleaned = replaceMapped(cleaned, /\s+/g, () => " ");
+  cleaned = replaceMapped(cleaned, /^ | $/g, () => "");
+
+  const canonical = text.replace(/\.$/, "").replace(/\s+/g, " ").trim();
+  return { ...cleaned, noisy: cleaned.text !== canonical };
+}
+
+/** String.replace for a global pattern that keeps the offsets in step */
+function replaceMapped(
+  source: { text: string; offsets: number[] },
+  pattern: RegExp,
+  replace: (match: string, ...groups: string[]) => string
+): { text: string; offsets: number[] } {
+  let text = "";
+  const offsets: number[] = [];
+  let last = 0;
+  let match: RegExpExecArray | null;
+
+  pattern.lastIndex = 0;
+  while ((match = pattern.exec(source.text))) {
+    if (!match[0]) {
+      pattern.lastIndex++;
+      continue;
+    }
+
+    const replacement = replace(match[0], ...match.slice(1));
+    text += source.text.slice(last, match.index) + replacement;
+    offsets.push(...source.offsets.slice(last, match.index));
+    // Replacement characters map onto the characters they replaced
+    for (let i = 0; i < replacement.length; i++) {
+      offsets.push(
+        source.offsets[match.index + Math.min(i, match[0].length - 1)]
+      );
+    }
+    last = match.index + match[0].length;
+  }
+
+  return {
+    text: text + source.text.slice(last),
+    offsets: offsets.concat(source.offsets.slice(last)),
+  };
+}
+
+/**
+ * Reads a group number written as digits ("23"), words ("twenty three",
+ * "veintitrés", "quatre-vingt-dix") or a single homophone ("for"). Returns
+ * the digits with a confidence, or null if the text is not a number.
+ */
+export function parseGroupNumber(
+  text: string,
+  locale: Locale = "en"
+): { value: string; confidence: number } | null {
+  const numberWords = NUMBER_WORDS[locale];
+  let cleaned = foldAccents(text.toLowerCase())
+    .replace(/^(?:number\s+|numero\s+|no\.\s*|n°\s*|#\s*)/, "")
+    .replace(/[-,.]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  if (/^\d+$/.test(cleaned)) {
+    return { value: String(parseInt(cleaned, 10)), confidence: 1 };
+  }
+
+  for (const [pattern, replacement] of numberWords.rewrites ?? []) {
+    cleaned = cleaned.replace(pattern, replacement);
+  }
+
+  const words = cleaned.split(" ").filter((word) => word !== numberWords.and);
+  const homophone =
+    words.length === 1 ? lookup(numberWords.homophones, words[0]) : null;
+  if (homophone !== null) {
+    return { value: String(homophone), confidence: 0.6 };
+  }
+
+  // [unit] [hundred] [tens] [unit] - rejects digit strings like "two three"
+  let value = 0;
+  let previous: "unit" | "tens" | "hundred" | null = null;
+  let lastTens = 0;
+
+  for (const word of words) {
+    const tens = lookup(numberWords.tens, word);
+    const unit = lookup(numberWords.units, word);
+    const hundreds = lookup(numberWords.hundreds, word);
+
+    if (tens !== null) {
+      if (previous === "unit" || previous === "tens") return null;
+      value += tens;
+      lastTens = tens;
+      previous = "tens";
+    } else if (unit !== null) {
+      const teen =
+        previous === "tens" &&
+        unit >= 10 &&
+        unit < 20 &&
+        !!numberWords.teensAfter?.includes(lastTens);
+      if (previous === "unit" || (previous === "tens" && unit >= 10 && !teen)) {
+        return null;
+      }
+      value += unit;
+      previous = "unit";
+    } else if (hundreds !== null) {
+      // "cien", "cent" on their own; "two hundred", "deux cents" multiply
+      if (previous === null) {
+        value = hundreds;
+      } else if (previous === "unit" && value < 10) {
+        value *= hundreds;
+      } else {
+        return null;
+      }
+      previous = "hundred";
+    } else {
+      return null;
+    }
+  }
+
+  return previous ? { value: String(value), confidence: 0.9 } : null;
+}
+
+/**
+ * Reads a spoken duration ("twenty minutes", "an hour and a half", "one
+ * hour fifteen minutes") as whole minutes.
+ */
+export function parseDurationMinutes(
+  text: string
+): { value: number; confidence: number } | null {
+  const cleaned = text
+    .toLowerCase()
+    .replace(/[-,.]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  if (/^half an? hour$/.test(cleaned)) return { value: 30, confidence: 0.9 };
+
+  let minutes = 0;
+  let confidence = 1;
+  let rest = cleaned;
+
+  const hours = cleaned.match(
+    /^(.+?) (?:hours?|hrs?)( and a half)?(?: and)?(?: (.+))?$/
+  );
+  if (hours) {
+    const count = spokenAmount(hours[1]);
+    if (!count) return null;
+    minutes += count.value * 60 + (hours[2] ? 30 : 0);
+    confidence = Math.min(confidence, count.confidence);
+    rest = hours[3] ?? "";
+  }
+
+  if (rest) {
+    const mins = rest.match(/^(.+?) (?:minutes?|mins?)$/);
+    const count = mins && spokenAmount(mins[1]);
+    if (!count) return null;
+    minutes += count.value;
+    confidence = Math.min(confidence, count.confidence);
+  }
+
+  return hours || rest ? { value: minutes, confidence } : null;
+}
+
+function spokenAmount(
+  words: string
+): { value: number; confidence: number } | null {
+  if (/^an?$/.test(words)) return { value: 1, confidence: 0.9 };
+  const parsed = parseGroupNumber(words);
+  return parsed
+    ? { value: Number(parsed.value), confidence: parsed.confidence }
+    : null;
+}
+
+function isSameGroup(extracted: string, groupNumber: string): boolean {
+  const a = extracted.trim().toLowerCase();
+  const b = groupNumber.trim().toLowerCase();
+  return (
+    a === b || (/^\d+$/.test(a) && /^\d+$/.test(b) && Number(a) === Number(b))
+  );
+}
+
+/** Valid results first, then the more confident */
+function rank(result: ValidationResult): number {
+  return (result.isValid ? 1 : 0) + (result.confidence ?? 0) / 2;
+}
+
+function normalizePhrase(phrase: string): string {
+  return foldAccents(phrase.toLowerCase()).replace(/\s+/g, " ");
+}
+
+/** "conocí" -> "conoci"; recognisers often drop or change accents */
+function foldAccents(text: string): string {
+  return text.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function lookup(table: Record<string, number>, word: string): number | null {
+  return Object.prototype.hasOwnProperty.call(table, word) ? table[word] : null;
+}
+
+/**
+ * Longest phrases first, so "i met with" wins over "i met". Accented
+ * letters also match without their accent.
+ */
+function alternation(phrases: string[]): string {
+  return [...phrases]
+    .sort((a, b) => b.length - a.length)
+    .map((phrase) =>
+      escapeRegExp(phrase)
+        .replace(/ /g, "\\s+")
+        .replace(
+          /[\u00C0-\u00FF]/g,
+          (letter) => `[${letter}${foldAccents(letter)}]`
+        )
+    )
+    .join("|");
+}
+
+export function validateExtractedData(
+  data: VoiceMessage,
+  locale: Locale = "en"
+): string[] {
+  const messages = LOCALIZED_MESSAGES[locale];
+  const errors: string[] = [];
+
+  // Validate speaker name
+  if (!isValidName(data.speakerName)) {
+    errors.push(messages.INVALID_SPEAKER_NAME);
+  }
+
+  // Validate group number
+  if (!isValidGroupNumber(data.groupNumber)) {
+    errors.push(messages.INVALID_GROUP_NUMBER);
+  }
+
+  // Validate person met
+  if (!isValidName(data.personMet)) {
+    errors.push(messages.INVALID_PERSON_MET);
+  }
+
+  // Validate location
+  if (!isValidLocation(data.location)) {
+    errors.push(messages.INVALID_LOCATION);
+  }
+
+  return errors;
+}
+
+export function isValidName(name: string): boolean {
+  return name.length >= 2 && name.length <= 100 && NAME_PATTERN.test(name);
+}
+
+export function isValidGroupNumber(groupStr: string): boolean {
+  const groupNum = Number(parseGroupNumber(groupStr)?.value);
+  return Number.isInteger(groupNum) && groupNum > 0 && groupNum <= 999;
+}
+
+export function isValidLocation(location: string): boolean {
+  return (
+    location.length >= 2 &&
+    location.length <= 200 &&
+    LOCATION_PATTERN.test(location)
+  );
+}